@@ -4,14 +4,215 @@
  */
 
 import { IGate } from "./gates/IGate";
+import { simulate, SimulationOptions, SimulationResult } from "./Simulator";
+import { circuitToJSON, circuitFromJSON, CircuitJSON } from "./formats/json";
+import { ParameterBindings, ParameterValue } from "./Parameter";
+import { Layout } from "./Layout";
+import { cIf } from "./gates/ClassicalCondition";
+import { HadamardGate } from "./gates/HadamardGate";
+import { PauliXGate } from "./gates/PauliXGate";
+import { PauliYGate } from "./gates/PauliYGate";
+import { PauliZGate } from "./gates/PauliZGate";
+import { IdentityGate } from "./gates/IdentityGate";
+import { SGate } from "./gates/SGate";
+import { TGate } from "./gates/TGate";
+import { SXGate } from "./gates/SXGate";
+import { PhaseGate } from "./gates/PhaseGate";
+import { UGate } from "./gates/UGate";
+import { RotationGate } from "./gates/RotationGate";
+import { ControlledGate } from "./gates/ControlledGate";
+import { CNOTGate } from "./gates/CNOTGate";
+import { SwapGate } from "./gates/SwapGate";
+import { ISwapGate } from "./gates/ISwapGate";
+import { MultiQubitGate } from "./gates/MultiQubitGate";
+import { MeasureGate } from "./gates/MeasureGate";
+import { ResetGate } from "./gates/ResetGate";
+import { BarrierGate } from "./gates/BarrierGate";
+import {
+  validateGate,
+  validateCircuit,
+  CircuitValidationError,
+  ValidationReport,
+} from "./validation";
+
+/**
+ * A named group of consecutive wires, such as an OpenQASM `qreg`.
+ */
+export interface Register {
+  /**
+   * The name of the register (e.g. "q" or "ancilla").
+   */
+  name: string;
+
+  /**
+   * The index of the first wire of the register in the circuit.
+   */
+  start: number;
+
+  /**
+   * The number of wires in the register.
+   */
+  size: number;
+}
+
+/**
+ * A named group of consecutive gates, such as the gates of a QFT inside a larger algorithm.
+ * Groups are drawn either expanded, with a dashed frame and a title around their gates,
+ * or collapsed into a single box labelled with their name.
+ */
+export interface GateGroup {
+  /**
+   * The name of the group, drawn as its title (e.g. "QFT").
+   */
+  name: string;
+
+  /**
+   * The index of the first gate of the group in `Circuit.gates`.
+   */
+  start: number;
+
+  /**
+   * The index after the last gate of the group in `Circuit.gates`.
+   */
+  end: number;
+
+  /**
+   * (Optional) Whether the group is drawn collapsed into a single box.
+   * Overrides the `groupDisplay` style for this group.
+   */
+  collapsed?: boolean;
+}
+
+/**
+ * A free-form note attached to a gate of the circuit, or to the column the gate is drawn in.
+ */
+export interface Annotation {
+  /**
+   * The text of the note.
+   */
+  text: string;
+
+  /**
+   * The index in `Circuit.gates` of the gate the note is attached to.
+   */
+  gate: number;
+
+  /**
+   * What the note describes: "gate" notes are written above the gate,
+   * "column" notes below the diagram, under the column of the gate.
+   */
+  target: "gate" | "column";
+}
+
+/**
+ * Payload of the circuit events about a single gate.
+ */
+export interface CircuitGateEvent {
+  /**
+   * The gate.
+   */
+  gate: IGate;
+
+  /**
+   * The index of the gate in `Circuit.gates`; for `remove`, the index it had.
+   */
+  index: number;
+}
+
+/**
+ * Payload of the circuit event emitted when a gate moves to another index.
+ */
+export interface CircuitMoveEvent extends CircuitGateEvent {
+  /**
+   * The index the gate had before the move.
+   */
+  from: number;
+}
+
+/**
+ * What a `change` event of a circuit is about:
+ * - "gates": gates were changed in place or `gates` was edited directly, so every gate may need redrawing;
+ * - "groups": the groups of gates changed, e.g. a group was recorded or collapsed;
+ * - "annotations": notes were attached;
+ * - "labels": qubit names, initial states or output labels changed;
+ * - "registers": a register was declared.
+ */
+export type CircuitChangeReason =
+  | "gates"
+  | "groups"
+  | "annotations"
+  | "labels"
+  | "registers";
+
+/**
+ * Payload of the circuit event emitted for changes other than gate insertions, removals, moves and replacements.
+ */
+export interface CircuitChangeEvent {
+  /**
+   * What changed.
+   */
+  reason: CircuitChangeReason;
+}
+
+/**
+ * The events emitted by a Circuit, with their payloads.
+ */
+export interface CircuitEventMap {
+  /**
+   * A gate was inserted, by `addGate()`, a builder method or `insertGate()`.
+   */
+  add: CircuitGateEvent;
+
+  /**
+   * A gate was removed by `removeGate()`.
+   */
+  remove: CircuitGateEvent;
+
+  /**
+   * A gate was moved to another index by `moveGate()`.
+   */
+  move: CircuitMoveEvent;
+
+  /**
+   * A gate was replaced by `replaceGate()`, or reported as changed in place.
+   */
+  update: CircuitGateEvent;
+
+  /**
+   * Something else changed: groups, annotations, labels or registers, or the gates as a whole.
+   */
+  change: CircuitChangeEvent;
+}
+
+/**
+ * A listener of a Circuit event.
+ */
+export type CircuitListener<K extends keyof CircuitEventMap> = (
+  payload: CircuitEventMap[K]
+) => void;
 
 /**
  * Represents a quantum circuit consisting of qubits and quantum gates.
+ * Gates are added with `addGate()` or the chainable builder methods named after the OpenQASM gates,
+ * and circuits are combined with `append()`, `repeat()`, `inverse()`, `tensor()` and `slice()`,
+ * which all return new circuits.
  *
  * @example
  * ```typescript
  * const circuit = new Circuit(3); // Creates a circuit with 3 qubits
  * circuit.addGate(new HadamardGate(0)); // Adds a Hadamard gate to qubit 0
+ *
+ * const measured = new Circuit(2, 2); // 2 qubits and 2 classical bits
+ * measured.h(0).cx(0, 1).measure(0, 0).measure(1, 1);
+ * ```
+ *
+ * The circuit emits events when it changes through its methods, which renderers listen to in order to update
+ * their diagrams. Direct edits of its fields emit nothing; report them with `notifyChange()`.
+ *
+ * @example
+ * ```typescript
+ * circuit.on("add", ({ gate, index }) => console.log(`Gate ${index} added`));
+ * circuit.insertGate(0, new HadamardGate(1));
  * ```
  */
 export class Circuit {
@@ -20,26 +221,1594 @@ export class Circuit {
    */
   numQubits: number;
 
+  /**
+   * The number of classical bits in the circuit.
+   */
+  numClbits: number;
+
   /**
    * An array of quantum gates applied to the circuit.
    */
   gates: IGate[] = [];
 
+  /**
+   * The named quantum registers the qubits are grouped into, in qubit order.
+   * Qubits not covered by a register are labelled with the default register name "q".
+   */
+  quantumRegisters: Register[] = [];
+
+  /**
+   * The named classical registers the classical bits are grouped into, in bit order.
+   * Bits not covered by a register are labelled with the default register name "c".
+   */
+  classicalRegisters: Register[] = [];
+
+  /**
+   * The named groups of gates (subcircuits), in gate order. Groups never overlap.
+   */
+  groups: GateGroup[] = [];
+
+  /**
+   * The notes attached to gates and columns of the diagram.
+   */
+  annotations: Annotation[] = [];
+
+  /**
+   * Custom names of qubits, keyed by qubit index, written in the left margin instead of their register labels.
+   */
+  qubitNames: { [qubit: number]: string } = {};
+
+  /**
+   * The initial states of qubits, keyed by qubit index, e.g. "0", "+" or "ψ"; qubits without one start in "0".
+   * They are written as kets in the left margin; the simulator always starts in |0⟩.
+   */
+  initialStates: { [qubit: number]: string } = {};
+
+  /**
+   * Labels of the outputs of qubits, keyed by qubit index, written in the right margin.
+   */
+  outputLabels: { [qubit: number]: string } = {};
+
+  /**
+   * Free-form data about the circuit, such as a title or an author.
+   * Saved along with the circuit by `toJSON()`, so values must be serializable to JSON.
+   */
+  metadata: { [key: string]: unknown } = {};
+
+  /**
+   * The listeners of every event. Copies of the circuit start without listeners.
+   */
+  private listeners: {
+    [K in keyof CircuitEventMap]?: CircuitListener<K>[];
+  } = {};
+
   /**
    * Creates an instance of the Circuit class.
    *
    * @param numQubits - The total number of qubits in the circuit.
+   * @param numClbits - (Optional) The total number of classical bits in the circuit. Defaults to 0.
+   *
+   * @throws {Error} Will throw an error if a count is not a non-negative integer.
    */
-  constructor(numQubits: number) {
+  constructor(numQubits: number, numClbits = 0) {
+    if (!Number.isInteger(numQubits) || numQubits < 0) {
+      throw new Error("Number of qubits must be a non-negative integer.");
+    }
+    if (!Number.isInteger(numClbits) || numClbits < 0) {
+      throw new Error(
+        "Number of classical bits must be a non-negative integer."
+      );
+    }
     this.numQubits = numQubits;
+    this.numClbits = numClbits;
   }
 
   /**
-   * Adds a quantum gate to the circuit.
+   * Adds a quantum gate to the circuit, after checking it against the circuit's wires.
    *
    * @param gate - The quantum gate to be added to the circuit.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {CircuitValidationError} Will throw an error listing the problems if a qubit or classical bit index
+   * is not an integer within the circuit, the gate's qubits are not distinct, an angle is not finite,
+   * or its classical condition is invalid.
    */
-  addGate(gate: IGate): void {
+  addGate(gate: IGate): this {
+    const issues = validateGate(this, gate);
+    if (issues.length > 0) {
+      throw new CircuitValidationError(issues);
+    }
     this.gates.push(gate);
+    this.emit("add", { gate, index: this.gates.length - 1 });
+    return this;
+  }
+
+  /**
+   * Inserts a quantum gate at an index of `gates`, after checking it as `addGate()` does.
+   * A gate inserted strictly inside a group joins it, and annotations stay with their gates.
+   *
+   * @param index - The index of the gate in `gates` after the insertion, from 0 to the number of gates.
+   * @param gate - The gate to insert.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if the index is not within the gates.
+   * @throws {CircuitValidationError} Will throw an error if the gate is invalid for the circuit, as in `addGate()`.
+   *
+   * @example
+   * ```typescript
+   * circuit.insertGate(0, new HadamardGate(1)); // a Hadamard gate before every other gate
+   * ```
+   */
+  insertGate(index: number, gate: IGate): this {
+    if (!Number.isInteger(index) || index < 0 || index > this.gates.length) {
+      throw new Error(
+        `Cannot insert a gate at index ${index}: the circuit has ${this.gates.length} gate(s).`
+      );
+    }
+    const issues = validateGate(this, gate, index);
+    if (issues.length > 0) {
+      throw new CircuitValidationError(issues);
+    }
+    this.gates.splice(index, 0, gate);
+    this.groups = insertIntoGroups(this.groups, index);
+    this.annotations = moveAnnotations(this.annotations, undefined, index);
+    this.emit("add", { gate, index });
+    return this;
+  }
+
+  /**
+   * Removes the gate at an index of `gates`.
+   * Groups shrink, groups left empty are dropped, and the gate's annotations are dropped with it.
+   *
+   * @param index - The index of the gate in `gates`.
+   * @returns The removed gate.
+   *
+   * @throws {Error} Will throw an error if there is no gate at the index.
+   */
+  removeGate(index: number): IGate {
+    const gate = this.gateAt(index);
+    this.gates.splice(index, 1);
+    this.groups = removeFromGroups(this.groups, index);
+    this.annotations = moveAnnotations(this.annotations, index, undefined);
+    this.emit("remove", { gate, index });
+    return gate;
+  }
+
+  /**
+   * Moves the gate at an index of `gates` to another index. Its annotations follow it,
+   * and groups change as if the gate were removed, then inserted again.
+   *
+   * @param from - The index of the gate in `gates`.
+   * @param to - The index of the gate in `gates` after the move.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if there is no gate at either index.
+   *
+   * @example
+   * ```typescript
+   * circuit.moveGate(circuit.gates.length - 1, 0); // the last gate becomes the first
+   * ```
+   */
+  moveGate(from: number, to: number): this {
+    const gate = this.gateAt(from);
+    this.gateAt(to);
+    this.gates.splice(from, 1);
+    this.gates.splice(to, 0, gate);
+    this.groups = insertIntoGroups(removeFromGroups(this.groups, from), to);
+    this.annotations = moveAnnotations(this.annotations, from, to);
+    this.emit("move", { gate, index: to, from });
+    return this;
+  }
+
+  /**
+   * Replaces the gate at an index of `gates`, after checking the new gate as `addGate()` does.
+   * Also reports a gate changed in place (e.g. after editing its angle or `style`) when called with its own gate.
+   *
+   * @param index - The index of the gate in `gates`.
+   * @param gate - (Optional) The new gate. Defaults to the gate already at the index.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if there is no gate at the index.
+   * @throws {CircuitValidationError} Will throw an error if the gate is invalid for the circuit, as in `addGate()`.
+   *
+   * @example
+   * ```typescript
+   * circuit.replaceGate(2, new RotationGate("Y", 1, Math.PI / 4));
+   *
+   * circuit.gates[0].style = { gateFill: "#fdd" };
+   * circuit.replaceGate(0); // redraws gate 0 in renderers of the circuit
+   * ```
+   */
+  replaceGate(index: number, gate?: IGate): this {
+    const replacement = gate || this.gateAt(index);
+    this.gateAt(index);
+    const issues = validateGate(this, replacement, index);
+    if (issues.length > 0) {
+      throw new CircuitValidationError(issues);
+    }
+    this.gates[index] = replacement;
+    this.emit("update", { gate: replacement, index });
+    return this;
+  }
+
+  /**
+   * Reports a change made without the circuit's methods, e.g. by editing `gates`, `groups` or `qubitNames` directly,
+   * so that renderers of the circuit update their diagrams.
+   *
+   * @param reason - (Optional) What changed. Defaults to "gates", which redraws every gate.
+   * @returns The circuit, for chaining.
+   *
+   * @example
+   * ```typescript
+   * circuit.groups[0].collapsed = true;
+   * circuit.notifyChange("groups");
+   * ```
+   */
+  notifyChange(reason: CircuitChangeReason = "gates"): this {
+    this.emit("change", { reason });
+    return this;
+  }
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @param type - The event type.
+   * @param listener - The function called with the event's payload.
+   * @returns The circuit, for chaining.
+   */
+  on<K extends keyof CircuitEventMap>(
+    type: K,
+    listener: CircuitListener<K>
+  ): this {
+    const listeners = (this.listeners[type] || []) as CircuitListener<K>[];
+    listeners.push(listener);
+    this.listeners[type] = listeners as Circuit["listeners"][K];
+    return this;
+  }
+
+  /**
+   * Removes a listener registered with `on()`.
+   *
+   * @param type - The event type.
+   * @param listener - The listener to remove.
+   * @returns The circuit, for chaining.
+   */
+  off<K extends keyof CircuitEventMap>(
+    type: K,
+    listener: CircuitListener<K>
+  ): this {
+    const listeners = (this.listeners[type] || []) as CircuitListener<K>[];
+    this.listeners[type] = listeners.filter(
+      (l) => l !== listener
+    ) as Circuit["listeners"][K];
+    return this;
+  }
+
+  /**
+   * Adds a Hadamard gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   *
+   * @example
+   * ```typescript
+   * circuit.h(0).cx(0, 1).rx(1, Math.PI / 2);
+   * ```
+   */
+  h(qubit: number): this {
+    return this.addGate(new HadamardGate(qubit));
+  }
+
+  /**
+   * Adds a Pauli-X gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  x(qubit: number): this {
+    return this.addGate(new PauliXGate(qubit));
+  }
+
+  /**
+   * Adds a Pauli-Y gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  y(qubit: number): this {
+    return this.addGate(new PauliYGate(qubit));
+  }
+
+  /**
+   * Adds a Pauli-Z gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  z(qubit: number): this {
+    return this.addGate(new PauliZGate(qubit));
+  }
+
+  /**
+   * Adds an identity gate, marking the qubit as idle.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  id(qubit: number): this {
+    return this.addGate(new IdentityGate(qubit));
   }
+
+  /**
+   * Adds an S gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  s(qubit: number): this {
+    return this.addGate(new SGate(qubit));
+  }
+
+  /**
+   * Adds an S† gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  sdg(qubit: number): this {
+    return this.addGate(new SGate(qubit, true));
+  }
+
+  /**
+   * Adds a T gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  t(qubit: number): this {
+    return this.addGate(new TGate(qubit));
+  }
+
+  /**
+   * Adds a T† gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  tdg(qubit: number): this {
+    return this.addGate(new TGate(qubit, true));
+  }
+
+  /**
+   * Adds a √X gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  sx(qubit: number): this {
+    return this.addGate(new SXGate(qubit));
+  }
+
+  /**
+   * Adds a √X† gate.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  sxdg(qubit: number): this {
+    return this.addGate(new SXGate(qubit, true));
+  }
+
+  /**
+   * Adds a phase gate P(λ).
+   *
+   * @param qubit - The qubit.
+   * @param angle - The phase angle λ in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  p(qubit: number, angle: ParameterValue): this {
+    return this.addGate(new PhaseGate(qubit, angle));
+  }
+
+  /**
+   * Adds a general single-qubit gate U(θ, φ, λ).
+   *
+   * @param qubit - The qubit.
+   * @param theta - The polar rotation angle θ in radians, or a symbolic expression.
+   * @param phi - The phase angle φ in radians, or a symbolic expression.
+   * @param lambda - The phase angle λ in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  u(
+    qubit: number,
+    theta: ParameterValue,
+    phi: ParameterValue,
+    lambda: ParameterValue
+  ): this {
+    return this.addGate(new UGate(qubit, theta, phi, lambda));
+  }
+
+  /**
+   * Adds a rotation around the X axis.
+   *
+   * @param qubit - The qubit.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  rx(qubit: number, angle: ParameterValue): this {
+    return this.addGate(new RotationGate("X", qubit, angle));
+  }
+
+  /**
+   * Adds a rotation around the Y axis.
+   *
+   * @param qubit - The qubit.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  ry(qubit: number, angle: ParameterValue): this {
+    return this.addGate(new RotationGate("Y", qubit, angle));
+  }
+
+  /**
+   * Adds a rotation around the Z axis.
+   *
+   * @param qubit - The qubit.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  rz(qubit: number, angle: ParameterValue): this {
+    return this.addGate(new RotationGate("Z", qubit, angle));
+  }
+
+  /**
+   * Adds a controlled-NOT gate.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @returns The circuit, for chaining.
+   */
+  cx(control: number, target: number): this {
+    return this.addGate(new CNOTGate(control, target));
+  }
+
+  /**
+   * Adds a controlled-Y gate.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @returns The circuit, for chaining.
+   */
+  cy(control: number, target: number): this {
+    return this.addGate(new ControlledGate(new PauliYGate(target), [control]));
+  }
+
+  /**
+   * Adds a controlled-Z gate.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @returns The circuit, for chaining.
+   */
+  cz(control: number, target: number): this {
+    return this.addGate(new ControlledGate(new PauliZGate(target), [control]));
+  }
+
+  /**
+   * Adds a controlled-Hadamard gate.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @returns The circuit, for chaining.
+   */
+  ch(control: number, target: number): this {
+    return this.addGate(
+      new ControlledGate(new HadamardGate(target), [control])
+    );
+  }
+
+  /**
+   * Adds a controlled phase gate.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @param angle - The phase angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  cp(control: number, target: number, angle: ParameterValue): this {
+    return this.addGate(
+      new ControlledGate(new PhaseGate(target, angle), [control])
+    );
+  }
+
+  /**
+   * Adds a controlled rotation around the X axis.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  crx(control: number, target: number, angle: ParameterValue): this {
+    return this.addGate(
+      new ControlledGate(new RotationGate("X", target, angle), [control])
+    );
+  }
+
+  /**
+   * Adds a controlled rotation around the Y axis.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  cry(control: number, target: number, angle: ParameterValue): this {
+    return this.addGate(
+      new ControlledGate(new RotationGate("Y", target, angle), [control])
+    );
+  }
+
+  /**
+   * Adds a controlled rotation around the Z axis.
+   *
+   * @param control - The control qubit.
+   * @param target - The target qubit.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
+   * @returns The circuit, for chaining.
+   */
+  crz(control: number, target: number, angle: ParameterValue): this {
+    return this.addGate(
+      new ControlledGate(new RotationGate("Z", target, angle), [control])
+    );
+  }
+
+  /**
+   * Adds a Toffoli (controlled-controlled-NOT) gate.
+   *
+   * @param control1 - The first control qubit.
+   * @param control2 - The second control qubit.
+   * @param target - The target qubit.
+   * @returns The circuit, for chaining.
+   */
+  ccx(control1: number, control2: number, target: number): this {
+    return this.addGate(
+      new ControlledGate(new PauliXGate(target), [control1, control2])
+    );
+  }
+
+  /**
+   * Adds a SWAP gate.
+   *
+   * @param qubit1 - The first qubit.
+   * @param qubit2 - The second qubit.
+   * @returns The circuit, for chaining.
+   */
+  swap(qubit1: number, qubit2: number): this {
+    return this.addGate(new SwapGate(qubit1, qubit2));
+  }
+
+  /**
+   * Adds an iSWAP gate.
+   *
+   * @param qubit1 - The first qubit.
+   * @param qubit2 - The second qubit.
+   * @returns The circuit, for chaining.
+   */
+  iswap(qubit1: number, qubit2: number): this {
+    return this.addGate(new ISwapGate(qubit1, qubit2));
+  }
+
+  /**
+   * Adds a labelled block spanning several qubits, such as "QFT" or "Oracle".
+   *
+   * @param name - The label of the block.
+   * @param qubits - The qubits of the block, in input order.
+   * @param inputLabels - (Optional) The label of each input.
+   * @returns The circuit, for chaining.
+   */
+  block(name: string, qubits: number[], inputLabels?: string[]): this {
+    return this.addGate(new MultiQubitGate(name, qubits, inputLabels));
+  }
+
+  /**
+   * Adds a barrier, which keeps gates on either side from sharing a column on its qubits.
+   *
+   * @param qubits - (Optional) The qubits the barrier spans. Defaults to every qubit.
+   * @param title - (Optional) The title written above the barrier.
+   * @returns The circuit, for chaining.
+   */
+  barrier(qubits?: number[], title?: string): this {
+    const all: number[] = [];
+    for (let i = 0; i < this.numQubits; i++) {
+      all.push(i);
+    }
+    return this.addGate(new BarrierGate(qubits || all, title));
+  }
+
+  /**
+   * Marks the end of a slice (time step) of the circuit: a barrier across every qubit, titled with a label
+   * written along the top of the diagram.
+   *
+   * @param label - The label of the slice, e.g. "t = 1" or "Oracle".
+   * @returns The circuit, for chaining.
+   *
+   * @example
+   * ```typescript
+   * circuit.h(0).h(1).marker("Superposition").cz(0, 1).marker("Oracle");
+   * ```
+   */
+  marker(label: string): this {
+    return this.barrier(undefined, label);
+  }
+
+  /**
+   * Attaches a note to a gate, written above the gate.
+   *
+   * @param text - The note.
+   * @param gate - (Optional) The index of the gate in `gates`. Defaults to the last gate added.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if there is no gate at the index.
+   *
+   * @example
+   * ```typescript
+   * circuit.h(0).annotate("Uniform superposition").cx(0, 1).annotate("Entangle");
+   * ```
+   */
+  annotate(text: string, gate = this.gates.length - 1): this {
+    if (!Number.isInteger(gate) || gate < 0 || gate >= this.gates.length) {
+      throw new Error(`Cannot annotate gate ${gate}: there is no such gate.`);
+    }
+    this.annotations.push({ text, gate, target: "gate" });
+    return this.notifyChange("annotations");
+  }
+
+  /**
+   * Attaches a note to a column of the diagram, written below the diagram under the column.
+   * The note stays with the first gate of the column when the circuit changes.
+   *
+   * @param text - The note.
+   * @param column - The column, as laid out with the default styles.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if the column has no gates.
+   */
+  annotateColumn(text: string, column: number): this {
+    const indices = new Layout(this).columns[column];
+    if (!indices) {
+      throw new Error(`Cannot annotate column ${column}: it has no gates.`);
+    }
+    this.annotations.push({
+      text,
+      gate: Math.min(...indices),
+      target: "column",
+    });
+    return this.notifyChange("annotations");
+  }
+
+  /**
+   * Adds a measurement of a qubit into a classical bit.
+   *
+   * @param qubit - The measured qubit.
+   * @param clbit - The classical bit receiving the outcome.
+   * @returns The circuit, for chaining.
+   */
+  measure(qubit: number, clbit: number): this {
+    return this.addGate(new MeasureGate(qubit, clbit));
+  }
+
+  /**
+   * Adds a reset of a qubit to |0⟩.
+   *
+   * @param qubit - The qubit.
+   * @returns The circuit, for chaining.
+   */
+  reset(qubit: number): this {
+    return this.addGate(new ResetGate(qubit));
+  }
+
+  /**
+   * Checks every gate against the circuit's wires and the gates' invariants, as `addGate()` does.
+   * Useful after editing `gates` directly, which bypasses the checks of `addGate()`.
+   *
+   * @returns The report: whether the circuit is valid, and every problem found with the index of its gate.
+   *
+   * @example
+   * ```typescript
+   * circuit.gates.push(new HadamardGate(7));
+   * circuit.validate();
+   * // { valid: false, issues: [{ index: 0, code: "qubit", message: "Qubit index 7 is out of range for 3 qubit(s).", ... }] }
+   * ```
+   */
+  validate(): ValidationReport {
+    return validateCircuit(this);
+  }
+
+  /**
+   * Records a named group of consecutive gates (a subcircuit), drawn with a frame and a title or as a single box.
+   *
+   * @param name - The name of the group.
+   * @param start - The index of the first gate of the group, or a function adding the gates of the group
+   * to the circuit; the group then covers the gates it adds.
+   * @param end - (Optional) The index after the last gate of the group, when `start` is an index.
+   * Defaults to the end of the circuit.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if the group is empty, lies outside `gates`, or overlaps another group.
+   *
+   * @example
+   * ```typescript
+   * circuit.h(0).group("QFT", (c) => c.h(1).cp(1, 2, Math.PI / 2).h(2)).measure(0, 0);
+   * circuit.group("Oracle", 4, 9); // gates 4 to 8
+   * ```
+   */
+  group(
+    name: string,
+    start: number | ((circuit: this) => void),
+    end?: number
+  ): this {
+    let first: number;
+    let last: number;
+    if (typeof start === "function") {
+      first = this.gates.length;
+      start(this);
+      last = this.gates.length;
+    } else {
+      first = start;
+      last = end === undefined ? this.gates.length : end;
+    }
+    if (
+      !Number.isInteger(first) ||
+      !Number.isInteger(last) ||
+      first < 0 ||
+      last <= first ||
+      last > this.gates.length
+    ) {
+      throw new Error(
+        `Group '${name}' must cover at least one gate within the ${this.gates.length} gate(s) of the circuit.`
+      );
+    }
+    const overlapping = this.groups.filter(
+      (group) => group.start < last && first < group.end
+    );
+    if (overlapping.length > 0) {
+      throw new Error(
+        `Group '${name}' overlaps group '${overlapping[0].name}'.`
+      );
+    }
+    this.groups.push({ name, start: first, end: last });
+    this.groups.sort((a, b) => a.start - b.start);
+    return this.notifyChange("groups");
+  }
+
+  /**
+   * Declares a named quantum register covering the next unassigned qubits of the circuit.
+   *
+   * @param name - The name of the register.
+   * @param size - The number of qubits in the register.
+   * @returns The declared register.
+   *
+   * @throws {Error} Will throw an error if the name is already used or the register does not fit in the circuit.
+   *
+   * @example
+   * ```typescript
+   * const circuit = new Circuit(3);
+   * circuit.addQuantumRegister("data", 2); // data[0], data[1] are qubits 0 and 1
+   * circuit.addQuantumRegister("anc", 1); // anc[0] is qubit 2
+   * ```
+   */
+  addQuantumRegister(name: string, size: number): Register {
+    return this.declareRegister(
+      this.quantumRegisters,
+      name,
+      size,
+      this.numQubits,
+      "qubits"
+    );
+  }
+
+  /**
+   * Declares a named classical register covering the next unassigned classical bits of the circuit.
+   *
+   * @param name - The name of the register.
+   * @param size - The number of classical bits in the register.
+   * @returns The declared register.
+   *
+   * @throws {Error} Will throw an error if the name is already used or the register does not fit in the circuit.
+   *
+   * @example
+   * ```typescript
+   * const circuit = new Circuit(2, 2);
+   * circuit.addClassicalRegister("result", 2);
+   * ```
+   */
+  addClassicalRegister(name: string, size: number): Register {
+    return this.declareRegister(
+      this.classicalRegisters,
+      name,
+      size,
+      this.numClbits,
+      "classical bits"
+    );
+  }
+
+  /**
+   * Returns the label of a qubit, formatted as "<register>[<index>]".
+   *
+   * @param qubit - The qubit index in the circuit.
+   * @returns The qubit's label, e.g. "q[0]" or "anc[1]".
+   */
+  qubitLabel(qubit: number): string {
+    return this.wireLabel(this.quantumRegisters, qubit, "q");
+  }
+
+  /**
+   * Returns the label of a classical bit, formatted as "<register>[<index>]".
+   *
+   * @param clbit - The classical bit index in the circuit.
+   * @returns The classical bit's label, e.g. "c[0]" or "result[1]".
+   */
+  clbitLabel(clbit: number): string {
+    return this.wireLabel(this.classicalRegisters, clbit, "c");
+  }
+
+  /**
+   * Returns the name of a qubit written in the left margin of the diagram: its custom name if it has one,
+   * otherwise its register label with the index as a subscript.
+   *
+   * @param qubit - The qubit index in the circuit.
+   * @returns The qubit's name, e.g. "q₀", "anc₁" or a custom name.
+   */
+  qubitName(qubit: number): string {
+    return this.qubitNames[qubit] !== undefined
+      ? this.qubitNames[qubit]
+      : subscriptLabel(this.qubitLabel(qubit));
+  }
+
+  /**
+   * Returns the name of a classical bit written in the left margin of the diagram, e.g. "c₀".
+   *
+   * @param clbit - The classical bit index in the circuit.
+   */
+  clbitName(clbit: number): string {
+    return subscriptLabel(this.clbitLabel(clbit));
+  }
+
+  /**
+   * Gives a qubit a custom name, written in the left margin instead of its register label.
+   *
+   * @param qubit - The qubit index.
+   * @param name - The name, e.g. "ancilla" or "|ψ⟩".
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if the qubit is not in the circuit.
+   *
+   * @example
+   * ```typescript
+   * new Circuit(3).nameQubit(2, "ancilla");
+   * ```
+   */
+  nameQubit(qubit: number, name: string): this {
+    this.qubitNames[this.checkQubit(qubit)] = name;
+    return this.notifyChange("labels");
+  }
+
+  /**
+   * Sets the initial state written for a qubit when the `qubitLabels` style shows states.
+   * It only labels the diagram: the simulator still starts every qubit in |0⟩.
+   *
+   * @param qubit - The qubit index.
+   * @param state - The state inside the ket, e.g. "+" for |+⟩.
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if the qubit is not in the circuit.
+   *
+   * @example
+   * ```typescript
+   * new Circuit(2).setInitialState(1, "-"); // q₁ is drawn starting in |-⟩
+   * ```
+   */
+  setInitialState(qubit: number, state: string): this {
+    this.initialStates[this.checkQubit(qubit)] = state;
+    return this.notifyChange("labels");
+  }
+
+  /**
+   * Sets the label written after the end of a qubit's wire, in the right margin.
+   *
+   * @param qubit - The qubit index.
+   * @param label - The label, e.g. "|ψ⟩" or "result".
+   * @returns The circuit, for chaining.
+   *
+   * @throws {Error} Will throw an error if the qubit is not in the circuit.
+   */
+  setOutputLabel(qubit: number, label: string): this {
+    this.outputLabels[this.checkQubit(qubit)] = label;
+    return this.notifyChange("labels");
+  }
+
+  /**
+   * Returns the names of the symbolic parameters the gates depend on, in order of first appearance.
+   *
+   * @returns The parameter names; empty when every angle is a number.
+   *
+   * @example
+   * ```typescript
+   * circuit.addGate(new RotationGate("X", 0, new Parameter("θ")));
+   * circuit.parameters(); // ["θ"]
+   * ```
+   */
+  parameters(): string[] {
+    const names: string[] = [];
+    this.gates.forEach((gate) => {
+      if (typeof gate.parameters === "function") {
+        gate.parameters().forEach((name) => {
+          if (names.indexOf(name) === -1) {
+            names.push(name);
+          }
+        });
+      }
+    });
+    return names;
+  }
+
+  /**
+   * Returns a copy of the circuit with values bound to some or all of its symbolic parameters.
+   * The circuit itself is left unchanged, so the same template can be bound to many sets of values.
+   * Parameters without a value stay symbolic; classical conditions and gate styles are kept on the bound gates.
+   *
+   * @param bindings - The values of the parameters in radians, keyed by name.
+   * @returns The bound circuit, with the same registers and metadata.
+   *
+   * @throws {Error} Will throw an error if a name is not a parameter of the circuit or a value is not a finite number.
+   *
+   * @example
+   * ```typescript
+   * const ansatz = new Circuit(2);
+   * ansatz.addGate(new RotationGate("Y", 0, new Parameter("θ")));
+   * const bound = ansatz.bind({ θ: Math.PI / 2 }); // drawn as "RY(π/2)" and ready to simulate
+   * ```
+   */
+  bind(bindings: ParameterBindings): Circuit {
+    const parameters = this.parameters();
+    Object.keys(bindings).forEach((name) => {
+      if (parameters.indexOf(name) === -1) {
+        throw new Error(`The circuit has no parameter named '${name}'.`);
+      }
+      if (typeof bindings[name] !== "number" || !isFinite(bindings[name])) {
+        throw new Error(
+          `The value of parameter '${name}' must be a finite number.`
+        );
+      }
+    });
+
+    const bound = this.emptyCopy();
+    bound.groups = shiftGroups(this.groups, 0);
+    bound.annotations = shiftAnnotations(this.annotations, 0);
+    bound.gates = this.gates.map((gate) => {
+      if (typeof gate.bind !== "function") {
+        return gate;
+      }
+      const copy = gate.bind(bindings);
+      if (gate.condition) {
+        copy.condition = gate.condition;
+      }
+      if (gate.style) {
+        copy.style = gate.style;
+      }
+      return copy;
+    });
+    return bound;
+  }
+
+  /**
+   * Returns a new circuit with the gates of another circuit added after the gates of this one.
+   * The other circuit's wires are mapped onto wires of this circuit, in order by default.
+   *
+   * @param other - The circuit to append.
+   * @param qubits - (Optional) The qubit of this circuit for each qubit of the other circuit. Defaults to 0, 1, ...
+   * @param clbits - (Optional) The classical bit of this circuit for each classical bit of the other circuit.
+   * Defaults to 0, 1, ...
+   * @returns The combined circuit, with the wires, registers and metadata of this circuit.
+   *
+   * @throws {Error} Will throw an error if a mapping does not give one distinct wire of this circuit
+   * to each wire of the other circuit.
+   *
+   * @example
+   * ```typescript
+   * const bell = new Circuit(2).h(0).cx(0, 1);
+   * const circuit = new Circuit(4).append(bell, [2, 3]); // Bell pair on qubits 2 and 3
+   * ```
+   */
+  append(other: Circuit, qubits?: number[], clbits?: number[]): Circuit {
+    const qubitMap = wireMapping(
+      qubits,
+      other.numQubits,
+      this.numQubits,
+      "qubit"
+    );
+    const clbitMap = wireMapping(
+      clbits,
+      other.numClbits,
+      this.numClbits,
+      "classical bit"
+    );
+    const result = this.copy();
+    result.groups = result.groups.concat(
+      shiftGroups(other.groups, this.gates.length)
+    );
+    result.annotations = result.annotations.concat(
+      shiftAnnotations(other.annotations, this.gates.length)
+    );
+    other.gates.forEach((gate) =>
+      result.addGate(
+        remapGate(
+          gate,
+          (qubit) => qubitMap[qubit],
+          (clbit) => clbitMap[clbit]
+        )
+      )
+    );
+    return result;
+  }
+
+  /**
+   * Returns a new circuit running the gates of this circuit several times in a row.
+   *
+   * @param count - The number of repetitions; 0 gives a circuit without gates.
+   * @returns The repeated circuit, with the same wires, registers and metadata.
+   *
+   * @throws {Error} Will throw an error if the count is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const layer = new Circuit(2).ry(0, new Parameter("θ")).cx(0, 1);
+   * const ansatz = layer.repeat(3);
+   * ```
+   */
+  repeat(count: number): Circuit {
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(
+        "The number of repetitions must be a non-negative integer."
+      );
+    }
+    const result = this.emptyCopy();
+    for (let i = 0; i < count; i++) {
+      result.groups.push(...shiftGroups(this.groups, result.gates.length));
+      result.annotations.push(
+        ...shiftAnnotations(this.annotations, result.gates.length)
+      );
+      result.gates.push(...this.copy().gates);
+    }
+    return result;
+  }
+
+  /**
+   * Returns the inverse of the circuit: the inverse of every gate, in reverse order.
+   * Classical conditions and gate styles are kept on the inverted gates, and groups are named with a trailing "†".
+   *
+   * @returns The inverse circuit, with the same wires, registers and metadata.
+   *
+   * @throws {Error} Will throw an error if a gate cannot be inverted because it does not implement `inverse()`,
+   * as is the case for measurements and resets.
+   *
+   * @example
+   * ```typescript
+   * const circuit = new Circuit(2).h(0).s(0).cx(0, 1);
+   * circuit.inverse(); // CNOT, S†, H
+   * ```
+   */
+  inverse(): Circuit {
+    const result = this.emptyCopy();
+    for (let index = this.gates.length - 1; index >= 0; index--) {
+      const gate = this.gates[index];
+      if (typeof gate.inverse !== "function") {
+        throw new Error(
+          `Gate '${gate.name}' at index ${index} cannot be inverted because it does not implement inverse().`
+        );
+      }
+      const inverse = gate.inverse();
+      if (gate.condition) {
+        cIf(inverse, gate.condition.clbits, gate.condition.value);
+      }
+      if (gate.style) {
+        inverse.style = gate.style;
+      }
+      result.gates.push(inverse);
+    }
+    const count = this.gates.length;
+    result.groups = this.groups
+      .map((group) => ({
+        ...group,
+        name: /†$/.test(group.name)
+          ? group.name.slice(0, -1)
+          : `${group.name}†`,
+        start: count - group.end,
+        end: count - group.start,
+      }))
+      .reverse();
+    result.annotations = this.annotations.map((annotation) => ({
+      ...annotation,
+      gate: count - 1 - annotation.gate,
+    }));
+    return result;
+  }
+
+  /**
+   * Returns a new circuit running this circuit and another one side by side,
+   * with the other circuit's qubits and classical bits placed after those of this circuit.
+   * The registers of both circuits are kept when this circuit's registers cover all of its wires
+   * and the names do not clash; otherwise only this circuit's registers are kept.
+   * The names, initial states and output labels of both circuits' qubits are kept.
+   *
+   * @param other - The circuit placed below this one.
+   * @returns The combined circuit, with the metadata of this circuit.
+   *
+   * @example
+   * ```typescript
+   * const pair = new Circuit(1).h(0).tensor(new Circuit(1).x(0)); // H on qubit 0, X on qubit 1
+   * ```
+   */
+  tensor(other: Circuit): Circuit {
+    const result = new Circuit(
+      this.numQubits + other.numQubits,
+      this.numClbits + other.numClbits
+    );
+    result.metadata = { ...this.metadata };
+    result.qubitNames = shiftLabels(
+      this.qubitNames,
+      other.qubitNames,
+      this.numQubits
+    );
+    result.initialStates = shiftLabels(
+      this.initialStates,
+      other.initialStates,
+      this.numQubits
+    );
+    result.outputLabels = shiftLabels(
+      this.outputLabels,
+      other.outputLabels,
+      this.numQubits
+    );
+    const registers = (
+      own: Register[],
+      theirs: Register[],
+      count: number
+    ): Register[] => {
+      const covered = own.reduce((total, r) => total + r.size, 0);
+      const names = this.quantumRegisters
+        .concat(this.classicalRegisters)
+        .map((r) => r.name);
+      const clash = theirs.some((r) => names.indexOf(r.name) !== -1);
+      const copies = own.map((r) => ({ ...r }));
+      return covered === count && !clash
+        ? copies.concat(theirs.map((r) => ({ ...r, start: r.start + count })))
+        : copies;
+    };
+    result.quantumRegisters = registers(
+      this.quantumRegisters,
+      other.quantumRegisters,
+      this.numQubits
+    );
+    result.classicalRegisters = registers(
+      this.classicalRegisters,
+      other.classicalRegisters,
+      this.numClbits
+    );
+
+    result.gates = this.copy().gates.concat(
+      other.gates.map((gate) =>
+        remapGate(
+          gate,
+          (qubit) => qubit + this.numQubits,
+          (clbit) => clbit + this.numClbits
+        )
+      )
+    );
+    result.groups = shiftGroups(this.groups, 0).concat(
+      shiftGroups(other.groups, this.gates.length)
+    );
+    result.annotations = shiftAnnotations(this.annotations, 0).concat(
+      shiftAnnotations(other.annotations, this.gates.length)
+    );
+    return result;
+  }
+
+  /**
+   * Returns a new circuit with the gates drawn in a range of columns of the diagram.
+   *
+   * @param start - The first column of the range.
+   * @param end - (Optional) The column after the last one of the range. Defaults to the end of the circuit.
+   * @returns The sliced circuit, with the same wires, registers and metadata,
+   * the groups whose gates are all in the range and the annotations of the gates kept.
+   *
+   * @throws {Error} Will throw an error if the range is not a pair of integers with 0 ≤ start ≤ end.
+   *
+   * @example
+   * ```typescript
+   * const circuit = new Circuit(2).h(0).cx(0, 1).measure(0, 0);
+   * circuit.slice(1, 2); // Just the CNOT
+   * ```
+   */
+  slice(start: number, end?: number): Circuit {
+    const layout = new Layout(this);
+    const last = end === undefined ? layout.numColumns : end;
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(last) ||
+      start < 0 ||
+      last < start
+    ) {
+      throw new Error(
+        "A column range must be a pair of integers with 0 ≤ start ≤ end."
+      );
+    }
+    const result = this.emptyCopy();
+    // The index of each kept gate in the sliced circuit.
+    const indices: number[] = [];
+    layout.placements.forEach(({ gate, index, column }) => {
+      if (column >= start && column < last) {
+        indices[index] = result.gates.length;
+        result.gates.push(copyGate(gate));
+      }
+    });
+    this.groups.forEach((group) => {
+      const kept: number[] = [];
+      for (let i = group.start; i < group.end; i++) {
+        if (indices[i] !== undefined) {
+          kept.push(indices[i]);
+        }
+      }
+      if (kept.length === group.end - group.start) {
+        result.groups.push({
+          ...group,
+          start: kept[0],
+          end: kept[0] + kept.length,
+        });
+      }
+    });
+    this.annotations.forEach((annotation) => {
+      if (indices[annotation.gate] !== undefined) {
+        result.annotations.push({
+          ...annotation,
+          gate: indices[annotation.gate],
+        });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Returns a copy of the circuit, with copies of its gates, groups, annotations, registers, wire labels and metadata.
+   *
+   * @returns The copy.
+   */
+  copy(): Circuit {
+    const result = this.emptyCopy();
+    result.gates = this.gates.map(copyGate);
+    result.groups = shiftGroups(this.groups, 0);
+    result.annotations = shiftAnnotations(this.annotations, 0);
+    return result;
+  }
+
+  /**
+   * Runs the circuit on the statevector simulator.
+   *
+   * @param options - (Optional) Simulation options, e.g. a seeded random source for measurements.
+   * @returns The final state of the qubits and the values of the classical bits.
+   *
+   * @example
+   * ```typescript
+   * const { state } = circuit.simulate();
+   * state.probabilities(); // e.g. [0.5, 0, 0, 0.5] for a Bell pair
+   * ```
+   */
+  simulate(options?: SimulationOptions): SimulationResult {
+    return simulate(this, options);
+  }
+
+  /**
+   * Serializes the circuit to the versioned JSON format. Also called by `JSON.stringify()`.
+   *
+   * @returns The JSON representation of the circuit.
+   *
+   * @throws {Error} Will throw an error if the circuit contains a gate that is not a built-in gate.
+   *
+   * @example
+   * ```typescript
+   * const text = JSON.stringify(circuit);
+   * ```
+   */
+  toJSON(): CircuitJSON {
+    return circuitToJSON(this);
+  }
+
+  /**
+   * Loads a circuit from the JSON format, migrating documents written by older versions.
+   *
+   * @param json - The JSON representation, or its text.
+   * @returns The loaded circuit.
+   *
+   * @throws {CircuitJSONError} Will throw an error describing the first invalid value and its path.
+   *
+   * @example
+   * ```typescript
+   * const copy = Circuit.fromJSON(JSON.stringify(circuit));
+   * ```
+   */
+  static fromJSON(json: string | object): Circuit {
+    return circuitFromJSON(json);
+  }
+
+  /**
+   * Creates a circuit with the same wires, registers and metadata, but no gates.
+   */
+  private emptyCopy(): Circuit {
+    const result = new Circuit(this.numQubits, this.numClbits);
+    result.quantumRegisters = this.quantumRegisters.map((r) => ({ ...r }));
+    result.classicalRegisters = this.classicalRegisters.map((r) => ({ ...r }));
+    result.metadata = { ...this.metadata };
+    result.qubitNames = { ...this.qubitNames };
+    result.initialStates = { ...this.initialStates };
+    result.outputLabels = { ...this.outputLabels };
+    return result;
+  }
+
+  /**
+   * Returns the gate at an index of `gates`.
+   */
+  private gateAt(index: number): IGate {
+    const gate = this.gates[index];
+    if (!gate) {
+      throw new Error(`There is no gate at index ${index}.`);
+    }
+    return gate;
+  }
+
+  /**
+   * Calls the listeners of an event.
+   */
+  private emit<K extends keyof CircuitEventMap>(
+    type: K,
+    payload: CircuitEventMap[K]
+  ): void {
+    const listeners = (this.listeners[type] || []) as CircuitListener<K>[];
+    listeners.slice().forEach((listener) => listener(payload));
+  }
+
+  /**
+   * Checks that a qubit index is in the circuit, and returns it.
+   */
+  private checkQubit(qubit: number): number {
+    if (!Number.isInteger(qubit) || qubit < 0 || qubit >= this.numQubits) {
+      throw new Error(
+        `Qubit index ${qubit} is out of range for ${this.numQubits} qubit(s).`
+      );
+    }
+    return qubit;
+  }
+
+  /**
+   * Appends a register to a list of registers after the last wire already assigned.
+   */
+  private declareRegister(
+    registers: Register[],
+    name: string,
+    size: number,
+    capacity: number,
+    unit: string
+  ): Register {
+    const allRegisters = this.quantumRegisters.concat(this.classicalRegisters);
+    if (allRegisters.some((register) => register.name === name)) {
+      throw new Error(`Register '${name}' is already declared.`);
+    }
+    const last = registers[registers.length - 1];
+    const start = last ? last.start + last.size : 0;
+    if (start + size > capacity) {
+      throw new Error(
+        `Register '${name}' needs ${size} ${unit} but only ${
+          capacity - start
+        } are unassigned.`
+      );
+    }
+
+    const register = { name, start, size };
+    registers.push(register);
+    this.notifyChange("registers");
+    return register;
+  }
+
+  /**
+   * Formats the label of a wire from the register that covers it.
+   */
+  private wireLabel(
+    registers: Register[],
+    index: number,
+    defaultName: string
+  ): string {
+    const register = registers.find(
+      (r) => index >= r.start && index < r.start + r.size
+    );
+    return register
+      ? `${register.name}[${index - register.start}]`
+      : `${defaultName}[${index}]`;
+  }
+}
+
+/**
+ * Checks a mapping from the wires of one circuit to the wires of another, defaulting to the identity.
+ */
+function wireMapping(
+  mapping: number[] | undefined,
+  from: number,
+  to: number,
+  unit: string
+): number[] {
+  const wires: number[] = [];
+  for (let i = 0; i < from; i++) {
+    wires.push(mapping ? mapping[i] : i);
+  }
+  if (mapping && mapping.length !== from) {
+    throw new Error(
+      `Expected a ${unit} for each of the ${from} ${unit}(s) of the appended circuit, but got ${mapping.length}.`
+    );
+  }
+  wires.forEach((wire, i) => {
+    if (!Number.isInteger(wire) || wire < 0 || wire >= to) {
+      throw new Error(
+        `Cannot map ${unit} ${i} to ${wire}: the circuit has ${to} ${unit}(s).`
+      );
+    }
+    if (wires.indexOf(wire) !== i) {
+      throw new Error(`Cannot map two ${unit}s to ${unit} ${wire}.`);
+    }
+  });
+  return wires;
+}
+
+/**
+ * Copies a gate of any class, keeping its wires.
+ */
+function copyGate(gate: IGate): IGate {
+  return remapGate(
+    gate,
+    (qubit) => qubit,
+    (clbit) => clbit
+  );
+}
+
+/**
+ * Copies a gate of any class onto other wires.
+ * The copy has the gate's class and fields, with its qubits, classical bits and condition mapped;
+ * for controlled gates the controls and the base gate are mapped too.
+ */
+function remapGate(
+  gate: IGate,
+  qubit: (index: number) => number,
+  clbit: (index: number) => number
+): IGate {
+  const copy: IGate = Object.assign(
+    Object.create(Object.getPrototypeOf(gate)),
+    gate
+  );
+  copy.qubits = gate.qubits.map(qubit);
+  if (gate.clbits) {
+    copy.clbits = gate.clbits.map(clbit);
+  }
+  if (gate.condition) {
+    copy.condition = {
+      clbits: gate.condition.clbits.map(clbit),
+      value: gate.condition.value,
+    };
+  }
+  if (gate instanceof ControlledGate && copy instanceof ControlledGate) {
+    copy.base = remapGate(gate.base, qubit, clbit);
+    copy.controls = gate.controls.map(qubit);
+    copy.openControls = gate.openControls.map(qubit);
+  }
+  return copy;
+}
+
+/**
+ * Copies groups of gates, moving them by a number of gates.
+ */
+function shiftGroups(groups: GateGroup[], offset: number): GateGroup[] {
+  return groups.map((group) => ({
+    ...group,
+    start: group.start + offset,
+    end: group.end + offset,
+  }));
+}
+
+/**
+ * Copies annotations, moving them by a number of gates.
+ */
+function shiftAnnotations(
+  annotations: Annotation[],
+  offset: number
+): Annotation[] {
+  return annotations.map((annotation) => ({
+    ...annotation,
+    gate: annotation.gate + offset,
+  }));
+}
+
+/**
+ * Returns the groups after inserting a gate at an index: a gate inserted strictly inside a group joins it.
+ */
+function insertIntoGroups(groups: GateGroup[], index: number): GateGroup[] {
+  return groups.map((group) => {
+    if (index <= group.start) {
+      return { ...group, start: group.start + 1, end: group.end + 1 };
+    }
+    return index < group.end ? { ...group, end: group.end + 1 } : group;
+  });
+}
+
+/**
+ * Returns the groups after removing the gate at an index, dropping groups left empty.
+ */
+function removeFromGroups(groups: GateGroup[], index: number): GateGroup[] {
+  return groups
+    .map((group) => {
+      if (index < group.start) {
+        return { ...group, start: group.start - 1, end: group.end - 1 };
+      }
+      return index < group.end ? { ...group, end: group.end - 1 } : group;
+    })
+    .filter((group) => group.start < group.end);
+}
+
+/**
+ * Returns the annotations after a gate is removed from an index, inserted at an index, or both when it is moved.
+ * The annotations of a removed gate are dropped; those of a moved gate follow it.
+ */
+function moveAnnotations(
+  annotations: Annotation[],
+  from: number | undefined,
+  to: number | undefined
+): Annotation[] {
+  return annotations
+    .filter((annotation) => annotation.gate !== from || to !== undefined)
+    .map((annotation) => {
+      if (annotation.gate === from) {
+        return { ...annotation, gate: to as number };
+      }
+      let gate = annotation.gate;
+      if (from !== undefined && gate > from) {
+        gate--;
+      }
+      if (to !== undefined && gate >= to) {
+        gate++;
+      }
+      return { ...annotation, gate };
+    });
+}
+
+/**
+ * Merges the labels of the qubits of two circuits stacked by `tensor()`, moving the second circuit's by an offset.
+ */
+function shiftLabels(
+  own: { [qubit: number]: string },
+  theirs: { [qubit: number]: string },
+  offset: number
+): { [qubit: number]: string } {
+  const labels = { ...own };
+  Object.keys(theirs).forEach(
+    (qubit) => (labels[Number(qubit) + offset] = theirs[Number(qubit)])
+  );
+  return labels;
+}
+
+/**
+ * Writes the index of a wire label such as "q[0]" as a subscript, e.g. "q₀".
+ */
+function subscriptLabel(label: string): string {
+  return label.replace(/\[(\d+)\]$/, (_, index: string) =>
+    index
+      .split("")
+      .map((digit) => "₀₁₂₃₄₅₆₇₈₉".charAt(Number(digit)))
+      .join("")
+  );
 }
@@ -0,0 +1,74 @@
+/**
+ * @file Complex.ts
+ * @description Defines the complex numbers and matrices used to describe the unitary action of gates.
+ */
+
+/**
+ * A complex number.
+ */
+export interface Complex {
+  /**
+   * The real part.
+   */
+  re: number;
+
+  /**
+   * The imaginary part.
+   */
+  im: number;
+}
+
+/**
+ * A square complex matrix, stored as an array of rows.
+ */
+export type Matrix = Complex[][];
+
+/**
+ * Creates a complex number.
+ *
+ * @param re - The real part.
+ * @param im - (Optional) The imaginary part. Defaults to 0.
+ * @returns The complex number `re + i·im`.
+ */
+export function complex(re: number, im = 0): Complex {
+  return { re, im };
+}
+
+/**
+ * Returns the complex number e^(iθ) on the unit circle.
+ *
+ * @param theta - The phase in radians.
+ * @returns The complex number `cos θ + i·sin θ`.
+ */
+export function expi(theta: number): Complex {
+  return { re: Math.cos(theta), im: Math.sin(theta) };
+}
+
+/**
+ * Creates an identity matrix.
+ *
+ * @param size - The number of rows and columns.
+ * @returns The identity matrix of the given size.
+ */
+export function identityMatrix(size: number): Matrix {
+  const matrix: Matrix = [];
+  for (let row = 0; row < size; row++) {
+    matrix.push([]);
+    for (let column = 0; column < size; column++) {
+      matrix[row].push(complex(row === column ? 1 : 0));
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Creates a diagonal matrix.
+ *
+ * @param entries - The entries of the diagonal, from top left to bottom right.
+ * @returns The matrix with the given diagonal and zeros elsewhere.
+ */
+export function diagonalMatrix(entries: Complex[]): Matrix {
+  const matrix = identityMatrix(entries.length);
+  entries.forEach((entry, i) => (matrix[i][i] = entry));
+  return matrix;
+}
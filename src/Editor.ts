@@ -0,0 +1,661 @@
+/**
+ * @file Editor.ts
+ * @description Defines the CircuitEditor class, an opt-in interactive mode for a Renderer.
+ */
+
+import { G } from "@svgdotjs/svg.js";
+import { Renderer } from "./Renderer";
+import { IGate } from "./gates/IGate";
+import { Circuit, GateGroup, Annotation } from "./Circuit";
+import { Layout } from "./Layout";
+
+/**
+ * Payload of the events about a single gate of the circuit.
+ */
+export interface GateEvent {
+  /**
+   * The gate.
+   */
+  gate: IGate;
+
+  /**
+   * The index of the gate in `circuit.gates`.
+   */
+  index: number;
+}
+
+/**
+ * Payload of the event emitted when a gate moves within the circuit.
+ */
+export interface GateMoveEvent extends GateEvent {
+  /**
+   * The index the gate had before the move.
+   */
+  from: number;
+}
+
+/**
+ * Payload of the pointer events on a gate.
+ */
+export interface GatePointerEvent extends GateEvent {
+  /**
+   * The DOM event that triggered the editor event.
+   */
+  event: Event;
+}
+
+/**
+ * Payload of the event emitted when a gate group is collapsed or expanded.
+ */
+export interface GroupToggleEvent {
+  /**
+   * The group.
+   */
+  group: GateGroup;
+
+  /**
+   * The index of the group in `circuit.groups`.
+   */
+  index: number;
+
+  /**
+   * Whether the group is now drawn collapsed.
+   */
+  collapsed: boolean;
+}
+
+/**
+ * The events emitted by a CircuitEditor, with their payloads.
+ */
+export interface EditorEventMap {
+  /**
+   * A gate was added to the circuit.
+   */
+  add: GateEvent;
+
+  /**
+   * A gate was moved to another position of the circuit.
+   */
+  move: GateMoveEvent;
+
+  /**
+   * A gate was removed from the circuit; `index` is the index it had.
+   */
+  remove: GateEvent;
+
+  /**
+   * A gate was clicked (pressed and released without being dragged to another column).
+   */
+  click: GatePointerEvent;
+
+  /**
+   * The pointer entered a gate.
+   */
+  hover: GatePointerEvent;
+
+  /**
+   * The pointer left a gate.
+   */
+  leave: GatePointerEvent;
+
+  /**
+   * A gate group was collapsed or expanded.
+   */
+  toggle: GroupToggleEvent;
+}
+
+/**
+ * A listener of a CircuitEditor event.
+ */
+export type EditorListener<K extends keyof EditorEventMap> = (
+  payload: EditorEventMap[K]
+) => void;
+
+/**
+ * A position on the diagram, as returned by `CircuitEditor.locate()`.
+ */
+export interface DiagramPosition {
+  /**
+   * The nearest column. A column equal to the number of columns is the free column after the last gate.
+   */
+  column: number;
+
+  /**
+   * The nearest qubit wire.
+   */
+  qubit: number;
+}
+
+/**
+ * A reversible edit of the circuit, recorded for undo and redo.
+ */
+interface Edit {
+  type: "add" | "remove" | "move";
+  gate: IGate;
+  from: number;
+  to: number;
+  groups: GateGroup[];
+  previousGroups: GateGroup[];
+  annotations: Annotation[];
+  previousAnnotations: Annotation[];
+}
+
+/**
+ * An opt-in interactive mode for a Renderer.
+ * The editor edits the circuit through its methods, so the renderer updates the diagram after every edit,
+ * and keeps `circuit.gates` in sync with the diagram:
+ * gates can be added at a column, dragged between columns with the pointer, and removed, and every edit
+ * can be undone and redone. Gate groups grow and shrink with the edits inside them, annotations follow their gates,
+ * and clicking a group's
+ * title or collapsed box collapses or expands it. It emits events for edits and for clicks and hovers on gates.
+ * Gates added to the circuit by other code are interactive too.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new Renderer(circuit, "circuit-container");
+ * const editor = new CircuitEditor(renderer);
+ *
+ * // Remove a gate when it is clicked.
+ * editor.on("click", ({ index }) => editor.removeGate(index));
+ *
+ * // Drop a Hadamard gate from a palette onto the wire under the pointer.
+ * svgElement.addEventListener("drop", (event) => {
+ *   const { column, qubit } = editor.locate(event.clientX, event.clientY);
+ *   editor.addGate(new HadamardGate(qubit), column);
+ * });
+ *
+ * editor.undo();
+ * ```
+ */
+export class CircuitEditor {
+  /**
+   * The renderer drawing the edited circuit.
+   */
+  renderer: Renderer;
+
+  /**
+   * The listeners of every event.
+   */
+  private listeners: {
+    [K in keyof EditorEventMap]?: EditorListener<K>[];
+  } = {};
+
+  /**
+   * The edits that can be undone, most recent last.
+   */
+  private undoStack: Edit[] = [];
+
+  /**
+   * The undone edits that can be redone, most recently undone last.
+   */
+  private redoStack: Edit[] = [];
+
+  /**
+   * Makes the elements the renderer draws after a change of the circuit interactive.
+   */
+  private readonly handleChange = (): void => this.attach();
+
+  /**
+   * Creates an editor for the circuit of a renderer, and redraws the circuit with interactive gates.
+   *
+   * @param renderer - The renderer to make interactive. Its canvas is cleared when the editor is created.
+   */
+  constructor(renderer: Renderer) {
+    this.renderer = renderer;
+    this.refresh();
+    // Listen after the renderer, which draws the elements to make interactive.
+    renderer.circuit
+      .on("add", this.handleChange)
+      .on("remove", this.handleChange)
+      .on("move", this.handleChange)
+      .on("update", this.handleChange)
+      .on("change", this.handleChange);
+  }
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @param type - The event type.
+   * @param listener - The function called with the event's payload.
+   * @returns The editor, for chaining.
+   */
+  on<K extends keyof EditorEventMap>(
+    type: K,
+    listener: EditorListener<K>
+  ): CircuitEditor {
+    const listeners = (this.listeners[type] || []) as EditorListener<K>[];
+    listeners.push(listener);
+    this.listeners[type] = listeners as CircuitEditor["listeners"][K];
+    return this;
+  }
+
+  /**
+   * Removes a listener registered with `on()`.
+   *
+   * @param type - The event type.
+   * @param listener - The listener to remove.
+   * @returns The editor, for chaining.
+   */
+  off<K extends keyof EditorEventMap>(
+    type: K,
+    listener: EditorListener<K>
+  ): CircuitEditor {
+    const listeners = (this.listeners[type] || []) as EditorListener<K>[];
+    this.listeners[type] = listeners.filter(
+      (l) => l !== listener
+    ) as CircuitEditor["listeners"][K];
+    return this;
+  }
+
+  /**
+   * Adds a gate to the circuit.
+   *
+   * @param gate - The gate to add.
+   * @param column - (Optional) The column to place the gate in. The gate is inserted after every gate in earlier
+   * columns, so it lands in that column unless its wires are free earlier. Defaults to the end of the circuit.
+   * @returns The index of the gate in `circuit.gates`.
+   *
+   * @throws {CircuitValidationError} Will throw an error if the gate is invalid for the circuit, as in `Circuit.addGate()`.
+   */
+  addGate(gate: IGate, column?: number): number {
+    const { circuit } = this.renderer;
+    const index =
+      column === undefined ? circuit.gates.length : this.insertionIndex(column);
+    this.perform("add", gate, index, index);
+    return index;
+  }
+
+  /**
+   * Moves a gate to another column.
+   *
+   * @param index - The index of the gate in `circuit.gates`.
+   * @param column - The column to move the gate to, as in `addGate()`.
+   * @returns The new index of the gate in `circuit.gates`.
+   *
+   * @throws {Error} Will throw an error if there is no gate at the index.
+   */
+  moveGate(index: number, column: number): number {
+    const gate = this.gateAt(index);
+    // The target index is counted among the other gates, laid out as if the gate were already removed.
+    const others = this.renderer.circuit.copy();
+    others.removeGate(index);
+    const to = this.insertionIndex(column, others);
+    if (to !== index) {
+      this.perform("move", gate, index, to);
+    }
+    return to;
+  }
+
+  /**
+   * Removes a gate from the circuit.
+   *
+   * @param index - The index of the gate in `circuit.gates`.
+   * @returns The removed gate.
+   *
+   * @throws {Error} Will throw an error if there is no gate at the index.
+   */
+  removeGate(index: number): IGate {
+    const gate = this.gateAt(index);
+    this.perform("remove", gate, index, index);
+    return gate;
+  }
+
+  /**
+   * Collapses an expanded gate group into a single box, or expands a collapsed one.
+   * The state is stored in the group's `collapsed` field, so it is saved with the circuit.
+   *
+   * @param index - The index of the group in `circuit.groups`.
+   * @returns Whether the group is now collapsed.
+   *
+   * @throws {Error} Will throw an error if there is no group at the index.
+   */
+  toggleGroup(index: number): boolean {
+    const group = this.renderer.circuit.groups[index];
+    if (!group) {
+      throw new Error(`There is no group at index ${index}.`);
+    }
+    const wasCollapsed =
+      group.collapsed === undefined
+        ? this.renderer.styles.groupDisplay === "collapsed"
+        : group.collapsed;
+    group.collapsed = !wasCollapsed;
+    this.renderer.circuit.notifyChange("groups");
+    this.emit("toggle", { group, index, collapsed: group.collapsed });
+    return group.collapsed;
+  }
+
+  /**
+   * Returns whether there is an edit to undo.
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Returns whether there is an undone edit to redo.
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Reverts the most recent edit, emitting the event of the reverting edit (e.g. `remove` when undoing an add).
+   *
+   * @returns `true` if an edit was undone.
+   */
+  undo(): boolean {
+    const edit = this.undoStack.pop();
+    if (!edit) {
+      return false;
+    }
+    this.apply(invert(edit));
+    this.redoStack.push(edit);
+    return true;
+  }
+
+  /**
+   * Applies the most recently undone edit again.
+   *
+   * @returns `true` if an edit was redone.
+   */
+  redo(): boolean {
+    const edit = this.redoStack.pop();
+    if (!edit) {
+      return false;
+    }
+    this.apply(edit);
+    this.undoStack.push(edit);
+    return true;
+  }
+
+  /**
+   * Finds the column and qubit wire nearest to a point of the screen, e.g. where a gate is dropped from a palette.
+   *
+   * @param clientX - The x-coordinate of the point in the viewport, as in `MouseEvent.clientX`.
+   * @param clientY - The y-coordinate of the point in the viewport, as in `MouseEvent.clientY`.
+   * @returns The nearest column and qubit.
+   */
+  locate(clientX: number, clientY: number): DiagramPosition {
+    const { x, y } = this.renderer.svg.point(clientX, clientY);
+    return this.locateDiagramPoint(x, y);
+  }
+
+  /**
+   * Redraws the circuit and makes its gates interactive.
+   * Call this after changing the renderer's styles; changes of the circuit are drawn without it.
+   */
+  refresh(): void {
+    this.renderer.draw();
+    this.attach();
+  }
+
+  /**
+   * Stops following the circuit's changes. The diagram stays as it is, with its gates still interactive.
+   */
+  dispose(): void {
+    this.renderer.circuit
+      .off("add", this.handleChange)
+      .off("remove", this.handleChange)
+      .off("move", this.handleChange)
+      .off("update", this.handleChange)
+      .off("change", this.handleChange);
+  }
+
+  /**
+   * Attaches the pointer handlers of the gates and groups drawn since the last call.
+   * Each group element remembers the group it shows, so a click toggles that group wherever it now is,
+   * and does nothing once the group is gone.
+   */
+  private attach(): void {
+    this.renderer.elements.forEach((group) => {
+      if (!group.remember("interactive")) {
+        group.remember("interactive", true);
+        this.makeInteractive(group);
+      }
+    });
+    const { groups } = this.renderer.circuit;
+    this.renderer.groupElements.forEach((element, index) => {
+      element.remember("group", groups[index]);
+      if (!element.remember("interactive")) {
+        element.remember("interactive", true);
+        element.css({ cursor: "pointer" });
+        element.on("click", () => {
+          const current = this.renderer.circuit.groups.indexOf(
+            element.remember("group")
+          );
+          if (current !== -1) {
+            this.toggleGroup(current);
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Applies an edit to the circuit, records it and forgets the undone edits, then emits the edit's event.
+   */
+  private perform(
+    type: Edit["type"],
+    gate: IGate,
+    from: number,
+    to: number
+  ): void {
+    const { circuit } = this.renderer;
+    const previousGroups = circuit.groups;
+    const previousAnnotations = circuit.annotations;
+    this.change(type, gate, from, to);
+    const edit: Edit = {
+      type,
+      gate,
+      from,
+      to,
+      groups: circuit.groups,
+      previousGroups,
+      annotations: circuit.annotations,
+      previousAnnotations,
+    };
+    this.undoStack.push(edit);
+    this.redoStack = [];
+    this.emitEdit(edit);
+  }
+
+  /**
+   * Applies a recorded edit to the circuit, restores the groups of gates and the annotations recorded with it,
+   * and emits the edit's event.
+   */
+  private apply(edit: Edit): void {
+    const { circuit } = this.renderer;
+    this.change(edit.type, edit.gate, edit.from, edit.to);
+    // Undoing a removal cannot bring back an emptied group or the gate's annotations by itself.
+    if (
+      JSON.stringify(circuit.groups) !== JSON.stringify(edit.groups) ||
+      JSON.stringify(circuit.annotations) !== JSON.stringify(edit.annotations)
+    ) {
+      circuit.groups = edit.groups.map((group) => ({ ...group }));
+      circuit.annotations = edit.annotations.map((annotation) => ({
+        ...annotation,
+      }));
+      circuit.notifyChange("groups");
+    }
+    this.emitEdit(edit);
+  }
+
+  /**
+   * Adds, removes or moves a gate of the circuit.
+   */
+  private change(
+    type: Edit["type"],
+    gate: IGate,
+    from: number,
+    to: number
+  ): void {
+    const { circuit } = this.renderer;
+    if (type === "add") {
+      circuit.insertGate(to, gate);
+    } else if (type === "remove") {
+      circuit.removeGate(from);
+    } else {
+      circuit.moveGate(from, to);
+    }
+  }
+
+  /**
+   * Emits the event of an edit.
+   */
+  private emitEdit(edit: Edit): void {
+    const { gate, from, to } = edit;
+    if (edit.type === "add") {
+      this.emit("add", { gate, index: to });
+    } else if (edit.type === "remove") {
+      this.emit("remove", { gate, index: from });
+    } else {
+      this.emit("move", { gate, index: to, from });
+    }
+  }
+
+  /**
+   * Calls the listeners of an event.
+   */
+  private emit<K extends keyof EditorEventMap>(
+    type: K,
+    payload: EditorEventMap[K]
+  ): void {
+    const listeners = (this.listeners[type] || []) as EditorListener<K>[];
+    listeners.slice().forEach((listener) => listener(payload));
+  }
+
+  /**
+   * Returns the gate at an index of the circuit.
+   */
+  private gateAt(index: number): IGate {
+    const gate = this.renderer.circuit.gates[index];
+    if (!gate) {
+      throw new Error(`There is no gate at index ${index}.`);
+    }
+    return gate;
+  }
+
+  /**
+   * Returns the index at which to insert a gate into a circuit (by default the edited one)
+   * so that it follows every gate in earlier columns.
+   */
+  private insertionIndex(
+    column: number,
+    circuit: Circuit = this.renderer.circuit
+  ): number {
+    const layout = new Layout(circuit, this.renderer.styles);
+    let index = 0;
+    layout.placements.forEach((placement) => {
+      if (placement.column < column) {
+        index = placement.index + 1;
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Finds the column and qubit wire nearest to a point in diagram coordinates.
+   */
+  private locateDiagramPoint(x: number, y: number): DiagramPosition {
+    const { gateSpacing, qubitSpacing } = this.renderer.styles;
+    const layout = this.renderer.layout();
+    // Find the segment under the point when the diagram is wrapped.
+    const segments = layout.segments;
+    let segment = segments[segments.length - 1];
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (y < segments[i].bottom) {
+        segment = segments[i];
+      }
+    }
+    const column =
+      segment.startColumn +
+      Math.round((x - layout.wireStart) / gateSpacing) -
+      1;
+    const qubit = Math.round((y - segment.top) / qubitSpacing) - 1;
+    return {
+      column: Math.max(0, Math.min(layout.numColumns, column)),
+      qubit: Math.max(0, Math.min(layout.numQubits - 1, qubit)),
+    };
+  }
+
+  /**
+   * Attaches the pointer handlers of a gate's group: hover and leave events, clicks,
+   * and dragging the gate horizontally to move it to another column.
+   * The gate's index is looked up on every event, as the group is kept when other gates are edited.
+   */
+  private makeInteractive(group: G): void {
+    const svg = this.renderer.svg;
+    const gateEvent = (event: Event): GatePointerEvent => {
+      const index = this.renderer.gateIndexOf(group);
+      return { gate: this.renderer.circuit.gates[index], index, event };
+    };
+    // Keep touch browsers from panning the page instead of dragging the gate.
+    group.css({ cursor: "grab", touchAction: "none" });
+
+    group.on("pointerenter", (event) => this.emit("hover", gateEvent(event)));
+    group.on("pointerleave", (event) => this.emit("leave", gateEvent(event)));
+    group.on("pointerdown", (event) => {
+      const start = event as PointerEvent;
+      if (!start.isPrimary || start.button !== 0) {
+        return;
+      }
+      const origin = svg.point(start.clientX, start.clientY);
+      const column = this.locateDiagramPoint(origin.x, origin.y).column;
+      start.preventDefault();
+      // Capture the pointer, so the gate gets the rest of the drag even when it is released outside the diagram.
+      group.node.setPointerCapture(start.pointerId);
+
+      const onMove = (moveEvent: Event) => {
+        const { pointerId, clientX, clientY } = moveEvent as PointerEvent;
+        if (pointerId !== start.pointerId) {
+          return;
+        }
+        const dx = svg.point(clientX, clientY).x - origin.x;
+        group.transform({ translateX: dx });
+      };
+      const onEnd = (endEvent: Event) => {
+        const { type, pointerId, clientX, clientY } = endEvent as PointerEvent;
+        if (pointerId !== start.pointerId) {
+          return;
+        }
+        group.off("pointermove", onMove);
+        group.off("pointerup", onEnd);
+        group.off("pointercancel", onEnd);
+        group.transform({});
+        if (type === "pointercancel") {
+          return;
+        }
+        const target = this.locate(clientX, clientY).column;
+        if (target === column) {
+          this.emit("click", gateEvent(endEvent));
+        } else {
+          this.moveGate(this.renderer.gateIndexOf(group), target);
+        }
+      };
+      group.on("pointermove", onMove);
+      group.on("pointerup", onEnd);
+      group.on("pointercancel", onEnd);
+    });
+  }
+}
+
+/**
+ * Returns the edit reverting another edit.
+ */
+function invert(edit: Edit): Edit {
+  const reverted = {
+    ...edit,
+    groups: edit.previousGroups,
+    previousGroups: edit.groups,
+    annotations: edit.previousAnnotations,
+    previousAnnotations: edit.annotations,
+  };
+  switch (edit.type) {
+    case "add":
+      return { ...reverted, type: "remove" };
+    case "remove":
+      return { ...reverted, type: "add" };
+    default:
+      return { ...reverted, from: edit.to, to: edit.from };
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * @file GateRegistry.ts
+ * @description Defines the GateRegistry class, which maps gate kinds to the routines that draw them.
+ */
+
+import { Container } from "@svgdotjs/svg.js";
+import { StyleConfig } from "./styles";
+import { GatePlacement } from "./Layout";
+import {
+  drawBoxGate,
+  drawRotationGate,
+  drawControlledGate,
+  drawSwapGate,
+  drawMultiQubitGate,
+  drawMeasureGate,
+  drawResetGate,
+  drawBarrier,
+} from "./drawers";
+
+/**
+ * The state a drawer needs to draw a gate.
+ */
+export interface DrawContext {
+  /**
+   * The container to draw on: the group holding the elements of the gate being drawn.
+   */
+  svg: Container;
+
+  /**
+   * The resolved styling configuration of the renderer.
+   */
+  styles: StyleConfig;
+
+  /**
+   * Draws another gate through the registry, e.g. the base gate of a controlled gate.
+   * @param placement - The placement of the gate to draw.
+   */
+  drawGate(placement: GatePlacement): void;
+}
+
+/**
+ * A routine drawing one gate at its placement on the canvas.
+ */
+export type GateDrawer = (
+  context: DrawContext,
+  placement: GatePlacement
+) => void;
+
+/**
+ * Maps gate kinds to the drawers used to render them.
+ * The renderer looks up the drawer of every gate by its `kind`; gates whose kind has no registered drawer,
+ * or which do not declare a kind, are drawn as labelled boxes.
+ *
+ * @example
+ * ```typescript
+ * // Draw every "oracle" gate as a black box.
+ * const registry = defaultGateRegistry.clone();
+ * registry.register("oracle", (context, placement) => {
+ *   const { gateWidth, gateHeight } = context.styles;
+ *   placement.ys.forEach((y) => {
+ *     context.svg
+ *       .rect(gateWidth, gateHeight)
+ *       .move(placement.x - gateWidth / 2, y - gateHeight / 2)
+ *       .fill("#000");
+ *   });
+ * });
+ *
+ * const renderer = new Renderer(circuit, "circuit-container");
+ * renderer.registry = registry;
+ * renderer.draw();
+ * ```
+ */
+export class GateRegistry {
+  /**
+   * The registered drawers, keyed by gate kind.
+   */
+  private drawers: { [kind: string]: GateDrawer } = {};
+
+  /**
+   * Registers the drawer for a gate kind, replacing any drawer already registered for it.
+   *
+   * @param kind - The gate kind, matching the `kind` property of the gates to draw.
+   * @param drawer - The routine drawing gates of this kind.
+   * @returns The registry, for chaining.
+   *
+   * @throws {Error} Will throw an error if the kind is empty.
+   */
+  register(kind: string, drawer: GateDrawer): GateRegistry {
+    if (!kind) {
+      throw new Error("Gate kind must be a non-empty string.");
+    }
+    this.drawers[kind] = drawer;
+    return this;
+  }
+
+  /**
+   * Removes the drawer registered for a gate kind.
+   * Gates of this kind are then drawn as labelled boxes.
+   *
+   * @param kind - The gate kind.
+   * @returns `true` if a drawer was removed.
+   */
+  unregister(kind: string): boolean {
+    if (!this.has(kind)) {
+      return false;
+    }
+    delete this.drawers[kind];
+    return true;
+  }
+
+  /**
+   * Returns whether a drawer is registered for a gate kind.
+   *
+   * @param kind - The gate kind.
+   */
+  has(kind: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.drawers, kind);
+  }
+
+  /**
+   * Returns the drawer registered for a gate kind.
+   *
+   * @param kind - The gate kind, or `undefined` for gates that do not declare one.
+   * @returns The registered drawer, or `undefined` if there is none.
+   */
+  get(kind: string | undefined): GateDrawer | undefined {
+    return kind !== undefined && this.has(kind)
+      ? this.drawers[kind]
+      : undefined;
+  }
+
+  /**
+   * Returns the registered gate kinds.
+   */
+  kinds(): string[] {
+    return Object.keys(this.drawers);
+  }
+
+  /**
+   * Creates a copy of the registry, so that drawers can be customized without affecting the original.
+   *
+   * @returns A new registry with the same drawers.
+   */
+  clone(): GateRegistry {
+    const copy = new GateRegistry();
+    this.kinds().forEach((kind) => copy.register(kind, this.drawers[kind]));
+    return copy;
+  }
+}
+
+/**
+ * The registry used by renderers by default, holding the drawers of all built-in gate kinds.
+ * Registering a drawer here affects every renderer that has not been given its own registry.
+ */
+export const defaultGateRegistry = new GateRegistry()
+  .register("h", drawBoxGate)
+  .register("x", drawBoxGate)
+  .register("y", drawBoxGate)
+  .register("z", drawBoxGate)
+  .register("id", drawBoxGate)
+  .register("s", drawBoxGate)
+  .register("t", drawBoxGate)
+  .register("sx", drawBoxGate)
+  .register("p", drawBoxGate)
+  .register("u", drawBoxGate)
+  .register("rotation", drawRotationGate)
+  .register("controlled", drawControlledGate)
+  .register("cnot", drawControlledGate)
+  .register("swap", drawSwapGate)
+  .register("iswap", drawSwapGate)
+  .register("block", drawMultiQubitGate)
+  .register("measure", drawMeasureGate)
+  .register("reset", drawResetGate)
+  .register("barrier", drawBarrier);
@@ -0,0 +1,1086 @@
+/**
+ * @file Layout.ts
+ * @description Computes the column layout of a quantum circuit, packing gates that act on disjoint qubits into shared time steps.
+ */
+
+import { Circuit, GateGroup, Annotation, Register } from "./Circuit";
+import { IGate } from "./gates/IGate";
+import { MultiQubitGate } from "./gates/MultiQubitGate";
+import { StyleConfig, DefaultStyleConfig } from "./styles";
+
+/**
+ * Describes where a single gate of the circuit is placed in the diagram.
+ */
+export interface GatePlacement {
+  /**
+   * The gate being placed.
+   */
+  gate: IGate;
+
+  /**
+   * The index of the gate in `Circuit.gates`.
+   */
+  index: number;
+
+  /**
+   * The zero-based column (time step) the gate is assigned to.
+   */
+  column: number;
+
+  /**
+   * The x-coordinate of the center of the gate's column.
+   */
+  x: number;
+
+  /**
+   * The y-coordinates of the wires the gate acts on, in the same order as `gate.qubits`.
+   */
+  ys: number[];
+
+  /**
+   * The y-coordinates of the classical wires the gate writes to, in the same order as `gate.clbits`.
+   */
+  clbitYs: number[];
+
+  /**
+   * The y-coordinates of the classical wires the gate's condition reads, in the same order as `gate.condition.clbits`.
+   */
+  conditionYs: number[];
+
+  /**
+   * The lowest qubit index the gate acts on.
+   */
+  minQubit: number;
+
+  /**
+   * The highest qubit index the gate acts on.
+   */
+  maxQubit: number;
+
+  /**
+   * The first row (wire) reserved by the gate. Rows number the qubit wires first, then the classical wires.
+   */
+  minRow: number;
+
+  /**
+   * The last row (wire) reserved by the gate.
+   * Every wire between `minRow` and `maxRow` is reserved in the gate's column,
+   * including the classical wires reached by measurements and conditions.
+   */
+  maxRow: number;
+}
+
+/**
+ * Describes where a group of gates is drawn in the diagram.
+ */
+export interface GroupPlacement {
+  /**
+   * The group being placed.
+   */
+  group: GateGroup;
+
+  /**
+   * The index of the group in `Circuit.groups`.
+   */
+  index: number;
+
+  /**
+   * Whether the group is drawn collapsed into a single box.
+   */
+  collapsed: boolean;
+
+  /**
+   * The first column spanned by the group.
+   */
+  startColumn: number;
+
+  /**
+   * The last column spanned by the group; equal to `startColumn` for collapsed groups.
+   */
+  endColumn: number;
+
+  /**
+   * The first row (wire) spanned by the group's gates.
+   */
+  minRow: number;
+
+  /**
+   * The last row (wire) spanned by the group's gates.
+   */
+  maxRow: number;
+
+  /**
+   * The qubits the group's gates act on, in increasing order.
+   */
+  qubits: number[];
+
+  /**
+   * The x-coordinate of the left side of the group's frame (its first frame when the group is wrapped).
+   */
+  left: number;
+
+  /**
+   * The x-coordinate of the right side of the group's frame (its first frame when the group is wrapped).
+   */
+  right: number;
+
+  /**
+   * The y-coordinate of the top of the group's frame (its first frame when the group is wrapped).
+   */
+  top: number;
+
+  /**
+   * The y-coordinate of the bottom of the group's frame (its first frame when the group is wrapped).
+   */
+  bottom: number;
+
+  /**
+   * The frame of the group in each segment it spans: a single frame unless the diagram is wrapped
+   * in the middle of the group.
+   */
+  frames: GroupFrame[];
+
+  /**
+   * For collapsed groups, the placement of the box drawn instead of the group's gates:
+   * a `MultiQubitGate` named after the group over its qubits, with the index of the group's first gate.
+   */
+  block?: GatePlacement;
+}
+
+/**
+ * The part of a group's frame drawn in one segment of a wrapped diagram.
+ */
+export interface GroupFrame {
+  /**
+   * The index of the segment.
+   */
+  segment: number;
+
+  /**
+   * The x-coordinate of the left side of the frame.
+   */
+  left: number;
+
+  /**
+   * The x-coordinate of the right side of the frame.
+   */
+  right: number;
+
+  /**
+   * The y-coordinate of the top of the frame.
+   */
+  top: number;
+
+  /**
+   * The y-coordinate of the bottom of the frame.
+   */
+  bottom: number;
+}
+
+/**
+ * Describes one row of a wrapped diagram: a run of consecutive columns drawn on their own copy of the wires,
+ * below the previous segment. Diagrams that are not wrapped have a single segment.
+ */
+export interface SegmentPlacement {
+  /**
+   * The index of the segment, from the top.
+   */
+  index: number;
+
+  /**
+   * The first column drawn in the segment.
+   */
+  startColumn: number;
+
+  /**
+   * The column after the last column drawn in the segment.
+   */
+  endColumn: number;
+
+  /**
+   * The y-coordinate of the top of the segment.
+   */
+  top: number;
+
+  /**
+   * The y-coordinate of the bottom of the segment.
+   */
+  bottom: number;
+
+  /**
+   * The x-coordinate where the segment's wires end.
+   */
+  wireEnd: number;
+}
+
+/**
+ * Describes where an annotation is written in the diagram.
+ */
+export interface AnnotationPlacement {
+  /**
+   * The annotation being placed.
+   */
+  annotation: Annotation;
+
+  /**
+   * The index of the annotation in `Circuit.annotations`.
+   */
+  index: number;
+
+  /**
+   * The column of the annotated gate.
+   */
+  column: number;
+
+  /**
+   * The x-coordinate of the center of the text.
+   */
+  x: number;
+
+  /**
+   * The y-coordinate of the middle of the text: just above the gate for gate notes,
+   * in the margin below the last wire for column notes.
+   */
+  y: number;
+}
+
+/**
+ * Describes where the label of a wire is written in the margins of the diagram.
+ */
+export interface WireLabelPlacement {
+  /**
+   * The row of the labelled wire: qubits first, then classical bits.
+   */
+  row: number;
+
+  /**
+   * The segment the label is written in; labels are repeated at the start of every segment.
+   */
+  segment: number;
+
+  /**
+   * The text of the label.
+   */
+  text: string;
+
+  /**
+   * The x-coordinate of the end of the text in the left margin, or of its start in the right margin.
+   */
+  x: number;
+
+  /**
+   * The y-coordinate of the wire.
+   */
+  y: number;
+}
+
+/**
+ * Describes where the bracket and the name of a register are drawn in the left margin.
+ */
+export interface BracketPlacement {
+  /**
+   * The register being marked.
+   */
+  register: Register;
+
+  /**
+   * Whether the register holds classical bits.
+   */
+  classical: boolean;
+
+  /**
+   * The segment the bracket is drawn in; brackets are repeated at the start of every segment.
+   */
+  segment: number;
+
+  /**
+   * The x-coordinate of the vertical line of the bracket.
+   */
+  x: number;
+
+  /**
+   * The y-coordinate of the top end of the bracket.
+   */
+  top: number;
+
+  /**
+   * The y-coordinate of the bottom end of the bracket.
+   */
+  bottom: number;
+
+  /**
+   * The x-coordinate of the end of the register's name, written left of the bracket and centered on it.
+   */
+  labelX: number;
+}
+
+/**
+ * Computes the moments (columns) of a circuit and the positions of its gates.
+ * Gates are placed in the earliest column in which every wire they span is free,
+ * so parallel gates share a column and nothing is drawn through a multi-qubit gate,
+ * a measurement or a classical condition.
+ * The gates of a group only share columns with each other on the wires the group spans,
+ * so its frame encloses nothing else; a collapsed group takes a single column.
+ * The wires start after a left margin sized to fit the wire labels and register brackets,
+ * and end before a right margin sized to fit the output labels.
+ * When the `wrapWidth` or `wrapColumns` style limits the width, the columns are split into segments
+ * stacked vertically, each starting with the wire labels.
+ *
+ * @example
+ * ```typescript
+ * const layout = new Layout(circuit, DefaultStyleConfig);
+ * layout.placements.forEach((p) => console.log(p.gate.name, p.column, p.x));
+ * ```
+ */
+export class Layout {
+  /**
+   * The placement of every gate, in the same order as `Circuit.gates`.
+   */
+  placements: GatePlacement[] = [];
+
+  /**
+   * The gate indices grouped by column.
+   * `columns[c]` lists the indices (into `Circuit.gates`) of the gates drawn in column `c`.
+   */
+  columns: number[][] = [];
+
+  /**
+   * The placement of every group of gates, in the same order as `Circuit.groups`.
+   */
+  groups: GroupPlacement[] = [];
+
+  /**
+   * The placement of every annotation whose gate exists, in the same order as `Circuit.annotations`.
+   */
+  annotations: AnnotationPlacement[] = [];
+
+  /**
+   * The number of qubit wires in the laid out circuit.
+   */
+  numQubits: number;
+
+  /**
+   * The number of classical wires in the laid out circuit, drawn below the qubit wires.
+   */
+  numClbits: number;
+
+  /**
+   * The segments (rows) of the diagram, from the top; a single segment unless the diagram is wrapped.
+   */
+  segments: SegmentPlacement[] = [];
+
+  /**
+   * The largest number of columns in a segment; `Infinity` when the diagram is not wrapped.
+   */
+  columnsPerSegment: number;
+
+  /**
+   * The labels written before the wires of every segment, in segment and row order;
+   * empty when the `qubitLabels` style is "none".
+   */
+  labels: WireLabelPlacement[] = [];
+
+  /**
+   * The output labels written after the qubit wires of the last segment, in qubit order.
+   */
+  outputLabels: WireLabelPlacement[] = [];
+
+  /**
+   * The brackets marking the registers in the left margin of every segment.
+   */
+  brackets: BracketPlacement[] = [];
+
+  /**
+   * The x-coordinate where the wires start, after the left margin.
+   */
+  wireStart = 0;
+
+  /**
+   * The x-coordinate where the wires of the first (longest) segment end.
+   */
+  wireEnd = 0;
+
+  /**
+   * The length of the qubit wires of the first (longest) segment in pixels.
+   */
+  wireLength = 0;
+
+  /**
+   * The total width of the diagram in pixels.
+   */
+  width = 0;
+
+  /**
+   * The total height of the diagram in pixels.
+   */
+  height = 0;
+
+  /**
+   * The styling configuration the positions were computed with.
+   */
+  private styles: StyleConfig;
+
+  /**
+   * The width of the right margin, after the wires of the last segment.
+   */
+  private rightMargin = 0;
+
+  /**
+   * The wire labels and register brackets of the first segment, repeated at the start of the others.
+   */
+  private marginLabels: WireLabelPlacement[] = [];
+  private marginBrackets: BracketPlacement[] = [];
+
+  /**
+   * The first column in which each row is still free after the last gate placed.
+   */
+  private nextFree: number[] = [];
+
+  /**
+   * The rows reserved while placing each gate, indexed like `Circuit.gates`:
+   * pairs of a row and the column it was free from before, so that `update()` can undo the placements.
+   */
+  private reserved: number[][] = [];
+
+  /**
+   * The collapsed group hiding each gate, indexed like `Circuit.gates`.
+   */
+  private collapsedGroups: GroupPlacement[] = [];
+
+  /**
+   * Creates a new Layout for the given circuit.
+   *
+   * @param circuit - The circuit to lay out.
+   * @param styles - (Optional) Custom styles; spacing values, font sizes, `groupDisplay`, the label styles
+   * and the wrapping styles affect the layout.
+   */
+  constructor(circuit: Circuit, styles?: Partial<StyleConfig>) {
+    this.styles = { ...DefaultStyleConfig, ...styles };
+    this.numQubits = circuit.numQubits;
+    this.numClbits = circuit.numClbits;
+    this.placeLeftMargin(circuit);
+
+    // Measure the output labels, which widen the right margin.
+    const { gateSpacing, labelFontSize, wrapWidth, wrapColumns } = this.styles;
+    const outputWidth = this.outputs(circuit).reduce(
+      (max, qubit) =>
+        Math.max(max, textWidth(circuit.outputLabels[qubit], labelFontSize)),
+      0
+    );
+    this.rightMargin =
+      outputWidth > 0
+        ? Math.max(gateSpacing, outputWidth + labelFontSize)
+        : gateSpacing;
+
+    // Fit as many columns in a segment as the wrapping styles allow, and at least one.
+    this.columnsPerSegment = Math.max(
+      1,
+      Math.min(
+        Math.floor(wrapColumns),
+        Math.floor(
+          (wrapWidth - this.wireStart - this.rightMargin) / gateSpacing
+        ) - 1
+      )
+    );
+
+    this.placeGates(circuit, 0);
+    this.placeAnnotations(circuit);
+    this.placeSegments(circuit, 0);
+  }
+
+  /**
+   * Lays the circuit out again after its gates changed from an index on, e.g. after a gate was inserted, removed,
+   * moved or replaced there. The gates before the index keep their placements and only the following ones are placed
+   * again, from the start of the group the index falls in if any, so the cost of an update grows with the number of
+   * gates after the change rather than with the size of the circuit. The segments before the last one are kept too.
+   * The circuit must have the wires, labels and registers it was laid out with, and the gates and groups before the
+   * index must be unchanged; create a new Layout after other changes.
+   *
+   * @param circuit - The changed circuit.
+   * @param from - The index of the first changed gate in `Circuit.gates`.
+   * @returns The index of the first gate placed again: `from`, or the start of the group it falls in.
+   *
+   * @example
+   * ```typescript
+   * circuit.insertGate(5, new HadamardGate(0));
+   * layout.update(circuit, 5); // places the gates from index 5 on again
+   * ```
+   */
+  update(circuit: Circuit, from: number): number {
+    let start = Math.max(
+      0,
+      Math.min(from, this.placements.length, circuit.gates.length)
+    );
+    // Groups are laid out as a whole, so start again from the first gate of a group the change falls in.
+    const groups = this.groups
+      .map((placement) => placement.group)
+      .concat(circuit.groups);
+    for (let inside = true; inside; ) {
+      inside = false;
+      groups.forEach((group) => {
+        if (group.start < start && start < group.end) {
+          start = group.start;
+          inside = true;
+        }
+      });
+    }
+    let kept = this.groups.filter(({ group }) => group.end <= start);
+    if (kept.some(({ group, index }) => circuit.groups[index] !== group)) {
+      start = 0;
+      kept = [];
+    }
+
+    // Undo the reservations of the gates placed again, last one first, and take them out of their columns.
+    for (let index = this.placements.length - 1; index >= start; index--) {
+      const reserved = this.reserved[index];
+      for (let i = reserved.length - 2; i >= 0; i -= 2) {
+        this.nextFree[reserved[i]] = reserved[i + 1];
+      }
+      this.columns[this.placements[index].column].pop();
+    }
+    while (
+      this.columns.length > 0 &&
+      this.columns[this.columns.length - 1].length === 0
+    ) {
+      this.columns.pop();
+    }
+    this.placements.length = start;
+    this.reserved.length = start;
+    this.collapsedGroups.length = Math.min(this.collapsedGroups.length, start);
+    this.groups = kept;
+
+    const lastSegment = Math.max(this.segments.length - 1, 0);
+    this.placeGates(circuit, start);
+    this.placeAnnotations(circuit);
+    this.placeSegments(circuit, lastSegment);
+    return start;
+  }
+
+  /**
+   * The number of columns (time steps) in the layout.
+   */
+  get numColumns(): number {
+    return this.columns.length;
+  }
+
+  /**
+   * Returns the placements drawn in a column: its gates, with the gates of a collapsed group
+   * replaced by the group's box.
+   *
+   * @param column - The zero-based column index.
+   */
+  drawnPlacements(column: number): GatePlacement[] {
+    const drawn: GatePlacement[] = [];
+    (this.columns[column] || []).forEach((index) => {
+      const group = this.collapsedGroups[index];
+      if (!group) {
+        drawn.push(this.placements[index]);
+      } else if (group.block && index === group.group.start) {
+        drawn.push(group.block);
+      }
+    });
+    return drawn;
+  }
+
+  /**
+   * Returns the segment a column is drawn in.
+   *
+   * @param column - The zero-based column index.
+   */
+  segmentOf(column: number): number {
+    return this.columnsPerSegment === Infinity
+      ? 0
+      : Math.floor(column / this.columnsPerSegment);
+  }
+
+  /**
+   * Returns the x-coordinate of the center of a column, within its segment.
+   *
+   * @param column - The zero-based column index.
+   */
+  columnX(column: number): number {
+    const start = this.firstColumn(this.segmentOf(column));
+    return this.wireStart + this.styles.gateSpacing * (column - start + 1);
+  }
+
+  /**
+   * Returns the y-coordinate of a qubit wire.
+   *
+   * @param qubit - The qubit index.
+   * @param segment - (Optional) The segment of the wire. Defaults to the first one.
+   */
+  qubitY(qubit: number, segment = 0): number {
+    const { qubitSpacing } = this.styles;
+    const segmentHeight = qubitSpacing * (this.numQubits + this.numClbits + 1);
+    return segment * segmentHeight + qubitSpacing * (qubit + 1);
+  }
+
+  /**
+   * Returns the y-coordinate of a classical wire.
+   * Classical wires are placed below the last qubit wire.
+   *
+   * @param clbit - The classical bit index.
+   * @param segment - (Optional) The segment of the wire. Defaults to the first one.
+   */
+  clbitY(clbit: number, segment = 0): number {
+    return this.qubitY(this.numQubits + clbit, segment);
+  }
+
+  /**
+   * Returns the column a gate was assigned to.
+   *
+   * @param gateIndex - The index of the gate in `Circuit.gates`.
+   */
+  columnOf(gateIndex: number): number {
+    return this.placements[gateIndex].column;
+  }
+
+  /**
+   * Places the gates from an index on, each in the earliest column free on the rows it spans,
+   * and lays out the groups starting there.
+   */
+  private placeGates(circuit: Circuit, start: number): void {
+    // The group starting at each gate index, and the group being laid out.
+    const groupStarts: number[] = [];
+    circuit.groups.forEach((group, i) => (groupStarts[group.start] = i));
+    let current: GroupPlacement | undefined;
+
+    for (let index = start; index < circuit.gates.length; index++) {
+      const gate = circuit.gates[index];
+      this.reserved[index] = [];
+      if (!current && groupStarts[index] !== undefined) {
+        current = this.openGroup(circuit, groupStarts[index]);
+        if (!current.collapsed) {
+          // Keep earlier gates out of the group's frame.
+          this.reserve(
+            index,
+            current.minRow,
+            current.maxRow,
+            current.startColumn
+          );
+        }
+      }
+
+      const rows = this.rowsOf(gate);
+      const minRow = Math.min(...rows);
+      const maxRow = Math.max(...rows);
+      const column =
+        current && current.collapsed
+          ? current.startColumn
+          : this.firstFree(minRow, maxRow);
+      this.reserve(index, minRow, maxRow, column + 1);
+      this.place(gate, index, column, minRow, maxRow);
+
+      const last = Math.min(
+        current ? current.group.end : 0,
+        circuit.gates.length
+      );
+      if (current && index === last - 1) {
+        this.closeGroup(current);
+        // Keep later gates out of the group's frame.
+        this.reserve(
+          index,
+          current.minRow,
+          current.maxRow,
+          current.endColumn + 1
+        );
+        current = undefined;
+      }
+    }
+  }
+
+  /**
+   * Returns the first column free on every row from `minRow` to `maxRow`.
+   */
+  private firstFree(minRow: number, maxRow: number): number {
+    let column = 0;
+    for (let row = minRow; row <= maxRow; row++) {
+      column = Math.max(column, this.nextFree[row] || 0);
+    }
+    return column;
+  }
+
+  /**
+   * Reserves the rows from `minRow` to `maxRow` up to a column while placing a gate, recording what it undoes.
+   */
+  private reserve(
+    index: number,
+    minRow: number,
+    maxRow: number,
+    column: number
+  ): void {
+    const reserved = this.reserved[index];
+    for (let row = minRow; row <= maxRow; row++) {
+      reserved.push(row, this.nextFree[row] || 0);
+      this.nextFree[row] = column;
+    }
+  }
+
+  /**
+   * Places the annotations whose gate exists.
+   */
+  private placeAnnotations(circuit: Circuit): void {
+    this.annotations = [];
+    circuit.annotations.forEach((annotation, index) => {
+      const placement = this.placements[annotation.gate];
+      if (placement) {
+        this.annotations.push(
+          this.placeAnnotation(annotation, index, placement)
+        );
+      }
+    });
+  }
+
+  /**
+   * Splits the columns into segments from a segment on, repeating the left margin at the start of each,
+   * then writes the output labels after the last one and sizes the diagram.
+   */
+  private placeSegments(circuit: Circuit, first: number): void {
+    const { gateSpacing, qubitSpacing, labelFontSize } = this.styles;
+    const numSegments =
+      this.segmentOf(Math.max(this.columns.length - 1, 0)) + 1;
+    const segmentHeight = qubitSpacing * (this.numQubits + this.numClbits + 1);
+    const from = Math.min(first, numSegments - 1);
+    this.segments.length = from;
+    this.labels.length = from * this.marginLabels.length;
+    this.brackets.length = from * this.marginBrackets.length;
+    for (let segment = from; segment < numSegments; segment++) {
+      const startColumn = this.firstColumn(segment);
+      const endColumn = Math.min(
+        this.columns.length,
+        this.firstColumn(segment + 1)
+      );
+      const top = segment * segmentHeight;
+      this.segments.push({
+        index: segment,
+        startColumn,
+        endColumn,
+        top,
+        bottom: top + segmentHeight,
+        wireEnd: this.wireStart + gateSpacing * (endColumn - startColumn + 1),
+      });
+      this.marginLabels.forEach((label) =>
+        this.labels.push(
+          segment === 0 ? label : { ...label, segment, y: label.y + top }
+        )
+      );
+      this.marginBrackets.forEach((bracket) =>
+        this.brackets.push(
+          segment === 0
+            ? bracket
+            : {
+                ...bracket,
+                segment,
+                top: bracket.top + top,
+                bottom: bracket.bottom + top,
+              }
+        )
+      );
+    }
+
+    // Write the output labels after the end of the wires of the last segment.
+    const last = this.segments[numSegments - 1];
+    this.outputLabels = this.outputs(circuit).map((qubit) => ({
+      row: qubit,
+      segment: last.index,
+      text: circuit.outputLabels[qubit],
+      x: last.wireEnd + labelFontSize / 2,
+      y: this.qubitY(qubit, last.index),
+    }));
+
+    this.wireEnd = this.segments[0].wireEnd;
+    this.wireLength = this.wireEnd - this.wireStart;
+    this.width = this.wireEnd + this.rightMargin;
+    this.height = segmentHeight * numSegments;
+  }
+
+  /**
+   * Returns the qubits with an output label, in increasing order.
+   */
+  private outputs(circuit: Circuit): number[] {
+    return Object.keys(circuit.outputLabels)
+      .map(Number)
+      .filter((qubit) => qubit < this.numQubits);
+  }
+
+  /**
+   * Places the wire labels and the register brackets, and starts the wires after them.
+   * From left to right, the margin holds the register names, their brackets and the wire labels.
+   */
+  private placeLeftMargin(circuit: Circuit): void {
+    const { qubitLabels, labelFontSize, registerBrackets, qubitSpacing } =
+      this.styles;
+    const padding = labelFontSize / 2;
+
+    const texts: string[] = [];
+    if (qubitLabels !== "none") {
+      for (let i = 0; i < this.numQubits; i++) {
+        const name = circuit.qubitName(i);
+        const initial = circuit.initialStates[i];
+        const state = `|${initial !== undefined ? initial : "0"}⟩`;
+        texts.push(
+          qubitLabels === "name"
+            ? name
+            : qubitLabels === "state"
+            ? state
+            : `${name} ${state}`
+        );
+      }
+      for (let i = 0; i < this.numClbits; i++) {
+        texts.push(circuit.clbitName(i));
+      }
+    }
+
+    const registers = registerBrackets
+      ? splitRegisters(circuit.quantumRegisters, this.numQubits, false).concat(
+          splitRegisters(circuit.classicalRegisters, this.numClbits, true)
+        )
+      : [];
+    let x = 0;
+    if (registers.length > 0) {
+      const labelX =
+        padding +
+        registers.reduce(
+          (max, { register }) =>
+            Math.max(max, textWidth(register.name, labelFontSize)),
+          0
+        );
+      const bracketX = labelX + padding / 2;
+      registers.forEach(({ register, classical }) => {
+        const first = (classical ? this.numQubits : 0) + register.start;
+        const last = first + register.size - 1;
+        this.marginBrackets.push({
+          register,
+          classical,
+          segment: 0,
+          x: bracketX,
+          top: this.qubitY(first) - qubitSpacing / 2 + 4,
+          bottom: this.qubitY(last) + qubitSpacing / 2 - 4,
+          labelX,
+        });
+      });
+      // Leave room for the ticks of the brackets.
+      x = bracketX + padding / 2;
+    }
+
+    if (texts.length > 0) {
+      const labelX =
+        x +
+        padding +
+        texts.reduce(
+          (max, text) => Math.max(max, textWidth(text, labelFontSize)),
+          0
+        );
+      texts.forEach((text, row) =>
+        this.marginLabels.push({
+          row,
+          segment: 0,
+          text,
+          x: labelX,
+          y: this.qubitY(row),
+        })
+      );
+      x = labelX;
+    }
+    this.wireStart = x > 0 ? x + padding : 0;
+  }
+
+  /**
+   * Returns the first column of a segment.
+   */
+  private firstColumn(segment: number): number {
+    return segment === 0 ? 0 : segment * this.columnsPerSegment;
+  }
+
+  /**
+   * Returns the rows a gate reserves: its qubits, then the classical wires it writes to or its condition reads.
+   */
+  private rowsOf(gate: IGate): number[] {
+    const clbits = (gate.clbits || []).concat(
+      gate.condition ? gate.condition.clbits : []
+    );
+    return gate.qubits.concat(clbits.map((clbit) => this.numQubits + clbit));
+  }
+
+  /**
+   * Records the placement of a gate in a column.
+   */
+  private place(
+    gate: IGate,
+    index: number,
+    column: number,
+    minRow: number,
+    maxRow: number
+  ): GatePlacement {
+    if (!this.columns[column]) {
+      this.columns[column] = [];
+    }
+    this.columns[column].push(index);
+
+    const segment = this.segmentOf(column);
+    const placement: GatePlacement = {
+      gate,
+      index,
+      column,
+      x: this.columnX(column),
+      ys: gate.qubits.map((qubit) => this.qubitY(qubit, segment)),
+      clbitYs: (gate.clbits || []).map((clbit) => this.clbitY(clbit, segment)),
+      conditionYs: gate.condition
+        ? gate.condition.clbits.map((clbit) => this.clbitY(clbit, segment))
+        : [],
+      minQubit: Math.min(...gate.qubits),
+      maxQubit: Math.max(...gate.qubits),
+      minRow,
+      maxRow,
+    };
+    this.placements[index] = placement;
+    return placement;
+  }
+
+  /**
+   * Places an annotation above its gate, or below the diagram under the gate's column.
+   * Gates hidden in a collapsed group are annotated on the group's box.
+   */
+  private placeAnnotation(
+    annotation: Annotation,
+    index: number,
+    placement: GatePlacement
+  ): AnnotationPlacement {
+    const { gateHeight, qubitSpacing, annotationFontSize } = this.styles;
+    const group = this.collapsedGroups[annotation.gate];
+    const { column, x, minQubit } =
+      group && group.block ? group.block : placement;
+    const segment = this.segmentOf(column);
+    const y =
+      annotation.target === "gate"
+        ? this.qubitY(minQubit, segment) -
+          gateHeight / 2 -
+          annotationFontSize / 2 -
+          2
+        : this.qubitY(this.numQubits + this.numClbits - 1, segment) +
+          qubitSpacing / 2;
+    return { annotation, index, column, x, y };
+  }
+
+  /**
+   * Starts laying out a group: finds the rows its gates span and the first column free on all of them.
+   */
+  private openGroup(circuit: Circuit, index: number): GroupPlacement {
+    const group = circuit.groups[index];
+    const rows: number[] = [];
+    const qubits: number[] = [];
+    circuit.gates.slice(group.start, group.end).forEach((gate) => {
+      rows.push(...this.rowsOf(gate));
+      gate.qubits.forEach((qubit) => {
+        if (qubits.indexOf(qubit) === -1) {
+          qubits.push(qubit);
+        }
+      });
+    });
+    const minRow = Math.min(...rows);
+    const maxRow = Math.max(...rows);
+    const startColumn = this.firstFree(minRow, maxRow);
+    const placement: GroupPlacement = {
+      group,
+      index,
+      collapsed:
+        group.collapsed === undefined
+          ? this.styles.groupDisplay === "collapsed"
+          : group.collapsed,
+      startColumn,
+      endColumn: startColumn,
+      minRow,
+      maxRow,
+      qubits: qubits.sort((a, b) => a - b),
+      left: 0,
+      right: 0,
+      top: 0,
+      bottom: 0,
+      frames: [],
+    };
+    this.groups.push(placement);
+    return placement;
+  }
+
+  /**
+   * Finishes laying out a group once its gates are placed: its last column, its frame and, if collapsed, its box.
+   */
+  private closeGroup(placement: GroupPlacement): void {
+    const { group, qubits, minRow, maxRow } = placement;
+    const { gateSpacing, gateWidth, qubitSpacing } = this.styles;
+    for (let i = group.start; i < group.end && this.placements[i]; i++) {
+      placement.endColumn = Math.max(
+        placement.endColumn,
+        this.placements[i].column
+      );
+    }
+    // The frame runs halfway between the gates and the middle of the gaps around them,
+    // with one frame per segment when the diagram is wrapped inside the group.
+    const padding = (gateWidth + gateSpacing) / 4;
+    const first = this.segmentOf(placement.startColumn);
+    const last = this.segmentOf(placement.endColumn);
+    for (let segment = first; segment <= last; segment++) {
+      const startColumn = Math.max(
+        placement.startColumn,
+        this.firstColumn(segment)
+      );
+      const endColumn = Math.min(
+        placement.endColumn,
+        this.firstColumn(segment + 1) - 1
+      );
+      placement.frames.push({
+        segment,
+        left: this.columnX(startColumn) - padding,
+        right: this.columnX(endColumn) + padding,
+        top: this.qubitY(minRow, segment) - qubitSpacing / 2 + 2,
+        bottom: this.qubitY(maxRow, segment) + qubitSpacing / 2 - 2,
+      });
+    }
+    const [{ left, right, top, bottom }] = placement.frames;
+    placement.left = left;
+    placement.right = right;
+    placement.top = top;
+    placement.bottom = bottom;
+
+    if (placement.collapsed) {
+      for (let i = group.start; i < group.end; i++) {
+        this.collapsedGroups[i] = placement;
+      }
+      const gate = new MultiQubitGate(group.name, qubits);
+      placement.block = {
+        gate,
+        index: group.start,
+        column: placement.startColumn,
+        x: this.columnX(placement.startColumn),
+        ys: qubits.map((qubit) => this.qubitY(qubit, first)),
+        clbitYs: [],
+        conditionYs: [],
+        minQubit: qubits[0],
+        maxQubit: qubits[qubits.length - 1],
+        minRow,
+        maxRow,
+      };
+    }
+  }
+}
+
+/**
+ * Estimates the width of a line of text, assuming an average character width of 0.6 times the font size.
+ */
+function textWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * 0.6;
+}
+
+/**
+ * Returns the registers to mark with brackets: all of them, unless a single register covers every wire.
+ */
+function splitRegisters(
+  registers: Register[],
+  count: number,
+  classical: boolean
+): { register: Register; classical: boolean }[] {
+  if (registers.length === 1 && registers[0].size === count) {
+    return [];
+  }
+  return registers.map((register) => ({ register, classical }));
+}
@@ -0,0 +1,452 @@
+/**
+ * @file Parameter.ts
+ * @description Defines symbolic gate parameters: named parameters and arithmetic expressions built from them.
+ */
+
+/**
+ * The value of a gate parameter: a number, or a symbolic expression bound to a number later.
+ */
+export type ParameterValue = number | ParameterExpression;
+
+/**
+ * Values for named parameters, keyed by parameter name.
+ */
+export interface ParameterBindings {
+  [name: string]: number;
+}
+
+/**
+ * The arithmetic operators of parameter expressions. "neg" negates its single operand.
+ */
+export type ParameterOperator = "+" | "-" | "*" | "/" | "neg";
+
+/**
+ * How the parts of an expression are written by `ParameterExpression.format()`.
+ */
+export interface ExpressionFormatter {
+  /**
+   * Formats a number used as an angle, i.e. a term of a sum or difference (e.g. "π/2").
+   */
+  angle(value: number): string;
+
+  /**
+   * Formats a number used as a factor or divisor, which has no unit (e.g. "2").
+   */
+  number(value: number): string;
+
+  /**
+   * Formats the name of a parameter (e.g. "θ" or "\theta").
+   */
+  parameter(name: string): string;
+
+  /**
+   * The multiplication sign, e.g. "*" or "·".
+   */
+  times: string;
+}
+
+/**
+ * The precedence of a value in an expression, used to decide where parentheses are needed.
+ */
+const PRECEDENCE: { [operator: string]: number } = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 2,
+  neg: 3,
+};
+
+/**
+ * The precedence of parameters and non-negative numbers, which never need parentheses.
+ */
+const ATOM_PRECEDENCE = 4;
+
+/**
+ * Writes expressions with exact numbers and "*" for multiplication, as in OpenQASM.
+ */
+const PLAIN_FORMATTER: ExpressionFormatter = {
+  angle: String,
+  number: String,
+  parameter: (name) => name,
+  times: "*",
+};
+
+/**
+ * The base class of symbolic gate parameters.
+ * Expressions are immutable trees of named parameters, numbers and arithmetic operations;
+ * they are combined with `plus()`, `minus()`, `times()`, `dividedBy()` and `negate()`,
+ * and turned into numbers with `bind()` or `evaluate()`.
+ *
+ * @example
+ * ```typescript
+ * const theta = new Parameter("θ");
+ * const angle = theta.times(2).plus(Math.PI / 2);
+ * angle.toString();            // "2*θ + 1.5707963267948966"
+ * angle.bind({ θ: 0.5 });      // 2.5707963267948966
+ * ```
+ */
+export abstract class ParameterExpression {
+  /**
+   * Returns the names of the parameters the expression depends on, in order of first appearance.
+   */
+  abstract parameters(): string[];
+
+  /**
+   * Substitutes values for some or all of the parameters.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   * @returns A number when every parameter is bound, otherwise the partially bound expression.
+   */
+  abstract bind(bindings: ParameterBindings): ParameterValue;
+
+  /**
+   * Writes the expression, parenthesizing operands as needed.
+   *
+   * @param formatter - How numbers, parameter names and products are written.
+   * @returns The formatted expression, e.g. "2·θ + π/2".
+   */
+  format(formatter: ExpressionFormatter): string {
+    return this.write(formatter, false);
+  }
+
+  /**
+   * Returns the value of the expression.
+   *
+   * @param bindings - (Optional) The values of the parameters, keyed by name.
+   * @returns The value.
+   *
+   * @throws {Error} Will throw an error if a parameter has no value.
+   */
+  evaluate(bindings: ParameterBindings = {}): number {
+    const value = this.bind(bindings);
+    if (typeof value !== "number") {
+      throw new Error(
+        `Parameter(s) ${value.parameters().join(", ")} have no value.`
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Returns the expression `this + other`.
+   */
+  plus(other: ParameterValue): ParameterExpression {
+    return typeof other === "number" && other < 0
+      ? new ParameterOperation("-", [this, -other])
+      : new ParameterOperation("+", [this, other]);
+  }
+
+  /**
+   * Returns the expression `this - other`.
+   */
+  minus(other: ParameterValue): ParameterExpression {
+    return typeof other === "number" && other < 0
+      ? new ParameterOperation("+", [this, -other])
+      : new ParameterOperation("-", [this, other]);
+  }
+
+  /**
+   * Returns the expression `this * other`, with a numeric factor written first (e.g. "2*θ").
+   */
+  times(other: ParameterValue): ParameterExpression {
+    return typeof other === "number"
+      ? new ParameterOperation("*", [other, this])
+      : new ParameterOperation("*", [this, other]);
+  }
+
+  /**
+   * Returns the expression `this / other`.
+   */
+  dividedBy(other: ParameterValue): ParameterExpression {
+    return new ParameterOperation("/", [this, other]);
+  }
+
+  /**
+   * Returns the expression `-this`.
+   */
+  negate(): ParameterExpression {
+    return new ParameterOperation("neg", [this]);
+  }
+
+  /**
+   * Writes the expression with exact numbers and "*" for multiplication, e.g. "2*θ + 1.5707963267948966".
+   */
+  toString(): string {
+    return this.format(PLAIN_FORMATTER);
+  }
+
+  /**
+   * The precedence of the expression's outermost operation.
+   */
+  abstract get precedence(): number;
+
+  /**
+   * Writes the expression; `asFactor` tells whether numbers in it are factors rather than angles.
+   */
+  abstract write(formatter: ExpressionFormatter, asFactor: boolean): string;
+}
+
+/**
+ * A named symbolic parameter, such as the angle θ of a variational layer.
+ * Parameters with the same name are the same parameter: binding a name sets every occurrence.
+ *
+ * @example
+ * ```typescript
+ * const theta = new Parameter("θ");
+ * circuit.addGate(new RotationGate("X", 0, theta));       // drawn as "RX(θ)"
+ * circuit.addGate(new RotationGate("Z", 1, theta.times(2)));
+ * const bound = circuit.bind({ θ: Math.PI / 4 });
+ * ```
+ */
+export class Parameter extends ParameterExpression {
+  /**
+   * The name of the parameter.
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * Creates an instance of the Parameter class.
+   *
+   * @param name - The name of the parameter. Names are identifiers: a letter or underscore followed by
+   * letters, digits or underscores; Unicode letters and subscript digits such as "θ₁" are allowed.
+   *
+   * @throws {Error} Will throw an error if the name is not an identifier.
+   */
+  constructor(name: string) {
+    super();
+    if (!/^[A-Za-z_À-῿][A-Za-z0-9_À-῿₀-₉]*$/.test(name)) {
+      throw new Error(`Invalid parameter name '${name}'.`);
+    }
+    this.name = name;
+  }
+
+  /**
+   * Returns the name of the parameter, its only dependency.
+   */
+  parameters(): string[] {
+    return [this.name];
+  }
+
+  /**
+   * Returns the value bound to the parameter's name, or the parameter itself if it has none.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   */
+  bind(bindings: ParameterBindings): ParameterValue {
+    return Object.prototype.hasOwnProperty.call(bindings, this.name)
+      ? bindings[this.name]
+      : this;
+  }
+
+  /**
+   * The precedence of a parameter, which never needs parentheses.
+   */
+  get precedence(): number {
+    return ATOM_PRECEDENCE;
+  }
+
+  /**
+   * Writes the name of the parameter.
+   */
+  write(formatter: ExpressionFormatter): string {
+    return formatter.parameter(this.name);
+  }
+}
+
+/**
+ * An arithmetic operation on parameter values, created by the methods of `ParameterExpression`.
+ */
+export class ParameterOperation extends ParameterExpression {
+  /**
+   * The operator.
+   * @readonly
+   */
+  operator: ParameterOperator;
+
+  /**
+   * The operands: two for binary operators, one for "neg".
+   * @readonly
+   */
+  operands: ParameterValue[];
+
+  /**
+   * Creates an instance of the ParameterOperation class.
+   *
+   * @param operator - The operator.
+   * @param operands - The operands: two for binary operators, one for "neg".
+   *
+   * @throws {Error} Will throw an error if the number of operands does not match the operator,
+   * or if a numeric operand is not finite.
+   */
+  constructor(operator: ParameterOperator, operands: ParameterValue[]) {
+    super();
+    const arity = operator === "neg" ? 1 : 2;
+    if (operands.length !== arity) {
+      throw new Error(
+        `The operator '${operator}' takes ${arity} operand(s), but ${operands.length} are given.`
+      );
+    }
+    if (
+      operands.some(
+        (operand) => typeof operand === "number" && !isFinite(operand)
+      )
+    ) {
+      throw new Error("Numeric operands must be finite.");
+    }
+    this.operator = operator;
+    this.operands = [...operands];
+  }
+
+  /**
+   * Returns the names of the parameters of the operands, in order of first appearance.
+   */
+  parameters(): string[] {
+    const names: string[] = [];
+    this.operands.forEach((operand) => {
+      if (typeof operand !== "number") {
+        operand.parameters().forEach((name) => {
+          if (names.indexOf(name) === -1) {
+            names.push(name);
+          }
+        });
+      }
+    });
+    return names;
+  }
+
+  /**
+   * Binds the operands, computing the result when they are all numbers.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   */
+  bind(bindings: ParameterBindings): ParameterValue {
+    const operands = this.operands.map((operand) =>
+      typeof operand === "number" ? operand : operand.bind(bindings)
+    );
+    const [a, b] = operands;
+    if (operands.some((operand) => typeof operand !== "number")) {
+      return new ParameterOperation(this.operator, operands);
+    }
+    const x = a as number;
+    const y = b as number;
+    switch (this.operator) {
+      case "+":
+        return x + y;
+      case "-":
+        return x - y;
+      case "*":
+        return x * y;
+      case "/":
+        return x / y;
+      default:
+        return -x;
+    }
+  }
+
+  /**
+   * The precedence of the operator.
+   */
+  get precedence(): number {
+    return PRECEDENCE[this.operator];
+  }
+
+  /**
+   * Writes the operation, with its operands parenthesized as needed.
+   */
+  write(formatter: ExpressionFormatter, asFactor: boolean): string {
+    const { operator, operands } = this;
+    if (operator === "neg") {
+      return `-${this.operand(formatter, operands[0], asFactor, false)}`;
+    }
+    const factors = operator === "*" || operator === "/";
+    const left = this.operand(
+      formatter,
+      operands[0],
+      factors || asFactor,
+      false
+    );
+    const right = this.operand(
+      formatter,
+      operands[1],
+      factors || asFactor,
+      true
+    );
+    if (operator === "*") {
+      return `${left}${formatter.times}${right}`;
+    }
+    return operator === "/"
+      ? `${left}/${right}`
+      : `${left} ${operator} ${right}`;
+  }
+
+  /**
+   * Writes an operand, in parentheses when it binds less tightly than this operation.
+   * Right operands of "-" and "/" also need parentheses at equal precedence, since those operators are not associative.
+   */
+  private operand(
+    formatter: ExpressionFormatter,
+    operand: ParameterValue,
+    asFactor: boolean,
+    isRight: boolean
+  ): string {
+    let text: string;
+    let precedence: number;
+    if (typeof operand === "number") {
+      text = asFactor ? formatter.number(operand) : formatter.angle(operand);
+      precedence = text.charAt(0) === "-" ? PRECEDENCE.neg : ATOM_PRECEDENCE;
+    } else {
+      text = operand.write(formatter, asFactor);
+      precedence = operand.precedence;
+    }
+    const own = this.precedence;
+    const strict = isRight && (this.operator === "-" || this.operator === "/");
+    return precedence < own || (strict && precedence === own)
+      ? `(${text})`
+      : text;
+  }
+}
+
+/**
+ * Returns the names of the parameters a value depends on; none for numbers.
+ *
+ * @param value - The parameter value.
+ */
+export function parametersOf(value: ParameterValue): string[] {
+  return typeof value === "number" ? [] : value.parameters();
+}
+
+/**
+ * Substitutes values for the parameters of a parameter value; numbers are returned as they are.
+ *
+ * @param value - The parameter value.
+ * @param bindings - The values of the parameters, keyed by name.
+ * @returns A number when every parameter is bound, otherwise the partially bound expression.
+ */
+export function bindValue(
+  value: ParameterValue,
+  bindings: ParameterBindings
+): ParameterValue {
+  return typeof value === "number" ? value : value.bind(bindings);
+}
+
+/**
+ * Returns the opposite of a parameter value: the negated number, or the negated expression.
+ *
+ * @param value - The parameter value.
+ */
+export function negateValue(value: ParameterValue): ParameterValue {
+  return typeof value === "number" ? -value : value.negate();
+}
+
+/**
+ * Returns the numeric value of a parameter value.
+ *
+ * @param value - The parameter value.
+ * @returns The number.
+ *
+ * @throws {Error} Will throw an error if the value depends on unbound parameters.
+ */
+export function numericValue(value: ParameterValue): number {
+  return typeof value === "number" ? value : value.evaluate();
+}
@@ -0,0 +1,616 @@
+/**
+ * @file Player.ts
+ * @description Defines the CircuitPlayer class, which animates the execution of a drawn circuit column by column.
+ */
+
+import { G, Line, Rect, Runner, Timeline } from "@svgdotjs/svg.js";
+import { Renderer } from "./Renderer";
+
+/**
+ * The easing of the playhead between two columns: one of the svg.js easings ("-" linear, "<>" ease in and out,
+ * "<" ease in, ">" ease out), or a function mapping the progress of a step, from 0 to 1, to the distance covered.
+ */
+export type PlayerEasing =
+  | "-"
+  | "<>"
+  | "<"
+  | ">"
+  | ((progress: number) => number);
+
+/**
+ * The options of a CircuitPlayer.
+ */
+export interface PlayerOptions {
+  /**
+   * The time the playhead takes to move from one column to the next at normal speed, in milliseconds.
+   * @default 500
+   */
+  stepDuration?: number;
+
+  /**
+   * The playback speed: 2 plays twice as fast, 0.5 half as fast.
+   * @default 1
+   */
+  speed?: number;
+
+  /**
+   * The easing of the playhead between two columns.
+   * @default "<>"
+   */
+  easing?: PlayerEasing;
+
+  /**
+   * Whether playback starts over from the first column after the last one.
+   * @default false
+   */
+  loop?: boolean;
+}
+
+/**
+ * Payload of the event emitted when the playhead reaches a step.
+ */
+export interface PlayerStepEvent {
+  /**
+   * The step: the index of the column that has just run, or -1 before the first column.
+   */
+  step: number;
+
+  /**
+   * The indices in `circuit.gates` of the gates of the column, in gate order; empty before the first column.
+   */
+  gates: number[];
+
+  /**
+   * The elements drawn for the gates of the column, as returned by `Renderer.columnElements()`.
+   */
+  elements: G[];
+}
+
+/**
+ * Payload of the events emitted when playback starts, pauses or ends.
+ */
+export interface PlayerStateEvent {
+  /**
+   * The step the playhead was at, as in `PlayerStepEvent`.
+   */
+  step: number;
+}
+
+/**
+ * The events emitted by a CircuitPlayer, with their payloads.
+ */
+export interface PlayerEventMap {
+  /**
+   * The playhead reached a step, by playing, stepping or seeking.
+   */
+  step: PlayerStepEvent;
+
+  /**
+   * Playback started or resumed.
+   */
+  play: PlayerStateEvent;
+
+  /**
+   * Playback was paused, or stopped by stepping or seeking.
+   */
+  pause: PlayerStateEvent;
+
+  /**
+   * Playback reached the last column without looping.
+   */
+  end: PlayerStateEvent;
+}
+
+/**
+ * A listener of a CircuitPlayer event.
+ */
+export type PlayerListener<K extends keyof PlayerEventMap> = (
+  payload: PlayerEventMap[K]
+) => void;
+
+/**
+ * Where the playhead and the band over the current column are drawn for a step.
+ */
+interface StepBounds {
+  segment: number;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Animates the execution of a circuit drawn by a Renderer, for teaching: a playhead sweeps across the diagram
+ * column by column, and a band highlights the column that has just run. Playback can be started, paused,
+ * stepped forward and back and moved to any column, at any speed and with any easing.
+ * The player emits a `step` event whenever the playhead reaches a column, e.g. to run the column's gates
+ * on a simulator or to update a Bloch sphere.
+ * The playhead is drawn with the `playheadColor` and `playheadWidth` styles of the renderer,
+ * the band with `highlightColor` and `highlightOpacity`. When the diagram wraps into rows, the playhead
+ * jumps from the end of a row to the start of the next one.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new Renderer(circuit, "circuit-container");
+ * renderer.draw();
+ * const player = new CircuitPlayer(renderer, { stepDuration: 800, easing: "-" });
+ *
+ * player.on("step", ({ step, gates }) => console.log(`Column ${step} ran gates ${gates}`));
+ * player.play();
+ * pauseButton.onclick = () => player.pause();
+ * nextButton.onclick = () => player.stepForward();
+ * ```
+ */
+export class CircuitPlayer {
+  /**
+   * The renderer drawing the played circuit.
+   */
+  renderer: Renderer;
+
+  /**
+   * The time the playhead takes to move from one column to the next at normal speed, in milliseconds.
+   * Changes apply from the next step.
+   */
+  stepDuration: number;
+
+  /**
+   * The playback speed. Changes apply from the next step.
+   */
+  speed: number;
+
+  /**
+   * The easing of the playhead between two columns. Changes apply from the next step.
+   */
+  easing: PlayerEasing;
+
+  /**
+   * Whether playback starts over from the first column after the last one.
+   */
+  loop: boolean;
+
+  /**
+   * The listeners of every event.
+   */
+  private listeners: {
+    [K in keyof PlayerEventMap]?: PlayerListener<K>[];
+  } = {};
+
+  /**
+   * The step the playhead last reached.
+   */
+  private position = -1;
+
+  /**
+   * Whether the player is playing.
+   */
+  private playing = false;
+
+  /**
+   * The timeline every animation of the player runs on, paused and resumed as a whole.
+   */
+  private readonly timeline = new Timeline();
+
+  /**
+   * The animation of the playhead to the next step, if it is moving.
+   */
+  private runner?: Runner;
+
+  /**
+   * The group holding the band and the playhead, drawn over the diagram.
+   */
+  private overlay?: G;
+  private band?: Rect;
+  private playhead?: Line;
+
+  /**
+   * Moves the playhead to its column in the updated diagram when the circuit changes.
+   */
+  private readonly handleChange = (): void => this.refresh();
+
+  /**
+   * Creates a player for the circuit of a renderer, and draws the playhead before the first column.
+   *
+   * @param renderer - The renderer drawing the circuit. Draw the circuit before creating the player.
+   * @param options - (Optional) The duration of a step, the speed, the easing and whether to loop.
+   *
+   * @throws {Error} Will throw an error if the step duration is negative or the speed is not a positive number.
+   */
+  constructor(renderer: Renderer, options: PlayerOptions = {}) {
+    const {
+      stepDuration = 500,
+      speed = 1,
+      easing = "<>",
+      loop = false,
+    } = options;
+    this.renderer = renderer;
+    this.stepDuration = stepDuration;
+    this.speed = speed;
+    this.easing = easing;
+    this.loop = loop;
+    this.duration();
+    this.refresh();
+    // Listen after the renderer, which updates the layout the playhead is placed on.
+    renderer.circuit
+      .on("add", this.handleChange)
+      .on("remove", this.handleChange)
+      .on("move", this.handleChange)
+      .on("change", this.handleChange);
+  }
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @param type - The event type.
+   * @param listener - The function called with the event's payload.
+   * @returns The player, for chaining.
+   */
+  on<K extends keyof PlayerEventMap>(
+    type: K,
+    listener: PlayerListener<K>
+  ): CircuitPlayer {
+    const listeners = (this.listeners[type] || []) as PlayerListener<K>[];
+    listeners.push(listener);
+    this.listeners[type] = listeners as CircuitPlayer["listeners"][K];
+    return this;
+  }
+
+  /**
+   * Removes a listener registered with `on()`.
+   *
+   * @param type - The event type.
+   * @param listener - The listener to remove.
+   * @returns The player, for chaining.
+   */
+  off<K extends keyof PlayerEventMap>(
+    type: K,
+    listener: PlayerListener<K>
+  ): CircuitPlayer {
+    const listeners = (this.listeners[type] || []) as PlayerListener<K>[];
+    this.listeners[type] = listeners.filter(
+      (l) => l !== listener
+    ) as CircuitPlayer["listeners"][K];
+    return this;
+  }
+
+  /**
+   * Returns the step the playhead last reached: the index of the column that has just run, or -1 before the first column.
+   */
+  currentStep(): number {
+    return this.position;
+  }
+
+  /**
+   * Returns the number of steps, one per column of the diagram.
+   */
+  stepCount(): number {
+    return this.renderer.layout().numColumns;
+  }
+
+  /**
+   * Returns whether the player is playing.
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Starts playback from the current step, or resumes it where it was paused.
+   * Playback from the last column starts over from the beginning.
+   *
+   * @throws {Error} Will throw an error if the step duration is negative or the speed is not a positive number.
+   */
+  play(): void {
+    if (this.playing) {
+      return;
+    }
+    this.duration();
+    this.playing = true;
+    if (this.position >= this.stepCount() - 1 && !this.runner) {
+      this.moveTo(-1);
+      this.arrive(-1);
+    }
+    this.emit("play", { step: this.position });
+    if (this.runner) {
+      this.timeline.play();
+    } else {
+      this.advance();
+    }
+  }
+
+  /**
+   * Pauses playback, leaving the playhead where it is, possibly between two columns.
+   */
+  pause(): void {
+    if (!this.playing) {
+      return;
+    }
+    this.playing = false;
+    this.timeline.pause();
+    this.emit("pause", { step: this.position });
+  }
+
+  /**
+   * Stops playback and moves the playhead to the next column.
+   *
+   * @returns `true` if there was a next column.
+   */
+  stepForward(): boolean {
+    return this.stepTo(this.position + 1);
+  }
+
+  /**
+   * Stops playback and moves the playhead back to the previous column.
+   *
+   * @returns `true` if there was a previous column.
+   */
+  stepBack(): boolean {
+    return this.stepTo(this.position - 1);
+  }
+
+  /**
+   * Stops playback and puts the playhead at a step at once, without animating it.
+   *
+   * @param step - The column to put the playhead after, or -1 to put it before the first column.
+   *
+   * @throws {Error} Will throw an error if the step is not an integer from -1 to the last column.
+   *
+   * @example
+   * ```typescript
+   * player.seek(-1); // rewind
+   * player.seek(player.stepCount() - 1); // after the last column
+   * ```
+   */
+  seek(step: number): void {
+    const count = this.stepCount();
+    if (!Number.isInteger(step) || step < -1 || step >= count) {
+      throw new Error(
+        `Cannot seek to step ${step}: the steps go from -1 to ${count - 1}.`
+      );
+    }
+    this.stop();
+    this.moveTo(step);
+    this.arrive(step);
+  }
+
+  /**
+   * Draws the playhead again at the current step, e.g. after the diagram was redrawn with `Renderer.draw()`,
+   * which removes it. Called when the circuit changes; playback goes on.
+   */
+  refresh(): void {
+    const moving = !!this.runner;
+    if (this.runner) {
+      this.runner.unschedule();
+      this.runner = undefined;
+    }
+    this.moveTo(Math.min(this.position, this.stepCount() - 1));
+    if (moving && this.playing) {
+      this.advance();
+    }
+  }
+
+  /**
+   * Stops playback, removes the playhead and stops following the circuit's changes.
+   */
+  dispose(): void {
+    this.stop();
+    if (this.overlay) {
+      this.overlay.remove();
+      this.overlay = undefined;
+    }
+    this.renderer.circuit
+      .off("add", this.handleChange)
+      .off("remove", this.handleChange)
+      .off("move", this.handleChange)
+      .off("change", this.handleChange);
+  }
+
+  /**
+   * Stops playback and animates the playhead to a step, if it exists.
+   */
+  private stepTo(step: number): boolean {
+    if (step < -1 || step >= this.stepCount()) {
+      return false;
+    }
+    this.duration();
+    this.stop();
+    this.animateTo(step);
+    return true;
+  }
+
+  /**
+   * Animates the playhead to the next column, and on to the following ones while playing.
+   */
+  private advance(): void {
+    const next = this.position + 1;
+    if (next < this.stepCount()) {
+      this.animateTo(next);
+    } else if (this.loop && next > 0) {
+      this.moveTo(-1);
+      this.arrive(-1);
+      this.advance();
+    } else {
+      this.playing = false;
+      this.emit("end", { step: this.position });
+    }
+  }
+
+  /**
+   * Animates the playhead from the current step to another one, and reaches it at the end of the animation.
+   */
+  private animateTo(step: number): void {
+    const from = this.bounds(this.position);
+    const to = this.bounds(step);
+    const { band, playhead } = this.draw();
+    // svg.js runners that last no time never finish, so instant steps take a frame.
+    const duration = Math.max(this.duration(), 1);
+    this.timeline.play();
+
+    if (from.segment !== to.segment) {
+      // Jump to the next row, and wait there for the rest of the step.
+      this.place(to);
+      this.runner = band.animate(duration, 0, "now");
+    } else {
+      this.ease(playhead.animate(duration, 0, "now")).attr({
+        x1: to.right,
+        x2: to.right,
+      });
+      this.runner = this.ease(band.animate(duration, 0, "now")).attr({
+        x: to.left,
+        width: to.right - to.left,
+      });
+    }
+    const runner = this.runner;
+    runner.after(() => {
+      if (this.runner !== runner) {
+        return;
+      }
+      this.runner = undefined;
+      this.arrive(step);
+      if (this.playing) {
+        this.advance();
+      }
+    });
+  }
+
+  /**
+   * Records that the playhead reached a step, and emits the `step` event.
+   */
+  private arrive(step: number): void {
+    this.position = step;
+    const layout = this.renderer.layout();
+    this.emit("step", {
+      step,
+      gates: step < 0 ? [] : (layout.columns[step] || []).slice(),
+      elements: step < 0 ? [] : this.renderer.columnElements(step),
+    });
+  }
+
+  /**
+   * Puts the playhead at a step at once, without emitting an event.
+   */
+  private moveTo(step: number): void {
+    this.position = step;
+    this.place(this.bounds(step));
+  }
+
+  /**
+   * Stops playback and any animation, leaving the playhead at the last step it reached.
+   */
+  private stop(): void {
+    if (this.runner) {
+      this.runner.unschedule();
+      this.runner = undefined;
+      this.moveTo(this.position);
+    }
+    if (this.playing) {
+      this.playing = false;
+      this.emit("pause", { step: this.position });
+    }
+  }
+
+  /**
+   * Puts the band and the playhead at the given bounds.
+   */
+  private place(bounds: StepBounds): void {
+    const { band, playhead } = this.draw();
+    band.attr({
+      x: bounds.left,
+      y: bounds.top,
+      width: bounds.right - bounds.left,
+      height: bounds.bottom - bounds.top,
+    });
+    playhead.attr({
+      x1: bounds.right,
+      y1: bounds.top,
+      x2: bounds.right,
+      y2: bounds.bottom,
+    });
+  }
+
+  /**
+   * Returns the band and the playhead, drawing them over the diagram if they are not on the canvas.
+   */
+  private draw(): { band: Rect; playhead: Line } {
+    const svg = this.renderer.svg;
+    if (
+      !this.overlay ||
+      !this.band ||
+      !this.playhead ||
+      this.overlay.node.parentNode !== svg.node
+    ) {
+      const { playheadColor, playheadWidth, highlightColor, highlightOpacity } =
+        this.renderer.styles;
+      this.overlay = svg.group().attr({ "data-player": true });
+      this.band = this.overlay
+        .rect(0, 0)
+        .fill({ color: highlightColor, opacity: highlightOpacity });
+      this.playhead = this.overlay
+        .line(0, 0, 0, 0)
+        .stroke({ width: playheadWidth, color: playheadColor });
+      this.band.timeline(this.timeline);
+      this.playhead.timeline(this.timeline);
+    } else {
+      // Keep the playhead over gates drawn since.
+      this.overlay.front();
+    }
+    return { band: this.band, playhead: this.playhead };
+  }
+
+  /**
+   * Returns where the band and the playhead are drawn for a step. Before the first column, the band is empty
+   * and the playhead is at the left edge of the first column.
+   */
+  private bounds(step: number): StepBounds {
+    const layout = this.renderer.layout();
+    const { gateSpacing } = this.renderer.styles;
+    const column = Math.max(step, 0);
+    const segment = layout.segmentOf(column);
+    const { top, bottom } = layout.segments[segment] || layout.segments[0];
+    const left = layout.columnX(column) - gateSpacing / 2;
+    return {
+      segment,
+      left,
+      right: step < 0 ? left : left + gateSpacing,
+      top,
+      bottom,
+    };
+  }
+
+  /**
+   * Applies the player's easing to an animation.
+   */
+  private ease(runner: Runner): Runner {
+    const { easing } = this;
+    return typeof easing === "function"
+      ? runner.ease(easing)
+      : runner.ease(easing);
+  }
+
+  /**
+   * Returns the duration of a step at the current speed, after checking the step duration and the speed.
+   */
+  private duration(): number {
+    if (!(this.stepDuration >= 0 && isFinite(this.stepDuration))) {
+      throw new Error(
+        `The step duration must be a non-negative number of milliseconds, but is ${this.stepDuration}.`
+      );
+    }
+    if (!(this.speed > 0 && isFinite(this.speed))) {
+      throw new Error(
+        `The speed must be a positive number, but is ${this.speed}.`
+      );
+    }
+    return this.stepDuration / this.speed;
+  }
+
+  /**
+   * Calls the listeners of an event.
+   */
+  private emit<K extends keyof PlayerEventMap>(
+    type: K,
+    payload: PlayerEventMap[K]
+  ): void {
+    const listeners = (this.listeners[type] || []) as PlayerListener<K>[];
+    listeners.slice().forEach((listener) => listener(payload));
+  }
+}
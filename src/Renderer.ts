@@ -3,14 +3,43 @@
  * @description Handles the rendering of quantum circuits onto an SVG canvas using svg.js.
  */
 
-import { Circuit } from "./Circuit";
+import {
+  Circuit,
+  CircuitGateEvent,
+  CircuitMoveEvent,
+  CircuitChangeEvent,
+} from "./Circuit";
 import { IGate } from "./gates/IGate";
-import { SVG, Svg } from "@svgdotjs/svg.js";
-import { StyleConfig, DefaultStyleConfig } from "./styles";
+import { SVG, Svg, Container, Element, G, Rect } from "@svgdotjs/svg.js";
+import { StyleConfig, DefaultStyleConfig, gateStyleConfig } from "./styles";
+import { Layout, GatePlacement, SegmentPlacement } from "./Layout";
+import { GateRegistry, DrawContext, defaultGateRegistry } from "./GateRegistry";
+import {
+  drawBoxGate,
+  drawCondition,
+  drawDoubleLine,
+  drawGroupFrame,
+  drawAnnotation,
+  drawWireLabel,
+  drawRegisterBracket,
+  drawContinuation,
+} from "./drawers";
 
 /**
  * The Renderer class is responsible for visualizing a quantum circuit on an SVG canvas.
  * It takes a Circuit object and renders the qubits, gates, and connections according to the specified styles.
+ * Once drawn, the diagram follows the changes of the circuit made through its methods (`addGate()`, `insertGate()`,
+ * `removeGate()`, ...): the gates before a changed gate are left as they are, and only the following ones are laid
+ * out again and redrawn if their position changed. Call `dispose()` when the diagram is no longer needed,
+ * so the circuit stops notifying the renderer.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new Renderer(circuit, "circuit-container");
+ * renderer.draw();
+ * circuit.h(0); // drawn at once, without redrawing the other gates
+ * renderer.dispose();
+ * ```
  */
 export class Renderer {
   /**
@@ -28,10 +57,81 @@ export class Renderer {
    */
   styles: StyleConfig;
 
+  /**
+   * The registry mapping gate kinds to their drawing routines.
+   * Defaults to the shared registry of built-in drawers; assign a clone to customize drawing for this renderer only.
+   */
+  registry: GateRegistry = defaultGateRegistry;
+
+  /**
+   * The group of elements drawn for each gate, indexed like `circuit.gates` and kept up to date with the circuit.
+   * Each group also carries the gate's index in its `data-gate-index` attribute.
+   */
+  elements: G[] = [];
+
+  /**
+   * The group of elements drawn for each gate group, indexed like `circuit.groups`:
+   * the frame and title of an expanded group, or the box of a collapsed one.
+   * Each group also carries the group's index in its `data-group-index` attribute.
+   */
+  groupElements: G[] = [];
+
+  /**
+   * What is on the canvas, or undefined when nothing is drawn.
+   */
+  private drawing?: Drawing;
+
+  /**
+   * Whether the renderer created its canvas, and removes it when disposed.
+   */
+  private readonly ownsCanvas: boolean;
+
+  /**
+   * The circuit whose events the renderer listens to, or undefined once disposed.
+   */
+  private listening?: Circuit;
+
+  /**
+   * Whether `dispose()` was called; a disposed renderer can still draw, but no longer follows the circuit.
+   */
+  private disposed = false;
+
+  /**
+   * Updates the diagram from the index of an added or removed gate on.
+   */
+  private readonly handleEdit = ({ index }: CircuitGateEvent): void =>
+    this.refresh(index, []);
+
+  /**
+   * Updates the diagram from the first of the indices a gate moved between on.
+   */
+  private readonly handleMove = ({ index, from }: CircuitMoveEvent): void =>
+    this.refresh(Math.min(index, from), []);
+
+  /**
+   * Redraws a replaced or changed gate, and updates the diagram from its index on.
+   */
+  private readonly handleUpdate = ({ gate, index }: CircuitGateEvent): void =>
+    this.refresh(index, [gate]);
+
+  /**
+   * Updates the diagram after another change; redraws it all when the gates changed as a whole.
+   */
+  private readonly handleChange = ({ reason }: CircuitChangeEvent): void => {
+    if (reason === "gates") {
+      if (this.drawing) {
+        this.draw();
+      }
+    } else {
+      this.update();
+    }
+  };
+
   /**
    * Creates a new Renderer instance.
    * @param circuit - The Circuit object representing the quantum circuit to render.
-   * @param containerId - The ID of the HTML element where the SVG canvas will be added.
+   * @param container - The ID of the HTML element where the SVG canvas will be added,
+   * or an existing svg.js canvas to draw on (e.g. one backed by an in-memory DOM).
    * @param styles - (Optional) Custom styles to override the default rendering styles.
    *
    * @example
@@ -43,158 +143,609 @@ export class Renderer {
    */
   constructor(
     circuit: Circuit,
-    containerId: string,
+    container: string | Svg,
     styles?: Partial<StyleConfig>
   ) {
     this.circuit = circuit;
-    this.svg = SVG().addTo(`#${containerId}`).size("100%", "100%");
+    this.ownsCanvas = typeof container === "string";
+    this.svg =
+      typeof container === "string"
+        ? SVG().addTo(`#${container}`).size("100%", "100%")
+        : container;
     this.styles = { ...DefaultStyleConfig, ...styles };
+    this.listen(circuit);
+  }
+
+  /**
+   * Computes the column layout used to position the circuit's gates.
+   * Gates acting on disjoint qubits are packed into the same column.
+   *
+   * @returns The layout of the circuit for the current styles.
+   */
+  layout(): Layout {
+    return new Layout(this.circuit, this.styles);
   }
 
   /**
-   * Renders the quantum circuit onto the SVG canvas.
-   * This method iterates over the qubits and gates in the circuit and draws them using SVG elements.
+   * Renders the quantum circuit onto the SVG canvas, replacing whatever the canvas held.
+   * This method lays out the circuit, then draws the register brackets and wire labels in the left margin,
+   * the qubit wires, the classical wires, every gate at its assigned column and the output labels in the right margin.
+   * When the `wrapWidth` or `wrapColumns` style is set, long circuits are wrapped into segments stacked vertically,
+   * each with its own labels and wires, and continuation markers where the wires are cut.
+   * Gate groups are drawn as a dashed frame around their gates, or as a single box in place of their gates when collapsed
+   * (see the `groupDisplay` style and `GateGroup.collapsed`). Annotations are written last, over the gates.
+   * Each gate is drawn with the overrides of its kind in the `gateStyles` style and its own `style`.
+   * Afterwards the diagram follows the circuit's changes, unless the renderer was disposed;
+   * call `draw()` again after changing `styles` in place.
    */
   draw(): void {
-    const { numQubits, gates } = this.circuit;
-    const {
-      qubitSpacing,
-      gateSpacing,
-      gateWidth,
-      gateHeight,
-      lineColor,
-      lineWidth,
-      gateFill,
-      gateStroke,
-      gateStrokeWidth,
-      fontSize,
-      fontFamily,
-      fontColor,
-    } = this.styles;
-
-    const totalWidth = gateSpacing * (gates.length + 1);
+    this.clear();
+    if (!this.disposed) {
+      this.listen(this.circuit);
+    }
+    const { backgroundColor } = this.styles;
+    const layer = () => this.svg.group();
+    const frameLayer = layer();
+    const drawing: Drawing = {
+      circuit: this.circuit,
+      styles: this.styles,
+      registry: this.registry,
+      frameLayer,
+      groupLayer: layer(),
+      gateLayer: layer(),
+      annotationLayer: layer(),
+      background:
+        backgroundColor !== "none"
+          ? frameLayer.rect().fill(backgroundColor)
+          : undefined,
+      outputs: frameLayer.group(),
+      marginKey: "",
+      outputKey: "",
+      overlayKey: "",
+      segments: [],
+      gates: [],
+    };
+    this.drawing = drawing;
+    this.render(drawing, 0, []);
+  }
 
-    // Adjust the SVG canvas size based on the circuit dimensions.
-    this.svg.size(totalWidth + gateSpacing, qubitSpacing * (numQubits + 1));
+  /**
+   * Brings the diagram up to date with the circuit after a change, redrawing only what the change affects:
+   * the wires and labels of the segments whose size or labels changed, the groups and annotations when they
+   * changed, and the gates whose position changed. Other gates keep their elements.
+   * This method lays out the whole circuit again and compares the position of every gate; the changes made through
+   * the circuit's methods are handled on their own, laying out and comparing only the gates from the changed one on.
+   * Call it after editing the circuit directly.
+   * Does nothing if the circuit is not drawn; redraws it all if the circuit, styles or registry were replaced.
+   *
+   * @param changed - (Optional) Gates changed in place, redrawn even if they did not move.
+   *
+   * @example
+   * ```typescript
+   * circuit.gates.push(new HadamardGate(0));
+   * renderer.update();
+   * ```
+   */
+  update(changed: IGate[] = []): void {
+    this.refresh(0, changed);
+  }
 
-    // Draw horizontal lines representing the qubits.
-    for (let i = 0; i < numQubits; i++) {
-      const y = qubitSpacing * (i + 1);
-      this.svg
-        .line(0, y, totalWidth, y)
-        .stroke({ width: lineWidth, color: lineColor });
-    }
+  /**
+   * Removes the diagram from the canvas. The renderer still follows the circuit, and draws it again on `draw()`.
+   */
+  clear(): void {
+    this.svg.clear();
+    this.drawing = undefined;
+    this.elements = [];
+    this.groupElements = [];
+  }
 
-    // Draw the gates on the qubit lines.
-    gates.forEach((gate, index) => {
-      const x = gateSpacing * (index + 1);
+  /**
+   * Removes the diagram and stops listening to the circuit's changes; removes the canvas too
+   * if the renderer created it in a container. Call `draw()` to draw the circuit again, without live updates.
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.clear();
+    this.listen(undefined);
+    if (this.ownsCanvas) {
+      this.svg.remove();
+    }
+  }
 
-      if (gate.name === "CNOT") {
-        // Draw a CNOT gate.
-        this.drawCNOTGate(gate, x);
-      } else if (gate.name.startsWith("R")) {
-        // Draw a rotation gate (Rx, Ry, Rz).
-        this.drawRotationGate(gate, x);
-      } else {
-        // Draw single-qubit gates.
-        gate.qubits.forEach((qubit) => {
-          const y = qubitSpacing * (qubit + 1) - gateHeight / 2;
-          // Draw the gate rectangle.
-          this.svg
-            .rect(gateWidth, gateHeight)
-            .move(x - gateWidth / 2, y)
-            .fill(gateFill)
-            .stroke({ width: gateStrokeWidth, color: gateStroke });
-          // Draw the gate label (e.g., H, X, Y, Z).
-          this.svg
-            .text(gate.name)
-            .move(x, y + gateHeight / 2)
-            .font({ size: fontSize, family: fontFamily, fill: fontColor })
-            .attr({ "text-anchor": "middle", "dominant-baseline": "middle" });
-        });
+  /**
+   * Returns the elements drawn for the gates of a column: the groups of its gates,
+   * and those of the collapsed gate groups drawn in it.
+   *
+   * @param column - The zero-based column index.
+   * @returns The elements, in gate order; empty if the circuit is not drawn or the column has no gates.
+   *
+   * @example
+   * ```typescript
+   * renderer.columnElements(2).forEach((group) => group.opacity(0.5));
+   * ```
+   */
+  columnElements(column: number): G[] {
+    const layout = this.drawing && this.drawing.layout;
+    if (!layout) {
+      return [];
+    }
+    const elements: G[] = [];
+    (layout.columns[column] || []).forEach((index) => {
+      if (this.elements[index]) {
+        elements.push(this.elements[index]);
       }
     });
+    layout.groups.forEach(({ block, index }) => {
+      if (block && block.column === column) {
+        elements.push(this.groupElements[index]);
+      }
+    });
+    return elements;
   }
 
   /**
-   * Draws a CNOT (Controlled-NOT) gate on the circuit.
-   * @param gate - The IGate object representing the CNOT gate.
-   * @param x - The x-coordinate where the gate should be drawn.
+   * Returns the index of the gate an element was drawn for.
    *
-   * @remarks
-   * The CNOT gate is represented by a control dot on the control qubit and a target symbol on the target qubit,
-   * connected by a vertical line.
-   */
-  private drawCNOTGate(gate: IGate, x: number): void {
-    const { qubitSpacing, gateStroke, gateStrokeWidth, lineColor, lineWidth } =
-      this.styles;
-    const controlQubit = gate.qubits[0];
-    const targetQubit = gate.qubits[1];
-    const y1 = qubitSpacing * (controlQubit + 1);
-    const y2 = qubitSpacing * (targetQubit + 1);
-
-    // Draw the control dot at the control qubit line.
-    this.svg
-      .circle(8)
-      .move(x - 4, y1 - 4)
-      .fill(gateStroke);
-
-    // Draw the vertical line connecting the control and target qubits.
-    this.svg.line(x, y1, x, y2).stroke({ width: lineWidth, color: lineColor });
-
-    // Draw the target qubit symbol (a circle with a plus sign inside).
-    const gateSize = 20;
-    this.svg
-      .circle(gateSize)
-      .move(x - gateSize / 2, y2 - gateSize / 2)
-      .fill("#fff")
-      .stroke({ width: gateStrokeWidth, color: gateStroke });
-
-    // Draw the horizontal line of the plus sign.
-    this.svg
-      .line(x - gateSize / 4, y2, x + gateSize / 4, y2)
-      .stroke({ width: gateStrokeWidth, color: gateStroke });
-
-    // Draw the vertical line of the plus sign.
-    this.svg
-      .line(x, y2 - gateSize / 4, x, y2 + gateSize / 4)
-      .stroke({ width: gateStrokeWidth, color: gateStroke });
-  }
-
-  /**
-   * Draws a rotation gate (Rx, Ry, Rz) on the circuit.
-   * @param gate - The IGate object representing the rotation gate.
-   * @param x - The x-coordinate where the gate should be drawn.
+   * @param element - A gate's group or any element inside it.
+   * @returns The index of the gate in `circuit.gates`, or -1 if the element does not belong to a gate.
    *
-   * @remarks
-   * Rotation gates are drawn as rectangles with the rotation axis and angle displayed as the label.
-   */
-  private drawRotationGate(gate: IGate, x: number): void {
-    const {
-      qubitSpacing,
-      gateWidth,
-      gateHeight,
-      gateFill,
-      gateStroke,
-      gateStrokeWidth,
-      fontSize,
-      fontFamily,
-      fontColor,
-    } = this.styles;
-    gate.qubits.forEach((qubit) => {
-      const y = qubitSpacing * (qubit + 1) - gateHeight / 2;
-      // Draw the gate rectangle.
-      this.svg
-        .rect(gateWidth, gateHeight)
-        .move(x - gateWidth / 2, y)
-        .fill(gateFill)
-        .stroke({ width: gateStrokeWidth, color: gateStroke });
-      // Draw the gate label with rotation information (e.g., Rx(90°)).
-      this.svg
-        .text(gate.name)
-        .move(x, y + gateHeight / 2)
-        .font({ size: fontSize - 2, family: fontFamily, fill: fontColor })
-        .attr({ "text-anchor": "middle", "dominant-baseline": "middle" });
+   * @example
+   * ```typescript
+   * renderer.svg.on("click", (event) => {
+   *   const index = renderer.gateIndexOf(SVG(event.target as SVGElement));
+   *   if (index !== -1) console.log(circuit.gates[index].name);
+   * });
+   * ```
+   */
+  gateIndexOf(element: Element): number {
+    for (let i = 0; i < this.elements.length; i++) {
+      const group = this.elements[i];
+      if (group && group.node.contains(element.node)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Brings the diagram up to date after the gates changed from an index on, as `update()` does for every gate.
+   */
+  private refresh(from: number, changed: IGate[]): void {
+    const drawing = this.drawing;
+    if (!drawing) {
+      return;
+    }
+    if (
+      drawing.circuit !== this.circuit ||
+      drawing.styles !== this.styles ||
+      drawing.registry !== this.registry
+    ) {
+      this.draw();
+      return;
+    }
+    this.render(drawing, from, changed);
+  }
+
+  /**
+   * Draws the parts of the layout that differ from what is on the canvas, after the gates changed from an index on.
+   * The layout is updated from that index, or laid out anew from the first gate; the gates before the first one
+   * laid out again keep their elements without being compared. The others are matched with their elements
+   * by identity, and keep them if their position is unchanged and they are not in `changed`.
+   */
+  private render(drawing: Drawing, from: number, changed: IGate[]): void {
+    const layout = drawing.layout && from > 0 ? drawing.layout : this.layout();
+    const start =
+      layout === drawing.layout ? layout.update(this.circuit, from) : 0;
+    drawing.layout = layout;
+    // Adjust the SVG canvas size based on the circuit dimensions.
+    this.svg.size(layout.width, layout.height);
+    this.renderFrame(drawing, layout, start > 0);
+
+    // Draw the frames of expanded groups under their gates, and collapsed groups as single boxes.
+    const overlayKey = overlaySignature(layout);
+    if (overlayKey !== drawing.overlayKey) {
+      drawing.groupLayer.clear();
+      drawing.annotationLayer.clear();
+      this.groupElements = [];
+      layout.groups.forEach((placement) => {
+        const group = drawing.groupLayer
+          .group()
+          .attr({ "data-group-index": placement.index });
+        this.groupElements[placement.index] = group;
+        if (placement.block) {
+          this.drawGate(this.context(group), placement.block);
+        } else {
+          drawGroupFrame(this.context(group), placement);
+        }
+      });
+      // Annotations are written over the gates.
+      layout.annotations.forEach((placement) =>
+        drawAnnotation(this.context(drawing.annotationLayer), placement)
+      );
+      drawing.overlayKey = overlayKey;
+    }
+
+    const hidden: boolean[] = [];
+    layout.groups.forEach(({ group, block }) => {
+      for (let i = Math.max(group.start, start); block && i < group.end; i++) {
+        hidden[i] = true;
+      }
     });
+
+    // Draw the gates on the qubit lines, each in its own group so it can be traced back to the gate.
+    // Gates keep their order through edits, so the previous elements are searched from the last one reused.
+    const previous = drawing.gates.splice(drawnBefore(drawing.gates, start));
+    const reused: boolean[] = [];
+    let cursor = 0;
+    this.elements.length = Math.min(this.elements.length, start);
+    for (let index = start; index < layout.placements.length; index++) {
+      const placement = layout.placements[index];
+      const { gate } = placement;
+      if (hidden[index]) {
+        continue;
+      }
+      const key = gateSignature(placement);
+      let drawn: DrawnGate | undefined;
+      if (changed.indexOf(gate) === -1) {
+        for (let i = cursor; i < previous.length; i++) {
+          if (previous[i].gate === gate) {
+            if (previous[i].key === key) {
+              drawn = previous[i];
+              reused[i] = true;
+              cursor = i + 1;
+            }
+            break;
+          }
+        }
+      }
+      if (drawn) {
+        if (drawn.index !== index) {
+          drawn.element.attr({ "data-gate-index": index });
+          drawn.index = index;
+        }
+      } else {
+        drawn = {
+          gate,
+          index,
+          key,
+          element: this.drawPlacedGate(drawing.gateLayer, placement),
+        };
+      }
+      drawing.gates.push(drawn);
+      this.elements[index] = drawn.element;
+    }
+    previous.forEach((drawn, i) => {
+      if (!reused[i]) {
+        drawn.element.remove();
+      }
+    });
+    // Drop the places of hidden gates left at the end.
+    while (
+      this.elements.length > 0 &&
+      !this.elements[this.elements.length - 1]
+    ) {
+      this.elements.length--;
+    }
   }
+
+  /**
+   * Draws what surrounds the gates where it differs from what is on the canvas: the background, the wires of each
+   * segment with its labels, register brackets and continuation markers, and the output labels.
+   * After a change of the gates, the segments before the last one drawn are left as they are,
+   * since only the last segment and the following ones can change.
+   */
+  private renderFrame(
+    drawing: Drawing,
+    layout: Layout,
+    gatesOnly: boolean
+  ): void {
+    const { segments } = layout;
+    if (drawing.background) {
+      drawing.background.size(layout.width, layout.height);
+    }
+
+    // The wire labels and register brackets are the same in every segment.
+    const marginKey = JSON.stringify([
+      layout.wireStart,
+      layout.numQubits,
+      layout.numClbits,
+      segmentItems(layout.labels, layout, 0),
+      segmentItems(layout.brackets, layout, 0),
+    ]);
+    if (marginKey !== drawing.marginKey) {
+      drawing.segments.forEach(({ element }) => element.remove());
+      drawing.segments = [];
+      drawing.marginKey = marginKey;
+    }
+
+    const first = gatesOnly
+      ? Math.max(Math.min(drawing.segments.length, segments.length) - 1, 0)
+      : 0;
+    for (let i = first; i < segments.length; i++) {
+      const key = JSON.stringify([segments[i], i === segments.length - 1]);
+      let drawn = drawing.segments[i];
+      if (!drawn) {
+        drawn = { key: "", element: drawing.frameLayer.group() };
+        drawing.segments.push(drawn);
+      }
+      if (drawn.key !== key) {
+        drawn.element.clear();
+        this.drawSegment(drawn.element, layout, segments[i]);
+        drawn.key = key;
+      }
+    }
+    drawing.segments
+      .splice(segments.length)
+      .forEach(({ element }) => element.remove());
+
+    const outputKey = JSON.stringify(layout.outputLabels);
+    if (outputKey !== drawing.outputKey) {
+      const context = this.context(drawing.outputs.clear());
+      layout.outputLabels.forEach((placement) =>
+        drawWireLabel(context, placement, "start")
+      );
+      drawing.outputKey = outputKey;
+    }
+  }
+
+  /**
+   * Draws a segment of the diagram: the register brackets and wire labels in its left margin,
+   * its qubit and classical wires, and the continuation markers where the wires are cut.
+   */
+  private drawSegment(
+    target: G,
+    layout: Layout,
+    { index, wireEnd }: SegmentPlacement
+  ): void {
+    const { lineColor, lineWidth } = this.styles;
+    const { wireStart, numQubits, numClbits } = layout;
+    const context = this.context(target);
+
+    // Label the wires and mark the registers in the left margin.
+    segmentItems(layout.brackets, layout, index).forEach((placement) =>
+      drawRegisterBracket(context, placement)
+    );
+    segmentItems(layout.labels, layout, index).forEach((placement) =>
+      drawWireLabel(context, placement, "end")
+    );
+
+    // Draw horizontal lines representing the qubits.
+    const ys: number[] = [];
+    for (let i = 0; i < numQubits; i++) {
+      const y = layout.qubitY(i, index);
+      ys.push(y);
+      target
+        .line(wireStart, y, wireEnd, y)
+        .stroke({ width: lineWidth, color: lineColor });
+    }
+
+    // Draw double lines representing the classical bits below the qubits.
+    for (let i = 0; i < numClbits; i++) {
+      const y = layout.clbitY(i, index);
+      ys.push(y);
+      drawDoubleLine(context, wireStart, y, wireEnd, y);
+    }
+
+    // Mark where the wires continue from the previous segment and into the next one.
+    if (index > 0) {
+      drawContinuation(context, wireStart + 6, ys);
+    }
+    if (index < layout.segments.length - 1) {
+      drawContinuation(context, wireEnd, ys);
+    }
+  }
+
+  /**
+   * Draws a gate of the circuit in a new group tagged with its index, with its classical condition if it has one.
+   */
+  private drawPlacedGate(target: G, placement: GatePlacement): G {
+    const group = target.group().attr({ "data-gate-index": placement.index });
+    if (placement.gate.condition) {
+      // Draw the classical condition first so the gate is drawn over its connector.
+      drawCondition(
+        this.context(group, gateStyleConfig(this.styles, placement.gate)),
+        placement
+      );
+    }
+    this.drawGate(this.context(group), placement);
+    return group;
+  }
+
+  /**
+   * Starts listening to the events of a circuit, and stops listening to the previous one.
+   */
+  private listen(circuit: Circuit | undefined): void {
+    if (this.listening === circuit) {
+      return;
+    }
+    if (this.listening) {
+      this.listening
+        .off("add", this.handleEdit)
+        .off("remove", this.handleEdit)
+        .off("move", this.handleMove)
+        .off("update", this.handleUpdate)
+        .off("change", this.handleChange);
+    }
+    if (circuit) {
+      circuit
+        .on("add", this.handleEdit)
+        .on("remove", this.handleEdit)
+        .on("move", this.handleMove)
+        .on("update", this.handleUpdate)
+        .on("change", this.handleChange);
+    }
+    this.listening = circuit;
+  }
+
+  /**
+   * Draws a single gate at its placement, choosing the drawing routine registered for the gate's kind.
+   * Gates without a registered drawer are drawn as labelled boxes.
+   * The drawer gets the context's styles with the overrides of the gate's kind and of the gate itself.
+   * @param context - The drawing context.
+   * @param placement - The layout placement of the gate.
+   */
+  private drawGate(context: DrawContext, placement: GatePlacement): void {
+    const { gate } = placement;
+    const drawer = this.registry.get(gate.kind) || drawBoxGate;
+    const styles = gateStyleConfig(context.styles, gate);
+    drawer(
+      styles === context.styles ? context : this.context(context.svg, styles),
+      placement
+    );
+  }
+
+  /**
+   * Returns the drawing context passed to the gate drawers.
+   * @param target - (Optional) The container to draw into. Defaults to the canvas.
+   * @param styles - (Optional) The styles to draw with. Defaults to the renderer's styles.
+   */
+  private context(
+    target: Container = this.svg,
+    styles: StyleConfig = this.styles
+  ): DrawContext {
+    const context: DrawContext = {
+      svg: target,
+      styles,
+      drawGate: (placement) => this.drawGate(context, placement),
+    };
+    return context;
+  }
+}
+
+/**
+ * What a renderer has drawn, kept to tell which parts of the diagram a change affects.
+ */
+interface Drawing {
+  /**
+   * The circuit, styles and registry the diagram was drawn with; replacing any of them redraws it all.
+   */
+  circuit: Circuit;
+  styles: StyleConfig;
+  registry: GateRegistry;
+
+  /**
+   * The layers of the diagram, bottom to top: the wires and labels, the groups, the gates and the annotations.
+   */
+  frameLayer: G;
+  groupLayer: G;
+  gateLayer: G;
+  annotationLayer: G;
+
+  /**
+   * The background of the diagram, unless the `backgroundColor` style is "none", and the group of its output labels,
+   * both in the frame layer.
+   */
+  background?: Rect;
+  outputs: G;
+
+  /**
+   * The layout the diagram was last drawn from, updated in place as the gates change.
+   */
+  layout?: Layout;
+
+  /**
+   * The signatures of the left margin of the segments, and of the output labels, as drawn.
+   */
+  marginKey: string;
+  outputKey: string;
+
+  /**
+   * The signature of the layout the groups and annotations were drawn from.
+   */
+  overlayKey: string;
+
+  /**
+   * The drawn segments, from the top.
+   */
+  segments: DrawnSegment[];
+
+  /**
+   * The drawn gates, in gate order.
+   */
+  gates: DrawnGate[];
+}
+
+/**
+ * A segment of the diagram drawn on the canvas, with its wires and labels.
+ */
+interface DrawnSegment {
+  /**
+   * The signature of the segment's placement when it was drawn.
+   */
+  key: string;
+  element: G;
+}
+
+/**
+ * A gate drawn on the canvas.
+ */
+interface DrawnGate {
+  gate: IGate;
+  index: number;
+
+  /**
+   * The signature of the placement the gate was drawn at.
+   */
+  key: string;
+  element: G;
+}
+
+/**
+ * Returns a signature of where a gate is drawn: gates drawn at equal signatures look the same.
+ */
+function gateSignature(placement: GatePlacement): string {
+  const { x, ys, clbitYs, conditionYs, minQubit, maxQubit, minRow, maxRow } =
+    placement;
+  return JSON.stringify([
+    x,
+    ys,
+    clbitYs,
+    conditionYs,
+    minQubit,
+    maxQubit,
+    minRow,
+    maxRow,
+  ]);
+}
+
+/**
+ * Returns the labels or brackets of a layout written in one of its segments; each segment has the same ones.
+ */
+function segmentItems<T>(items: T[], layout: Layout, segment: number): T[] {
+  const count = items.length / layout.segments.length;
+  return items.slice(segment * count, (segment + 1) * count);
+}
+
+/**
+ * Returns how many drawn gates, in gate order, come before a gate index.
+ */
+function drawnBefore(gates: DrawnGate[], index: number): number {
+  let low = 0;
+  let high = gates.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (gates[middle].index < index) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Returns a signature of the groups and annotations of a layout.
+ */
+function overlaySignature(layout: Layout): string {
+  return JSON.stringify([
+    layout.groups.map((placement) => ({
+      ...placement,
+      block: placement.block && [
+        placement.block.gate.name,
+        gateSignature(placement.block),
+      ],
+    })),
+    layout.annotations,
+  ]);
 }
@@ -0,0 +1,348 @@
+/**
+ * @file Simulator.ts
+ * @description Implements a statevector simulator running circuits built from the gate classes.
+ */
+
+import { Circuit } from "./Circuit";
+import { Complex, complex, Matrix } from "./Complex";
+import { IGate } from "./gates/IGate";
+import { MeasureGate } from "./gates/MeasureGate";
+import { ResetGate } from "./gates/ResetGate";
+import { BarrierGate } from "./gates/BarrierGate";
+import { PauliXGate } from "./gates/PauliXGate";
+
+/**
+ * The largest number of qubits the simulator accepts; the state of 24 qubits takes 256 MB.
+ */
+const MAX_QUBITS = 24;
+
+/**
+ * The state of a register of qubits, stored as 2^n complex amplitudes.
+ * Basis states are indexed little endian: qubit i is bit i of the index, so for two qubits
+ * the amplitude at index 1 (binary 01) is that of qubit 0 being |1⟩ and qubit 1 being |0⟩.
+ */
+export class StateVector {
+  /**
+   * The number of qubits.
+   */
+  numQubits: number;
+
+  /**
+   * The real parts of the amplitudes, indexed by basis state.
+   */
+  real: Float64Array;
+
+  /**
+   * The imaginary parts of the amplitudes, indexed by basis state.
+   */
+  imag: Float64Array;
+
+  /**
+   * Creates a state of `numQubits` qubits, all in the |0⟩ state.
+   *
+   * @param numQubits - The number of qubits.
+   *
+   * @throws {Error} Will throw an error if the number of qubits is negative or larger than 24.
+   */
+  constructor(numQubits: number) {
+    if (!Number.isInteger(numQubits) || numQubits < 0) {
+      throw new Error("Number of qubits must be a non-negative integer.");
+    }
+    if (numQubits > MAX_QUBITS) {
+      throw new Error(
+        `Cannot simulate ${numQubits} qubits; the simulator supports at most ${MAX_QUBITS}.`
+      );
+    }
+    this.numQubits = numQubits;
+    this.real = new Float64Array(1 << numQubits);
+    this.imag = new Float64Array(1 << numQubits);
+    this.real[0] = 1;
+  }
+
+  /**
+   * Returns the amplitude of a basis state.
+   *
+   * @param index - The index of the basis state.
+   */
+  amplitude(index: number): Complex {
+    return complex(this.real[index], this.imag[index]);
+  }
+
+  /**
+   * Returns the amplitudes of all basis states, indexed by basis state.
+   */
+  amplitudes(): Complex[] {
+    const amplitudes: Complex[] = [];
+    for (let i = 0; i < this.real.length; i++) {
+      amplitudes.push(this.amplitude(i));
+    }
+    return amplitudes;
+  }
+
+  /**
+   * Returns the probabilities of the outcomes of measuring some of the qubits, or all of them.
+   *
+   * @param qubits - (Optional) The measured qubits. Defaults to all qubits, in order.
+   * @returns The probability of every outcome, indexed little endian: `qubits[k]` is bit k of the index.
+   *
+   * @example
+   * ```typescript
+   * state.probabilities();     // [P(00), P(01), P(10), P(11)] for two qubits
+   * state.probabilities([1]);  // [P(qubit 1 is 0), P(qubit 1 is 1)]
+   * ```
+   */
+  probabilities(qubits?: number[]): number[] {
+    const measured = qubits || this.range();
+    measured.forEach((qubit) => this.checkQubit(qubit));
+    const probabilities: number[] = [];
+    for (let i = 0; i < 1 << measured.length; i++) {
+      probabilities.push(0);
+    }
+    for (let i = 0; i < this.real.length; i++) {
+      let outcome = 0;
+      measured.forEach((qubit, k) => (outcome |= ((i >> qubit) & 1) << k));
+      probabilities[outcome] +=
+        this.real[i] * this.real[i] + this.imag[i] * this.imag[i];
+    }
+    return probabilities;
+  }
+
+  /**
+   * Applies a unitary matrix to some of the qubits.
+   *
+   * @param matrix - The 2^k × 2^k matrix; `qubits[0]` corresponds to the most significant bit of its indices.
+   * @param qubits - The k distinct qubits the matrix acts on.
+   *
+   * @throws {Error} Will throw an error if a qubit is out of range or repeated, or if the matrix size does not match.
+   */
+  applyMatrix(matrix: Matrix, qubits: number[]): void {
+    qubits.forEach((qubit) => this.checkQubit(qubit));
+    if (qubits.some((qubit, i) => qubits.indexOf(qubit) !== i)) {
+      throw new Error("A matrix must act on distinct qubits.");
+    }
+    const size = 1 << qubits.length;
+    if (matrix.length !== size || matrix.some((row) => row.length !== size)) {
+      throw new Error(
+        `A matrix acting on ${qubits.length} qubit(s) must be ${size}×${size}.`
+      );
+    }
+
+    // The offset of every basis state of the gate's qubits within the state vector.
+    const offsets: number[] = [];
+    for (let j = 0; j < size; j++) {
+      let offset = 0;
+      qubits.forEach((qubit, k) => {
+        if ((j >> (qubits.length - 1 - k)) & 1) {
+          offset |= 1 << qubit;
+        }
+      });
+      offsets.push(offset);
+    }
+    const mask = offsets[size - 1];
+
+    // Keep only the non-zero entries of the rows that differ from the identity.
+    const rows: {
+      row: number;
+      columns: number[];
+      re: number[];
+      im: number[];
+    }[] = [];
+    matrix.forEach((entries, row) => {
+      const sparse = {
+        row,
+        columns: [] as number[],
+        re: [] as number[],
+        im: [] as number[],
+      };
+      entries.forEach((entry, column) => {
+        if (entry.re !== 0 || entry.im !== 0) {
+          sparse.columns.push(column);
+          sparse.re.push(entry.re);
+          sparse.im.push(entry.im);
+        }
+      });
+      const isIdentityRow =
+        sparse.columns.length === 1 &&
+        sparse.columns[0] === row &&
+        sparse.re[0] === 1 &&
+        sparse.im[0] === 0;
+      if (!isIdentityRow) {
+        rows.push(sparse);
+      }
+    });
+
+    const { real, imag } = this;
+    const inRe = new Float64Array(size);
+    const inIm = new Float64Array(size);
+    for (let base = 0; base < real.length; base++) {
+      if (base & mask) {
+        continue;
+      }
+      for (let j = 0; j < size; j++) {
+        inRe[j] = real[base | offsets[j]];
+        inIm[j] = imag[base | offsets[j]];
+      }
+      for (let r = 0; r < rows.length; r++) {
+        const { row, columns, re, im } = rows[r];
+        let sumRe = 0;
+        let sumIm = 0;
+        for (let c = 0; c < columns.length; c++) {
+          const column = columns[c];
+          sumRe += re[c] * inRe[column] - im[c] * inIm[column];
+          sumIm += re[c] * inIm[column] + im[c] * inRe[column];
+        }
+        real[base | offsets[row]] = sumRe;
+        imag[base | offsets[row]] = sumIm;
+      }
+    }
+  }
+
+  /**
+   * Measures a qubit in the computational basis and collapses the state onto the outcome.
+   *
+   * @param qubit - The qubit to measure.
+   * @param random - (Optional) A source of uniform random numbers in [0, 1). Defaults to `Math.random`.
+   * @returns The outcome, 0 or 1.
+   */
+  measure(qubit: number, random: () => number = Math.random): number {
+    const [, probabilityOfOne] = this.probabilities([qubit]);
+    const outcome = random() < probabilityOfOne ? 1 : 0;
+    const probability = outcome ? probabilityOfOne : 1 - probabilityOfOne;
+    const scale = 1 / Math.sqrt(probability);
+    for (let i = 0; i < this.real.length; i++) {
+      if (((i >> qubit) & 1) === outcome) {
+        this.real[i] *= scale;
+        this.imag[i] *= scale;
+      } else {
+        this.real[i] = 0;
+        this.imag[i] = 0;
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * Returns the indices of all qubits, in order.
+   */
+  private range(): number[] {
+    const qubits: number[] = [];
+    for (let i = 0; i < this.numQubits; i++) {
+      qubits.push(i);
+    }
+    return qubits;
+  }
+
+  /**
+   * Throws if a qubit index is not a qubit of this state.
+   */
+  private checkQubit(qubit: number): void {
+    if (!Number.isInteger(qubit) || qubit < 0 || qubit >= this.numQubits) {
+      throw new Error(
+        `Qubit index ${qubit} is out of range for ${this.numQubits} qubit(s).`
+      );
+    }
+  }
+}
+
+/**
+ * Options controlling a simulation.
+ */
+export interface SimulationOptions {
+  /**
+   * A source of uniform random numbers in [0, 1), used to sample measurement outcomes.
+   * Pass a seeded generator for reproducible runs. Defaults to `Math.random`.
+   */
+  random?: () => number;
+}
+
+/**
+ * The outcome of running a circuit.
+ */
+export interface SimulationResult {
+  /**
+   * The final state of the qubits.
+   */
+  state: StateVector;
+
+  /**
+   * The final value (0 or 1) of every classical bit, indexed by classical bit.
+   */
+  clbits: number[];
+}
+
+/**
+ * Runs a circuit on a statevector simulator, starting with every qubit in |0⟩ and every classical bit at 0.
+ * Unitary gates are applied through their `matrix()`. Measurements sample an outcome, collapse the state and
+ * store the outcome in their classical bit; resets measure the qubit and flip it back to |0⟩ if needed.
+ * Barriers have no effect. Classically controlled gates are applied only when their condition holds.
+ *
+ * @param circuit - The circuit to run.
+ * @param options - (Optional) Simulation options.
+ * @returns The final state and classical bits.
+ *
+ * @throws {Error} Will throw an error if the circuit has more than 24 qubits, if a gate cannot be simulated
+ * because it does not implement `matrix()`, or if a gate has unbound symbolic parameters.
+ *
+ * @example
+ * ```typescript
+ * const circuit = new Circuit(2);
+ * circuit.addGate(new HadamardGate(0));
+ * circuit.addGate(new CNOTGate(0, 1));
+ * simulate(circuit).state.probabilities(); // [0.5, 0, 0, 0.5]
+ * ```
+ */
+export function simulate(
+  circuit: Circuit,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const random = options.random || Math.random;
+  const state = new StateVector(circuit.numQubits);
+  const clbits: number[] = [];
+  for (let i = 0; i < circuit.numClbits; i++) {
+    clbits.push(0);
+  }
+
+  circuit.gates.forEach((gate, index) => {
+    const unbound =
+      typeof gate.parameters === "function" ? gate.parameters() : [];
+    if (unbound.length > 0) {
+      throw new Error(
+        `Gate '${
+          gate.name
+        }' at index ${index} has unbound parameter(s) ${unbound.join(
+          ", "
+        )}; bind them with circuit.bind() before simulating.`
+      );
+    }
+    if (gate.condition && !conditionHolds(gate, clbits)) {
+      return;
+    }
+    if (gate instanceof MeasureGate) {
+      clbits[gate.clbits[0]] = state.measure(gate.qubits[0], random);
+    } else if (gate instanceof ResetGate) {
+      if (state.measure(gate.qubits[0], random) === 1) {
+        state.applyMatrix(new PauliXGate(0).matrix(), gate.qubits);
+      }
+    } else if (gate instanceof BarrierGate) {
+      // Barriers only separate the stages of the circuit and do not change the state.
+    } else if (typeof gate.matrix === "function") {
+      state.applyMatrix(gate.matrix(), gate.qubits);
+    } else {
+      throw new Error(
+        `Gate '${gate.name}' at index ${index} cannot be simulated because it does not implement matrix().`
+      );
+    }
+  });
+
+  return { state, clbits };
+}
+
+/**
+ * Returns whether the classical bits hold the value a gate's condition expects (little endian over its bits).
+ */
+function conditionHolds(gate: IGate, clbits: number[]): boolean {
+  const { clbits: bits, value } = gate.condition!;
+  return bits.every(
+    (bit, i) => clbits[bit] === Math.floor(value / Math.pow(2, i)) % 2
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * @file angles.ts
+ * @description Formats gate angles, numeric or symbolic, as degrees, radians or fractions of π.
+ */
+
+import { ExpressionFormatter, ParameterValue } from "./Parameter";
+
+/**
+ * The units angles can be written in:
+ * - "pi": fractions of π such as "π/4" or "-3π/2", falling back to radians for other angles;
+ * - "degrees": degrees such as "45°";
+ * - "radians": plain radians such as "0.79".
+ */
+export type AngleUnit = "pi" | "degrees" | "radians";
+
+/**
+ * Options controlling how angles are written.
+ */
+export interface AngleFormatOptions {
+  /**
+   * The unit angles are written in.
+   * @default "pi"
+   */
+  unit?: AngleUnit;
+
+  /**
+   * The largest number of digits after the decimal point; trailing zeros are dropped.
+   * @default 2
+   */
+  precision?: number;
+}
+
+/**
+ * The largest denominator tried when writing an angle as a fraction of π.
+ */
+const MAX_PI_DENOMINATOR = 16;
+
+/**
+ * Writes an angle as a fraction of π when it is one with a denominator up to 16.
+ *
+ * @param angle - The angle in radians.
+ * @returns The numerator and denominator of angle / π, or `undefined` if the angle is not such a fraction.
+ *
+ * @example
+ * ```typescript
+ * piFraction(-3 * Math.PI / 4); // { numerator: -3, denominator: 4 }
+ * piFraction(1);                // undefined
+ * ```
+ */
+export function piFraction(
+  angle: number
+): { numerator: number; denominator: number } | undefined {
+  const ratio = angle / Math.PI;
+  for (let denominator = 1; denominator <= MAX_PI_DENOMINATOR; denominator++) {
+    const numerator = Math.round(ratio * denominator);
+    if (Math.abs(ratio * denominator - numerator) <= 1e-9) {
+      return { numerator, denominator };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a numeric angle.
+ *
+ * @param angle - The angle in radians.
+ * @param options - (Optional) The unit and precision. Defaults to fractions of π with 2 decimals.
+ * @returns The formatted angle.
+ *
+ * @example
+ * ```typescript
+ * formatAngle(Math.PI / 4);                        // "π/4"
+ * formatAngle(Math.PI / 4, { unit: "degrees" });   // "45°"
+ * formatAngle(Math.PI / 4, { unit: "radians" });   // "0.79"
+ * formatAngle(0.3);                                // "0.3"
+ * ```
+ */
+export function formatAngle(
+  angle: number,
+  options: AngleFormatOptions = {}
+): string {
+  const unit = options.unit || "pi";
+  const precision = options.precision === undefined ? 2 : options.precision;
+  if (unit === "degrees") {
+    return `${formatNumber((angle * 180) / Math.PI, precision)}°`;
+  }
+  const fraction = unit === "pi" ? piFraction(angle) : undefined;
+  if (!fraction) {
+    return formatNumber(angle, precision);
+  }
+  const { numerator, denominator } = fraction;
+  if (numerator === 0) {
+    return "0";
+  }
+  const sign = numerator < 0 ? "-" : "";
+  const magnitude = Math.abs(numerator);
+  const pi = magnitude === 1 ? "π" : `${magnitude}π`;
+  return denominator === 1 ? `${sign}${pi}` : `${sign}${pi}/${denominator}`;
+}
+
+/**
+ * Formats a gate parameter for display: numbers with `formatAngle()`, and symbolic expressions with their
+ * parameter names, numeric terms as angles and numeric factors as plain numbers (e.g. "2·θ + π/2").
+ *
+ * @param value - The parameter value.
+ * @param options - (Optional) The unit and precision of numbers.
+ * @returns The formatted parameter.
+ */
+export function formatParameter(
+  value: ParameterValue,
+  options: AngleFormatOptions = {}
+): string {
+  if (typeof value === "number") {
+    return formatAngle(value, options);
+  }
+  const precision = options.precision === undefined ? 2 : options.precision;
+  const formatter: ExpressionFormatter = {
+    angle: (angle) => formatAngle(angle, options),
+    number: (number) => formatNumber(number, precision),
+    parameter: (name) => name,
+    times: "·",
+  };
+  return value.format(formatter);
+}
+
+/**
+ * Rounds a number to a number of decimals and drops trailing zeros, e.g. 0.5 rather than "0.50".
+ */
+function formatNumber(value: number, precision: number): string {
+  const rounded = Number(value.toFixed(precision));
+  return String(rounded === 0 ? 0 : rounded);
+}
@@ -0,0 +1,11 @@
+/**
+ * @file bin.ts
+ * @description The executable of the `quantum-circuit-drawer` command: runs the command with the arguments
+ * of the process and exits with its status. Kept apart from cli.ts so that importing the command runs nothing.
+ */
+
+import { main } from "./cli";
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
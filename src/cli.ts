@@ -0,0 +1,379 @@
+/**
+ * @file cli.ts
+ * @description The `quantum-circuit-drawer` command: renders a circuit read from an OpenQASM 2.0 program or a JSON file
+ * to SVG, text, LaTeX, PNG or PDF, for Makefiles and scripts. The executable (bin.ts) runs `main()`.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import { Circuit } from "./Circuit";
+import { StyleConfig } from "./styles";
+import { Themes, ThemeName, themeStyles } from "./themes";
+import { parseQASM2 } from "./formats/qasm2";
+import { circuitFromJSON, stylesFromJSON } from "./formats/json";
+import { renderToSVGString } from "./formats/svg";
+import { renderToPNG } from "./formats/png";
+import { renderToPDF } from "./formats/pdf";
+import { renderToText } from "./formats/text";
+import { toQuantikz } from "./formats/quantikz";
+
+/**
+ * The output formats of the command.
+ */
+type OutputFormat = "svg" | "text" | "latex" | "png" | "pdf";
+
+/**
+ * The input formats of the command.
+ */
+type InputFormat = "qasm" | "json";
+
+/**
+ * The options of the command, as given on the command line.
+ */
+interface CLIOptions {
+  input: string;
+  inputFormat?: InputFormat;
+  output?: string;
+  format?: OutputFormat;
+  theme?: ThemeName;
+  style?: string;
+  wrap?: number;
+  scale?: number;
+  dpi?: number;
+  help: boolean;
+}
+
+/**
+ * The output format of each output file extension.
+ */
+const EXTENSION_FORMATS: { [extension: string]: OutputFormat } = {
+  svg: "svg",
+  txt: "text",
+  tex: "latex",
+  png: "png",
+  pdf: "pdf",
+};
+
+const USAGE = `Usage: quantum-circuit-drawer [options] [input]
+
+Renders a circuit read from an OpenQASM 2.0 program or a JSON file saved by the library.
+Reads standard input when no input file, or "-", is given.
+
+Options:
+  -o, --output <path>         Write to a file instead of standard output.
+  -f, --format <format>       The output format: svg, text, latex, png or pdf.
+                              Defaults to the extension of the output file, or svg.
+  -i, --input-format <format> The input format: qasm or json. Defaults to the extension
+                              of the input file, or to what its content looks like.
+  -t, --theme <name>          The theme: light, dark, high-contrast, print or textbook.
+  -s, --style <path>          A JSON file of styles overriding those of the theme.
+  -w, --wrap <width>          Wrap long circuits into rows at most this wide, in pixels,
+                              or in characters for text output.
+      --scale <factor>        The scale of PNG output. Defaults to 1.
+      --dpi <resolution>      The resolution of PNG output, in dots per inch.
+  -h, --help                  Show this help.
+`;
+
+/**
+ * Error in the command line, reported with the usage.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+/**
+ * Runs the command.
+ *
+ * @param args - The command-line arguments, without the node executable and the script.
+ * @returns A promise resolving to the exit code: 0 on success, 1 if the circuit cannot be read or rendered,
+ * 2 if the command line is invalid.
+ *
+ * @example
+ * ```sh
+ * quantum-circuit-drawer bell.qasm -o bell.svg --theme dark
+ * quantum-circuit-drawer circuit.json -f text --wrap 80
+ * cat bell.qasm | quantum-circuit-drawer -f latex > bell.tex
+ * ```
+ */
+export async function main(args: string[]): Promise<number> {
+  let options: CLIOptions;
+  try {
+    options = parseArguments(args);
+  } catch (error) {
+    process.stderr.write(
+      `quantum-circuit-drawer: ${(error as Error).message}\n\n${USAGE}`
+    );
+    return 2;
+  }
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  try {
+    const source =
+      options.input === "-"
+        ? await readStandardInput()
+        : await readFile(options.input, "utf8");
+    const circuit = readCircuit(source, inputFormat(options, source));
+    const styles = await loadStyles(options);
+    const output = await render(
+      circuit,
+      outputFormat(options),
+      styles,
+      options
+    );
+    if (options.output) {
+      await writeFile(options.output, output);
+    } else {
+      process.stdout.write(output);
+    }
+    return 0;
+  } catch (error) {
+    process.stderr.write(
+      `quantum-circuit-drawer: ${(error as Error).message}\n`
+    );
+    return 1;
+  }
+}
+
+/**
+ * Parses the command-line arguments.
+ */
+function parseArguments(args: string[]): CLIOptions {
+  const options: CLIOptions = { input: "-", help: false };
+  const inputs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // Accept "--name=value" as well as "--name value".
+    const equals = arg.indexOf("=");
+    const name =
+      arg.startsWith("--") && equals !== -1 ? arg.slice(0, equals) : arg;
+    const value = (): string => {
+      if (name !== arg) {
+        return arg.slice(equals + 1);
+      }
+      if (i + 1 >= args.length) {
+        throw new UsageError(`The option ${arg} needs a value.`);
+      }
+      return args[++i];
+    };
+
+    switch (name) {
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "-o":
+      case "--output":
+        options.output = value();
+        break;
+      case "-f":
+      case "--format":
+        options.format = oneOf<OutputFormat>(
+          value(),
+          ["svg", "text", "latex", "png", "pdf"],
+          name
+        );
+        break;
+      case "-i":
+      case "--input-format":
+        options.inputFormat = oneOf<InputFormat>(
+          value(),
+          ["qasm", "json"],
+          name
+        );
+        break;
+      case "-t":
+      case "--theme":
+        options.theme = oneOf<ThemeName>(
+          value(),
+          Object.keys(Themes) as ThemeName[],
+          name
+        );
+        break;
+      case "-s":
+      case "--style":
+        options.style = value();
+        break;
+      case "-w":
+      case "--wrap":
+        options.wrap = positiveNumber(value(), name);
+        break;
+      case "--scale":
+        options.scale = positiveNumber(value(), name);
+        break;
+      case "--dpi":
+        options.dpi = positiveNumber(value(), name);
+        break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") {
+          throw new UsageError(`Unknown option ${arg}.`);
+        }
+        inputs.push(arg);
+    }
+  }
+  if (inputs.length > 1) {
+    throw new UsageError(
+      `Expected at most one input file, but got ${inputs.length}.`
+    );
+  }
+  if (inputs.length === 1) {
+    options.input = inputs[0];
+  }
+  return options;
+}
+
+/**
+ * Checks that the value of an option is one of the allowed values.
+ */
+function oneOf<T extends string>(
+  value: string,
+  allowed: T[],
+  option: string
+): T {
+  if (allowed.indexOf(value as T) === -1) {
+    throw new UsageError(
+      `The option ${option} must be one of ${allowed.join(
+        ", "
+      )}, but is '${value}'.`
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Checks that the value of an option is a positive number.
+ */
+function positiveNumber(value: string, option: string): number {
+  const number = Number(value);
+  if (value.trim() === "" || !(number > 0) || !isFinite(number)) {
+    throw new UsageError(
+      `The option ${option} must be a positive number, but is '${value}'.`
+    );
+  }
+  return number;
+}
+
+/**
+ * Reads all of standard input as text.
+ */
+function readStandardInput(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on("data", (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on("end", () =>
+      resolve(Buffer.concat(chunks).toString("utf8"))
+    );
+    process.stdin.on("error", reject);
+  });
+}
+
+/**
+ * Returns the format of the input: the one given, or the one of the file extension,
+ * or JSON if the content starts with "{" and OpenQASM otherwise.
+ */
+function inputFormat(options: CLIOptions, source: string): InputFormat {
+  if (options.inputFormat) {
+    return options.inputFormat;
+  }
+  const extension = extensionOf(options.input);
+  if (extension === "json" || extension === "qasm") {
+    return extension;
+  }
+  return source.trim().charAt(0) === "{" ? "json" : "qasm";
+}
+
+/**
+ * Returns the output format: the one given, or the one of the output file extension, or SVG.
+ */
+function outputFormat(options: CLIOptions): OutputFormat {
+  if (options.format) {
+    return options.format;
+  }
+  const extension = options.output ? extensionOf(options.output) : "";
+  return Object.prototype.hasOwnProperty.call(EXTENSION_FORMATS, extension)
+    ? EXTENSION_FORMATS[extension]
+    : "svg";
+}
+
+/**
+ * Returns the lowercase extension of a path, without the dot; empty if it has none.
+ */
+function extensionOf(path: string): string {
+  const match = /\.([^./\\]+)$/.exec(path);
+  return match ? match[1].toLowerCase() : "";
+}
+
+/**
+ * Loads a circuit from its source.
+ */
+function readCircuit(source: string, format: InputFormat): Circuit {
+  return format === "json" ? circuitFromJSON(source) : parseQASM2(source);
+}
+
+/**
+ * Returns the styles given by the theme, the style file and the wrapping width.
+ */
+async function loadStyles(options: CLIOptions): Promise<Partial<StyleConfig>> {
+  let styles: Partial<StyleConfig> = {};
+  if (options.style) {
+    const text = await readFile(options.style, "utf8");
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error(
+        `${options.style}: Invalid JSON: ${(error as Error).message}`
+      );
+    }
+    try {
+      styles = stylesFromJSON(data);
+    } catch (error) {
+      throw new Error(`${options.style}: ${(error as Error).message}`);
+    }
+  }
+  if (options.theme) {
+    styles = themeStyles(options.theme, styles);
+  }
+  if (options.wrap !== undefined) {
+    styles = { ...styles, wrapWidth: options.wrap };
+  }
+  return styles;
+}
+
+/**
+ * Renders a circuit in an output format.
+ */
+async function render(
+  circuit: Circuit,
+  format: OutputFormat,
+  styles: Partial<StyleConfig>,
+  options: CLIOptions
+): Promise<string | Buffer> {
+  switch (format) {
+    case "svg":
+      return renderToSVGString(circuit, styles);
+    case "png":
+      return renderToPNG(circuit, styles, {
+        scale: options.scale,
+        dpi: options.dpi,
+      });
+    case "pdf":
+      return renderToPDF(circuit, styles);
+    case "text":
+      return `${renderToText(circuit, {
+        maxWidth: options.wrap,
+        angleUnit: styles.angleUnit,
+        anglePrecision: styles.anglePrecision,
+      })}\n`;
+    default:
+      return toQuantikz(circuit, {
+        angleUnit: styles.angleUnit,
+        anglePrecision: styles.anglePrecision,
+      });
+  }
+}
@@ -0,0 +1,658 @@
+/**
+ * @file drawers.ts
+ * @description Implements the drawing routines of the built-in gate kinds, plus shared helpers for custom drawers.
+ */
+
+import {
+  GatePlacement,
+  GroupPlacement,
+  AnnotationPlacement,
+  WireLabelPlacement,
+  BracketPlacement,
+} from "./Layout";
+import { DrawContext } from "./GateRegistry";
+import { ControlledGate } from "./gates/ControlledGate";
+import { MultiQubitGate } from "./gates/MultiQubitGate";
+import { ISwapGate } from "./gates/ISwapGate";
+import { IGate } from "./gates/IGate";
+import { BarrierGate } from "./gates/BarrierGate";
+
+/**
+ * Draws a labelled gate rectangle centered on a wire.
+ * @param context - The drawing context.
+ * @param x - The x-coordinate of the center of the rectangle.
+ * @param wireY - The y-coordinate of the wire the rectangle is drawn on.
+ * @param label - The text drawn inside the rectangle.
+ * @param fontSize - (Optional) The font size of the label. Defaults to the configured font size.
+ */
+export function drawLabelledBox(
+  context: DrawContext,
+  x: number,
+  wireY: number,
+  label: string,
+  fontSize = context.styles.fontSize
+): void {
+  const {
+    gateWidth,
+    gateHeight,
+    gateFill,
+    gateStroke,
+    gateStrokeWidth,
+    fontFamily,
+    fontColor,
+  } = context.styles;
+  const y = wireY - gateHeight / 2;
+
+  // Draw the gate rectangle.
+  context.svg
+    .rect(gateWidth, gateHeight)
+    .move(x - gateWidth / 2, y)
+    .fill(gateFill)
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+  // Draw the gate label.
+  context.svg
+    .text(label)
+    .move(x, y + gateHeight / 2)
+    .font({ size: fontSize, family: fontFamily, fill: fontColor })
+    .attr({ "text-anchor": "middle", "dominant-baseline": "middle" });
+}
+
+/**
+ * Draws a horizontal or vertical double line, the notation for classical bits.
+ * @param context - The drawing context.
+ * @param x1 - The x-coordinate of the start point.
+ * @param y1 - The y-coordinate of the start point.
+ * @param x2 - The x-coordinate of the end point.
+ * @param y2 - The y-coordinate of the end point.
+ */
+export function drawDoubleLine(
+  context: DrawContext,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): void {
+  const { lineColor, lineWidth } = context.styles;
+  const gap = 1.5;
+  const vertical = x1 === x2;
+  const dx = vertical ? gap : 0;
+  const dy = vertical ? 0 : gap;
+
+  context.svg
+    .line(x1 - dx, y1 - dy, x2 - dx, y2 - dy)
+    .stroke({ width: lineWidth / 2, color: lineColor });
+  context.svg
+    .line(x1 + dx, y1 + dy, x2 + dx, y2 + dy)
+    .stroke({ width: lineWidth / 2, color: lineColor });
+}
+
+/**
+ * Returns the label drawn for a gate: its `label()` with the angle unit and precision of the styles,
+ * or its name for gates without angles.
+ * @param context - The drawing context.
+ * @param gate - The gate.
+ */
+export function gateLabel(context: DrawContext, gate: IGate): string {
+  const { angleUnit, anglePrecision } = context.styles;
+  return typeof gate.label === "function"
+    ? gate.label({ unit: angleUnit, precision: anglePrecision })
+    : gate.name;
+}
+
+/**
+ * Draws single-qubit gates (e.g., H, X, Y, Z) as labelled rectangles on each of the gate's qubits.
+ * This is also the fallback for gates whose kind has no registered drawer.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the gate.
+ */
+export function drawBoxGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  placement.ys.forEach((y) =>
+    drawLabelledBox(context, placement.x, y, gateLabel(context, placement.gate))
+  );
+}
+
+/**
+ * Draws a rotation gate (Rx, Ry, Rz) on the circuit.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the rotation gate.
+ *
+ * @remarks
+ * Rotation gates are drawn as rectangles with the rotation axis and angle displayed as the label,
+ * in a slightly smaller font to fit the angle.
+ */
+export function drawRotationGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  placement.ys.forEach((y) =>
+    drawLabelledBox(
+      context,
+      placement.x,
+      y,
+      gateLabel(context, placement.gate),
+      context.styles.fontSize - 2
+    )
+  );
+}
+
+/**
+ * Draws the target symbol of a controlled-NOT: a circle with a plus sign inside.
+ * @param context - The drawing context.
+ * @param x - The x-coordinate of the center of the symbol.
+ * @param y - The y-coordinate of the target qubit line.
+ */
+function drawTargetSymbol(context: DrawContext, x: number, y: number): void {
+  const { gateStroke, gateStrokeWidth, targetSize, targetFill } =
+    context.styles;
+
+  // Draw the target circle.
+  context.svg
+    .circle(targetSize)
+    .move(x - targetSize / 2, y - targetSize / 2)
+    .fill(targetFill)
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+
+  // Draw the horizontal line of the plus sign.
+  context.svg
+    .line(x - targetSize / 4, y, x + targetSize / 4, y)
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+
+  // Draw the vertical line of the plus sign.
+  context.svg
+    .line(x, y - targetSize / 4, x, y + targetSize / 4)
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+}
+
+/**
+ * Draws a controlled gate on the circuit.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the controlled gate.
+ *
+ * @remarks
+ * A vertical line joins all of the gate's qubits, crossing any wires in between.
+ * Closed controls are drawn as filled dots and open controls as hollow circles.
+ * A Pauli-X base gate is drawn as the target symbol (a circle with a plus sign), a Pauli-Z base gate
+ * as another dot, and any other base gate through the drawer registered for its kind.
+ */
+export function drawControlledGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  const {
+    gateFill,
+    gateStrokeWidth,
+    lineColor,
+    lineWidth,
+    controlColor,
+    controlDotSize,
+  } = context.styles;
+  const gate = placement.gate as ControlledGate;
+  const { x, ys } = placement;
+  const { base, controls } = gate;
+  const controlYs = ys.slice(0, controls.length);
+  const targetYs = ys.slice(controls.length);
+
+  // Draw the vertical line connecting the controls and the targets.
+  context.svg
+    .line(x, Math.min(...ys), x, Math.max(...ys))
+    .stroke({ width: lineWidth, color: lineColor });
+
+  // Draw a dot at every control qubit line, hollow for open controls.
+  controlYs.forEach((y, i) => {
+    const dot = context.svg
+      .circle(controlDotSize)
+      .move(x - controlDotSize / 2, y - controlDotSize / 2);
+    if (gate.isOpenControl(controls[i])) {
+      dot
+        .fill(gateFill)
+        .stroke({ width: gateStrokeWidth, color: controlColor });
+    } else {
+      dot.fill(controlColor);
+    }
+  });
+
+  if (base.kind === "x") {
+    drawTargetSymbol(context, x, targetYs[0]);
+  } else if (base.kind === "z") {
+    context.svg
+      .circle(controlDotSize)
+      .move(x - controlDotSize / 2, targetYs[0] - controlDotSize / 2)
+      .fill(controlColor);
+  } else {
+    const baseQubits = base.qubits;
+    context.drawGate({
+      ...placement,
+      gate: base,
+      ys: targetYs,
+      minQubit: Math.min(...baseQubits),
+      maxQubit: Math.max(...baseQubits),
+    });
+  }
+}
+
+/**
+ * Draws a SWAP-family gate on the circuit.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the gate.
+ *
+ * @remarks
+ * The gate is drawn as a cross on each of its two qubits, joined by a vertical line.
+ * An iSWAP gate additionally shows an "i" next to the line.
+ */
+export function drawSwapGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  const {
+    gateStroke,
+    gateStrokeWidth,
+    lineColor,
+    lineWidth,
+    fontSize,
+    fontFamily,
+    fontColor,
+    swapSize,
+  } = context.styles;
+  const { gate, x, ys } = placement;
+  const top = Math.min(...ys);
+  const bottom = Math.max(...ys);
+  const crossSize = swapSize / 2;
+
+  // Draw the vertical line connecting the two qubits.
+  context.svg
+    .line(x, top, x, bottom)
+    .stroke({ width: lineWidth, color: lineColor });
+
+  // Draw a cross on each qubit line.
+  ys.forEach((y) => {
+    context.svg
+      .line(x - crossSize, y - crossSize, x + crossSize, y + crossSize)
+      .stroke({ width: gateStrokeWidth, color: gateStroke });
+    context.svg
+      .line(x - crossSize, y + crossSize, x + crossSize, y - crossSize)
+      .stroke({ width: gateStrokeWidth, color: gateStroke });
+  });
+
+  if (gate.kind === "iswap") {
+    // Draw the "i" marking the phase of the iSWAP gate.
+    context.svg
+      .text(gate instanceof ISwapGate && gate.dagger ? "i†" : "i")
+      .move(x + crossSize, (top + bottom) / 2)
+      .font({ size: fontSize, family: fontFamily, fill: fontColor })
+      .attr({ "text-anchor": "start", "dominant-baseline": "middle" });
+  }
+}
+
+/**
+ * Draws a labelled block spanning several qubits (e.g. "QFT" or "Oracle").
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the gate.
+ *
+ * @remarks
+ * Each contiguous run of the gate's qubits is covered by one rectangle, and consecutive rectangles are joined
+ * by a dashed connector so that the wires in the gaps, which the gate does not act on, stay visible.
+ * The block's label is drawn in the first rectangle and each input wire gets its input label at the left edge.
+ */
+export function drawMultiQubitGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  const {
+    gateWidth,
+    gateHeight,
+    gateFill,
+    gateStroke,
+    gateStrokeWidth,
+    fontSize,
+    fontFamily,
+    fontColor,
+  } = context.styles;
+  const gate = placement.gate as MultiQubitGate;
+  const { x, ys } = placement;
+
+  // Group the qubits into contiguous runs, from top to bottom.
+  const sorted = gate.qubits
+    .map((qubit, i) => ({ qubit, y: ys[i] }))
+    .sort((a, b) => a.qubit - b.qubit);
+  const runs: { top: number; bottom: number }[] = [];
+  sorted.forEach((entry, i) => {
+    const run = runs[runs.length - 1];
+    if (run && entry.qubit === sorted[i - 1].qubit + 1) {
+      run.bottom = entry.y;
+    } else {
+      runs.push({ top: entry.y, bottom: entry.y });
+    }
+  });
+
+  // Draw the dashed connectors across the gaps between runs.
+  for (let i = 1; i < runs.length; i++) {
+    context.svg
+      .line(
+        x,
+        runs[i - 1].bottom + gateHeight / 2,
+        x,
+        runs[i].top - gateHeight / 2
+      )
+      .stroke({
+        width: gateStrokeWidth,
+        color: gateStroke,
+        dasharray: "4,3",
+      });
+  }
+
+  // Draw one rectangle per run.
+  runs.forEach((run) => {
+    context.svg
+      .rect(gateWidth, run.bottom - run.top + gateHeight)
+      .move(x - gateWidth / 2, run.top - gateHeight / 2)
+      .fill(gateFill)
+      .stroke({ width: gateStrokeWidth, color: gateStroke });
+  });
+
+  // Draw the block label in the middle of the first run.
+  context.svg
+    .text(gate.name)
+    .move(x, (runs[0].top + runs[0].bottom) / 2)
+    .font({ size: fontSize - 2, family: fontFamily, fill: fontColor })
+    .attr({ "text-anchor": "middle", "dominant-baseline": "middle" });
+
+  // Draw the input label of every wire at the left edge of the block.
+  if (gate.qubits.length > 1) {
+    ys.forEach((y, i) => {
+      context.svg
+        .text(gate.inputLabels[i])
+        .move(x - gateWidth / 2 + 3, y)
+        .font({ size: fontSize - 4, family: fontFamily, fill: fontColor })
+        .attr({ "text-anchor": "start", "dominant-baseline": "middle" });
+    });
+  }
+}
+
+/**
+ * Draws a measurement on the circuit.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the measurement.
+ *
+ * @remarks
+ * A measurement is drawn as a gate box holding a meter symbol (an arc with a needle),
+ * connected to its classical bit by a double line ending in an arrowhead.
+ */
+export function drawMeasureGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  const {
+    gateWidth,
+    gateHeight,
+    gateFill,
+    gateStroke,
+    gateStrokeWidth,
+    lineColor,
+  } = context.styles;
+  const { x } = placement;
+  const [y] = placement.ys;
+  const [clbitY] = placement.clbitYs;
+
+  // Draw the double line down to the classical wire, ending in an arrowhead.
+  drawDoubleLine(context, x, y, x, clbitY - 6);
+  context.svg
+    .polygon([
+      [x - 5, clbitY - 8],
+      [x + 5, clbitY - 8],
+      [x, clbitY],
+    ])
+    .fill(lineColor);
+
+  // Draw the gate box.
+  context.svg
+    .rect(gateWidth, gateHeight)
+    .move(x - gateWidth / 2, y - gateHeight / 2)
+    .fill(gateFill)
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+
+  // Draw the meter arc and needle.
+  const radius = gateWidth * 0.3;
+  const arcY = y + gateHeight * 0.2;
+  context.svg
+    .path(
+      `M ${x - radius} ${arcY} A ${radius} ${radius} 0 0 1 ${
+        x + radius
+      } ${arcY}`
+    )
+    .fill("none")
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+  context.svg
+    .line(x, arcY, x + radius * 0.8, y - gateHeight * 0.25)
+    .stroke({ width: gateStrokeWidth, color: gateStroke });
+}
+
+/**
+ * Draws a reset operation on the circuit.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the reset.
+ *
+ * @remarks
+ * A reset is drawn as a gate box labelled "|0⟩".
+ */
+export function drawResetGate(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  drawLabelledBox(context, placement.x, placement.ys[0], "|0⟩");
+}
+
+/**
+ * Draws the classical condition of a classically controlled gate.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the conditioned gate.
+ *
+ * @remarks
+ * A double line runs from the gate down to the lowest conditioning bit. Each conditioning bit
+ * gets a dot: filled if the condition expects the bit to be 1, hollow if it expects 0.
+ */
+export function drawCondition(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  const { gateFill, gateStroke, gateStrokeWidth, conditionDotSize } =
+    context.styles;
+  const { gate, x } = placement;
+  if (!gate.condition) {
+    return;
+  }
+  const { value } = gate.condition;
+
+  const top = Math.max(...placement.ys);
+  const bottom = Math.max(...placement.conditionYs);
+  drawDoubleLine(context, x, top, x, bottom);
+
+  placement.conditionYs.forEach((y, bit) => {
+    const isSet = Math.floor(value / Math.pow(2, bit)) % 2 === 1;
+    context.svg
+      .circle(conditionDotSize)
+      .move(x - conditionDotSize / 2, y - conditionDotSize / 2)
+      .fill(isSet ? gateStroke : gateFill)
+      .stroke({ width: gateStrokeWidth, color: gateStroke });
+  });
+}
+
+/**
+ * Draws the frame of an expanded gate group: a dashed rectangle around the group's gates,
+ * with the group's name on its top edge. A group cut by the wrapping of the diagram gets a rectangle
+ * in each segment, and its name on the first one.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the group.
+ */
+export function drawGroupFrame(
+  context: DrawContext,
+  placement: GroupPlacement
+): void {
+  const {
+    backgroundColor,
+    groupColor,
+    groupFontSize,
+    groupTitleBackground,
+    fontFamily,
+  } = context.styles;
+  const { left, top } = placement;
+
+  placement.frames.forEach((frame) =>
+    context.svg
+      .rect(frame.right - frame.left, frame.bottom - frame.top)
+      .move(frame.left, frame.top)
+      .fill("none")
+      .stroke({ width: 1, color: groupColor, dasharray: "4,3" })
+  );
+
+  // Draw the title over the top edge, on a background that interrupts the dashes;
+  // a transparent diagram has no background to match, so the title sits on the `groupTitleBackground` style.
+  const title = context.svg
+    .text(placement.group.name)
+    .amove(left + 6, top)
+    .font({ size: groupFontSize, family: fontFamily, fill: groupColor })
+    .attr({ "text-anchor": "start", "dominant-baseline": "middle" });
+  const width = placement.group.name.length * groupFontSize * 0.6 + 4;
+  context.svg
+    .rect(width, groupFontSize)
+    .move(left + 4, top - groupFontSize / 2)
+    .fill(backgroundColor === "none" ? groupTitleBackground : backgroundColor)
+    .insertBefore(title);
+}
+
+/**
+ * Draws a barrier as a dashed vertical line across each contiguous run of its qubits,
+ * with its title, if any, centered above the line.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the barrier.
+ */
+export function drawBarrier(
+  context: DrawContext,
+  placement: GatePlacement
+): void {
+  const {
+    qubitSpacing,
+    lineColor,
+    lineWidth,
+    annotationFontSize,
+    fontFamily,
+    fontColor,
+  } = context.styles;
+  const gate = placement.gate as BarrierGate;
+  const { x } = placement;
+  const half = qubitSpacing / 2;
+
+  // Each qubit's segment reaches halfway to its neighbours, so adjacent qubits give one continuous line.
+  placement.ys.forEach((y) => {
+    context.svg
+      .line(x, y - half, x, y + half)
+      .stroke({ width: lineWidth, color: lineColor, dasharray: "6,4" });
+  });
+
+  if (gate.title) {
+    context.svg
+      .text(gate.title)
+      .amove(x, Math.min(...placement.ys) - half - annotationFontSize / 2 - 2)
+      .font({ size: annotationFontSize, family: fontFamily, fill: fontColor })
+      .attr({ "text-anchor": "middle", "dominant-baseline": "middle" });
+  }
+}
+
+/**
+ * Draws an annotation: its text, centered at its placement.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the annotation.
+ */
+export function drawAnnotation(
+  context: DrawContext,
+  placement: AnnotationPlacement
+): void {
+  const { annotationFontSize, fontFamily, fontColor } = context.styles;
+  context.svg
+    .text(placement.annotation.text)
+    .amove(placement.x, placement.y)
+    .font({
+      size: annotationFontSize,
+      family: fontFamily,
+      fill: fontColor,
+      style: "italic",
+    })
+    .attr({ "text-anchor": "middle", "dominant-baseline": "middle" });
+}
+
+/**
+ * Draws the label of a wire in a margin of the diagram, centered vertically on the wire.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the label.
+ * @param anchor - "end" for labels in the left margin, which end at `placement.x`,
+ * "start" for output labels in the right margin, which start there.
+ */
+export function drawWireLabel(
+  context: DrawContext,
+  placement: WireLabelPlacement,
+  anchor: "start" | "end"
+): void {
+  const { labelFontSize, fontFamily, fontColor } = context.styles;
+  context.svg
+    .text(placement.text)
+    .amove(placement.x, placement.y)
+    .font({ size: labelFontSize, family: fontFamily, fill: fontColor })
+    .attr({ "text-anchor": anchor, "dominant-baseline": "middle" });
+}
+
+/**
+ * Draws the bracket of a register: a vertical line with ticks towards the wires at both ends,
+ * and the register's name to its left.
+ * @param context - The drawing context.
+ * @param placement - The layout placement of the bracket.
+ */
+export function drawRegisterBracket(
+  context: DrawContext,
+  placement: BracketPlacement
+): void {
+  const { lineColor, labelFontSize, fontFamily, fontColor } = context.styles;
+  const { x, top, bottom, labelX } = placement;
+  const tick = labelFontSize / 4;
+  context.svg
+    .polyline([
+      [x + tick, top],
+      [x, top],
+      [x, bottom],
+      [x + tick, bottom],
+    ])
+    .fill("none")
+    .stroke({ width: 1, color: lineColor });
+  context.svg
+    .text(placement.register.name)
+    .amove(labelX, (top + bottom) / 2)
+    .font({ size: labelFontSize, family: fontFamily, fill: fontColor })
+    .attr({ "text-anchor": "end", "dominant-baseline": "middle" });
+}
+
+/**
+ * Draws the markers of a wire cut by the wrapping of the diagram: a small chevron on each wire,
+ * at the end of a segment and again at the start of the next one.
+ * @param context - The drawing context.
+ * @param x - The x-coordinate of the tip of the chevrons.
+ * @param ys - The y-coordinates of the wires.
+ */
+export function drawContinuation(
+  context: DrawContext,
+  x: number,
+  ys: number[]
+): void {
+  const { lineColor, lineWidth } = context.styles;
+  const size = 5;
+  ys.forEach((y) =>
+    context.svg
+      .polyline([
+        [x - size, y - size],
+        [x, y],
+        [x - size, y + size],
+      ])
+      .fill("none")
+      .stroke({ width: lineWidth, color: lineColor })
+  );
+}
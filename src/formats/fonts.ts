@@ -0,0 +1,146 @@
+/**
+ * @file fonts.ts
+ * @description Resolves the font families of rendered SVG markup to font files, so that raster and PDF exports
+ * look the same on every machine.
+ */
+
+import { missingPackageError } from "./packages";
+
+/**
+ * Font files to render text with, keyed by font family (e.g. `{ "Inter": "fonts/Inter-Regular.ttf" }`).
+ * Files must be TrueType or OpenType fonts, and each key should be the family name stored in its file.
+ */
+export interface FontFiles {
+  [family: string]: string;
+}
+
+/**
+ * The fonts used when no file is given for any family of a `fontFamily` list: DejaVu fonts, shipped with the library.
+ * The generic families stand for them too, whatever fonts the machine has.
+ */
+const BUNDLED_FONTS: { [family: string]: string } = {
+  "DejaVu Sans": "DejaVuSans.ttf",
+  "DejaVu Serif": "DejaVuSerif.ttf",
+  "DejaVu Sans Mono": "DejaVuSansMono.ttf",
+};
+
+/**
+ * The bundled font each generic CSS family resolves to.
+ */
+const GENERIC_FAMILIES: { [generic: string]: string } = {
+  "sans-serif": "DejaVu Sans",
+  serif: "DejaVu Serif",
+  monospace: "DejaVu Sans Mono",
+};
+
+/**
+ * The family of text whose `fontFamily` list has neither a font file nor a generic family, e.g. "Arial".
+ */
+export const FALLBACK_FONT_FAMILY = "DejaVu Sans";
+
+/**
+ * Markup whose text is set in known fonts only, with the files of those fonts.
+ */
+export interface ResolvedFonts {
+  /**
+   * The markup, with every `font-family` list replaced by the single family it resolves to.
+   */
+  markup: string;
+
+  /**
+   * The font file of each family used by the markup.
+   */
+  files: FontFiles;
+}
+
+/**
+ * Resolves the font families of SVG markup to font files, without looking at the fonts installed on the machine.
+ * Each `font-family` list resolves to its first family with a file in `fonts`, or to the bundled font standing for
+ * its first generic family ("sans-serif", "serif" or "monospace"); lists with neither resolve to DejaVu Sans.
+ *
+ * @param markup - The SVG markup, e.g. from `renderToSVGString()`.
+ * @param fonts - (Optional) Font files for the families of the styles, keyed by family.
+ * @returns The markup with resolved families, and the files of the families it uses.
+ *
+ * @example
+ * ```typescript
+ * const { markup, files } = await resolveFonts(svg, { Inter: "fonts/Inter-Regular.ttf" });
+ * // "Inter, sans-serif" is set in Inter, "Arial, sans-serif" in DejaVu Sans
+ * ```
+ */
+export async function resolveFonts(
+  markup: string,
+  fonts: FontFiles = {}
+): Promise<ResolvedFonts> {
+  const { join, dirname } = await import("path");
+  const { default: Module } = await import("module");
+  let manifest: string;
+  try {
+    manifest = Module.createRequire(__filename).resolve(
+      "dejavu-fonts-ttf/package.json"
+    );
+  } catch (error) {
+    throw missingPackageError("dejavu-fonts-ttf");
+  }
+  const directory = join(dirname(manifest), "ttf");
+
+  const files: FontFiles = {};
+  const resolved = markup.replace(
+    /font-family="([^"]*)"/g,
+    (_match, list: string) => {
+      const family = resolveFamily(unescapeAttribute(list), fonts);
+      files[family] = Object.prototype.hasOwnProperty.call(fonts, family)
+        ? fonts[family]
+        : join(directory, BUNDLED_FONTS[family]);
+      return `font-family="${escapeAttribute(family)}"`;
+    }
+  );
+  return { markup: resolved, files };
+}
+
+/**
+ * Returns the family a `font-family` list resolves to: the first family with a file, or the bundled font of
+ * the first generic family, or the fallback family.
+ */
+function resolveFamily(list: string, fonts: FontFiles): string {
+  const families = list
+    .split(",")
+    .map((family) => family.trim().replace(/^(["'])(.*)\1$/, "$2"))
+    .filter((family) => family !== "");
+  for (let i = 0; i < families.length; i++) {
+    const family = families[i];
+    if (Object.prototype.hasOwnProperty.call(fonts, family)) {
+      return family;
+    }
+    if (Object.prototype.hasOwnProperty.call(BUNDLED_FONTS, family)) {
+      return family;
+    }
+    const generic = family.toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(GENERIC_FAMILIES, generic)) {
+      return GENERIC_FAMILIES[generic];
+    }
+  }
+  return FALLBACK_FONT_FAMILY;
+}
+
+/**
+ * Decodes the character references an XML serializer writes in attribute values.
+ */
+function unescapeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Escapes a value for a double-quoted XML attribute.
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
@@ -0,0 +1,969 @@
+/**
+ * @file json.ts
+ * @description Serializes Circuit objects to a versioned JSON format and loads them back.
+ */
+
+import { Circuit } from "../Circuit";
+import { IGate } from "../gates/IGate";
+import { cIf } from "../gates/ClassicalCondition";
+import { HadamardGate } from "../gates/HadamardGate";
+import { PauliXGate } from "../gates/PauliXGate";
+import { PauliYGate } from "../gates/PauliYGate";
+import { PauliZGate } from "../gates/PauliZGate";
+import { IdentityGate } from "../gates/IdentityGate";
+import { SGate } from "../gates/SGate";
+import { TGate } from "../gates/TGate";
+import { SXGate } from "../gates/SXGate";
+import { PhaseGate } from "../gates/PhaseGate";
+import { UGate } from "../gates/UGate";
+import { RotationGate } from "../gates/RotationGate";
+import { ControlledGate } from "../gates/ControlledGate";
+import { CNOTGate } from "../gates/CNOTGate";
+import { SwapGate } from "../gates/SwapGate";
+import { ISwapGate } from "../gates/ISwapGate";
+import { MultiQubitGate } from "../gates/MultiQubitGate";
+import { MeasureGate } from "../gates/MeasureGate";
+import { ResetGate } from "../gates/ResetGate";
+import { BarrierGate } from "../gates/BarrierGate";
+import {
+  Parameter,
+  ParameterOperation,
+  ParameterOperator,
+  ParameterValue,
+} from "../Parameter";
+import { StyleConfig, DefaultStyleConfig } from "../styles";
+
+/**
+ * The version of the JSON format written by `circuitToJSON()`.
+ */
+export const CIRCUIT_JSON_VERSION = 1;
+
+/**
+ * A circuit in the JSON format.
+ */
+export interface CircuitJSON {
+  /**
+   * The version of the format. Older versions are migrated when loaded.
+   */
+  version: number;
+
+  /**
+   * The number of qubits.
+   */
+  numQubits: number;
+
+  /**
+   * The number of classical bits.
+   */
+  numClbits: number;
+
+  /**
+   * The named quantum registers, in qubit order. Each covers the qubits after the previous one.
+   */
+  quantumRegisters: RegisterJSON[];
+
+  /**
+   * The named classical registers, in bit order. Each covers the bits after the previous one.
+   */
+  classicalRegisters: RegisterJSON[];
+
+  /**
+   * The gates, in circuit order.
+   */
+  gates: GateJSON[];
+
+  /**
+   * The named groups of gates, in gate order.
+   */
+  groups: GroupJSON[];
+
+  /**
+   * The notes attached to gates and columns, in the order they were added.
+   */
+  annotations: AnnotationJSON[];
+
+  /**
+   * The custom names of qubits, keyed by qubit index.
+   */
+  qubitNames: { [qubit: string]: string };
+
+  /**
+   * The initial states written for qubits, keyed by qubit index.
+   */
+  initialStates: { [qubit: string]: string };
+
+  /**
+   * The output labels of qubits, keyed by qubit index.
+   */
+  outputLabels: { [qubit: string]: string };
+
+  /**
+   * Free-form data about the circuit, such as a title or an author. Must itself be serializable to JSON.
+   */
+  metadata: { [key: string]: unknown };
+}
+
+/**
+ * A named register in the JSON format.
+ */
+export interface RegisterJSON {
+  /**
+   * The name of the register.
+   */
+  name: string;
+
+  /**
+   * The number of wires in the register.
+   */
+  size: number;
+}
+
+/**
+ * A named group of consecutive gates in the JSON format.
+ */
+export interface GroupJSON {
+  /**
+   * The name of the group.
+   */
+  name: string;
+
+  /**
+   * The index of the first gate of the group.
+   */
+  start: number;
+
+  /**
+   * The index after the last gate of the group.
+   */
+  end: number;
+
+  /**
+   * Whether the group is drawn collapsed; absent when the `groupDisplay` style decides.
+   */
+  collapsed?: boolean;
+}
+
+/**
+ * A note attached to a gate or to its column, in the JSON format.
+ */
+export interface AnnotationJSON {
+  /**
+   * The text of the note.
+   */
+  text: string;
+
+  /**
+   * The index of the annotated gate.
+   */
+  gate: number;
+
+  /**
+   * Whether the note is written above the gate ("gate") or below the diagram under its column ("column").
+   */
+  target: "gate" | "column";
+}
+
+/**
+ * A gate in the JSON format.
+ * Gates are identified by their `kind`; only the fields a kind needs are present.
+ */
+export interface GateJSON {
+  /**
+   * The kind of the gate, e.g. "h", "rotation", "controlled" or "measure".
+   */
+  kind: string;
+
+  /**
+   * The qubits the gate acts on. For controlled gates, these are the controls followed by the base gate's qubits.
+   */
+  qubits: number[];
+
+  /**
+   * The classical bits the gate writes to (measurements).
+   */
+  clbits?: number[];
+
+  /**
+   * The exact angles of parameterized gates, in radians: `[angle]` for "p" and "rotation", `[θ, φ, λ]` for "u".
+   * Symbolic angles are stored as expression trees.
+   */
+  params?: ParameterJSON[];
+
+  /**
+   * The rotation axis of "rotation" gates.
+   */
+  axis?: "X" | "Y" | "Z";
+
+  /**
+   * Whether an "s", "t", "sx" or "iswap" gate is the adjoint.
+   */
+  dagger?: boolean;
+
+  /**
+   * The title of "barrier" gates; absent for untitled barriers.
+   */
+  title?: string;
+
+  /**
+   * The label of "block" gates.
+   */
+  name?: string;
+
+  /**
+   * The input labels of "block" gates.
+   */
+  inputLabels?: string[];
+
+  /**
+   * The gate applied by a "controlled" gate. Its qubits are the targets.
+   */
+  base?: GateJSON;
+
+  /**
+   * The open controls of a "controlled" gate.
+   */
+  openControls?: number[];
+
+  /**
+   * The classical condition of a classically controlled gate.
+   */
+  condition?: { clbits: number[]; value: number };
+
+  /**
+   * The style overrides of the gate itself; absent for gates without any.
+   * Only styles with string, number or boolean values can be overridden per gate.
+   */
+  style?: { [name: string]: string | number | boolean };
+}
+
+/**
+ * A gate parameter in the JSON format: a number in radians, a named parameter such as `{ "name": "θ" }`,
+ * or an operation on other parameters such as `{ "operator": "*", "operands": [2, { "name": "θ" }] }`.
+ */
+export type ParameterJSON =
+  | number
+  | { name: string }
+  | { operator: ParameterOperator; operands: ParameterJSON[] };
+
+/**
+ * Error thrown when a JSON circuit is malformed.
+ * Carries the path of the offending value, e.g. "gates[2].qubits[0]".
+ */
+export class CircuitJSONError extends Error {
+  /**
+   * The path of the offending value in the JSON document; empty for the document itself.
+   */
+  path: string;
+
+  /**
+   * Creates an instance of the CircuitJSONError class.
+   *
+   * @param message - The description of the problem.
+   * @param path - The path of the offending value.
+   */
+  constructor(message: string, path: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "CircuitJSONError";
+    this.path = path;
+    Object.setPrototypeOf(this, CircuitJSONError.prototype);
+  }
+}
+
+/**
+ * The migrations from each older version of the format to the next one, keyed by the version they upgrade.
+ * When the format changes, bump `CIRCUIT_JSON_VERSION` and add the migration from the previous version here.
+ */
+const MIGRATIONS: {
+  [version: number]: (json: { [key: string]: unknown }) => {
+    [key: string]: unknown;
+  };
+} = {};
+
+/**
+ * The values allowed for the styles that take one of a few strings.
+ */
+const STYLE_CHOICES: { [K in keyof StyleConfig]?: StyleConfig[K][] } = {
+  angleUnit: ["pi", "degrees", "radians"],
+  groupDisplay: ["expanded", "collapsed"],
+  qubitLabels: ["name", "state", "both", "none"],
+};
+
+/**
+ * Serializes a circuit to the JSON format.
+ * Parameters are stored as exact radians, so loading the result gives back an identical circuit.
+ *
+ * @param circuit - The circuit to serialize.
+ * @returns The JSON representation, ready for `JSON.stringify()`.
+ *
+ * @throws {Error} Will throw an error if the circuit contains a gate that is not a built-in gate.
+ *
+ * @example
+ * ```typescript
+ * const text = JSON.stringify(circuitToJSON(circuit));
+ * const copy = circuitFromJSON(text);
+ * ```
+ */
+export function circuitToJSON(circuit: Circuit): CircuitJSON {
+  const register = ({ name, size }: RegisterJSON) => ({ name, size });
+  return {
+    version: CIRCUIT_JSON_VERSION,
+    numQubits: circuit.numQubits,
+    numClbits: circuit.numClbits,
+    quantumRegisters: circuit.quantumRegisters.map(register),
+    classicalRegisters: circuit.classicalRegisters.map(register),
+    gates: circuit.gates.map((gate, index) => {
+      try {
+        return gateToJSON(gate);
+      } catch (error) {
+        throw new Error(
+          `Gate '${gate.name}' at index ${index} cannot be serialized: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }),
+    groups: circuit.groups.map(({ name, start, end, collapsed }) =>
+      collapsed === undefined
+        ? { name, start, end }
+        : { name, start, end, collapsed }
+    ),
+    annotations: circuit.annotations.map(({ text, gate, target }) => ({
+      text,
+      gate,
+      target,
+    })),
+    qubitNames: { ...circuit.qubitNames },
+    initialStates: { ...circuit.initialStates },
+    outputLabels: { ...circuit.outputLabels },
+    metadata: { ...circuit.metadata },
+  };
+}
+
+/**
+ * Loads a circuit from the JSON format, migrating documents written by older versions.
+ *
+ * @param json - The JSON representation, or its text.
+ * @returns The circuit.
+ *
+ * @throws {CircuitJSONError} Will throw an error describing the first invalid value and its path.
+ *
+ * @example
+ * ```typescript
+ * const circuit = circuitFromJSON('{"version":1,"numQubits":1,"numClbits":0,...}');
+ * ```
+ */
+export function circuitFromJSON(json: string | object): Circuit {
+  let document: unknown = json;
+  if (typeof json === "string") {
+    try {
+      document = JSON.parse(json);
+    } catch (error) {
+      throw new CircuitJSONError(
+        `Invalid JSON: ${(error as Error).message}`,
+        ""
+      );
+    }
+  }
+  const data = migrate(object(document, ""));
+
+  const numQubits = integer(data.numQubits, "numQubits");
+  const numClbits = integer(data.numClbits, "numClbits");
+  const circuit = new Circuit(numQubits, numClbits);
+
+  const registers = (key: string, declare: (r: RegisterJSON) => void) =>
+    array(data[key], key).forEach((value, i) => {
+      const path = `${key}[${i}]`;
+      const entry = object(value, path);
+      const name = string(entry.name, `${path}.name`);
+      const size = integer(entry.size, `${path}.size`);
+      attempt(() => declare({ name, size }), path);
+    });
+  registers("quantumRegisters", ({ name, size }) =>
+    circuit.addQuantumRegister(name, size)
+  );
+  registers("classicalRegisters", ({ name, size }) =>
+    circuit.addClassicalRegister(name, size)
+  );
+
+  array(data.gates, "gates").forEach((value, i) =>
+    circuit.addGate(gateFromJSON(value, `gates[${i}]`, circuit))
+  );
+
+  array(data.groups, "groups").forEach((value, i) => {
+    const path = `groups[${i}]`;
+    const entry = object(value, path);
+    const name = string(entry.name, `${path}.name`);
+    const start = integer(entry.start, `${path}.start`);
+    const end = integer(entry.end, `${path}.end`);
+    attempt(() => circuit.group(name, start, end), path);
+    if (entry.collapsed !== undefined) {
+      circuit.groups.filter((group) => group.start === start)[0].collapsed =
+        boolean(entry.collapsed, `${path}.collapsed`);
+    }
+  });
+
+  array(data.annotations, "annotations").forEach((value, i) => {
+    const path = `annotations[${i}]`;
+    const entry = object(value, path);
+    const text = string(entry.text, `${path}.text`);
+    const gate = integer(entry.gate, `${path}.gate`);
+    if (gate >= circuit.gates.length) {
+      throw new CircuitJSONError(
+        `Gate index ${gate} is out of range for ${circuit.gates.length} gate(s).`,
+        `${path}.gate`
+      );
+    }
+    const target = entry.target;
+    if (target !== "gate" && target !== "column") {
+      throw new CircuitJSONError(
+        "Expected 'gate' or 'column'.",
+        `${path}.target`
+      );
+    }
+    circuit.annotations.push({ text, gate, target });
+  });
+
+  const labels = (
+    key: string,
+    label: (qubit: number, text: string) => Circuit
+  ) => {
+    const entries = object(data[key], key);
+    Object.keys(entries).forEach((qubit) => {
+      const path = `${key}.${qubit}`;
+      const text = string(entries[qubit], path);
+      if (!/^\d+$/.test(qubit)) {
+        throw new CircuitJSONError("Expected a qubit index as key.", path);
+      }
+      label(wire(Number(qubit), numQubits, "qubit", path), text);
+    });
+  };
+  labels("qubitNames", (qubit, name) => circuit.nameQubit(qubit, name));
+  labels("initialStates", (qubit, state) =>
+    circuit.setInitialState(qubit, state)
+  );
+  labels("outputLabels", (qubit, label) =>
+    circuit.setOutputLabel(qubit, label)
+  );
+
+  if (data.metadata !== undefined) {
+    circuit.metadata = { ...object(data.metadata, "metadata") };
+  }
+  return circuit;
+}
+
+/**
+ * Serializes a built-in gate.
+ */
+function gateToJSON(gate: IGate): GateJSON {
+  const { condition, style } = gate;
+  let json: GateJSON;
+  if (gate instanceof CNOTGate) {
+    json = { kind: "cnot", qubits: [...gate.qubits] };
+  } else if (gate instanceof ControlledGate) {
+    json = {
+      kind: "controlled",
+      qubits: [...gate.qubits],
+      base: gateToJSON(gate.base),
+    };
+    if (gate.openControls.length > 0) {
+      json.openControls = [...gate.openControls];
+    }
+  } else if (gate instanceof RotationGate) {
+    json = {
+      kind: "rotation",
+      qubits: [...gate.qubits],
+      axis: gate.axis,
+      params: [parameterToJSON(gate.angle)],
+    };
+  } else if (gate instanceof PhaseGate) {
+    json = {
+      kind: "p",
+      qubits: [...gate.qubits],
+      params: [parameterToJSON(gate.angle)],
+    };
+  } else if (gate instanceof UGate) {
+    json = {
+      kind: "u",
+      qubits: [...gate.qubits],
+      params: [gate.theta, gate.phi, gate.lambda].map(parameterToJSON),
+    };
+  } else if (
+    gate instanceof SGate ||
+    gate instanceof TGate ||
+    gate instanceof SXGate ||
+    gate instanceof ISwapGate
+  ) {
+    json = { kind: gate.kind, qubits: [...gate.qubits] };
+    if (gate.dagger) {
+      json.dagger = true;
+    }
+  } else if (gate instanceof MultiQubitGate) {
+    json = {
+      kind: "block",
+      qubits: [...gate.qubits],
+      name: gate.name,
+      inputLabels: [...gate.inputLabels],
+    };
+  } else if (gate instanceof BarrierGate) {
+    json = { kind: "barrier", qubits: [...gate.qubits] };
+    if (gate.title) {
+      json.title = gate.title;
+    }
+  } else if (gate instanceof MeasureGate) {
+    json = {
+      kind: "measure",
+      qubits: [...gate.qubits],
+      clbits: [...gate.clbits],
+    };
+  } else if (
+    gate instanceof HadamardGate ||
+    gate instanceof PauliXGate ||
+    gate instanceof PauliYGate ||
+    gate instanceof PauliZGate ||
+    gate instanceof IdentityGate ||
+    gate instanceof SwapGate ||
+    gate instanceof ResetGate
+  ) {
+    json = { kind: gate.kind, qubits: [...gate.qubits] };
+  } else {
+    throw new Error("only built-in gates can be serialized to JSON.");
+  }
+
+  if (condition) {
+    json.condition = { clbits: [...condition.clbits], value: condition.value };
+  }
+  if (style) {
+    json.style = { ...style } as GateJSON["style"];
+  }
+  return json;
+}
+
+/**
+ * Loads and validates a gate.
+ */
+function gateFromJSON(value: unknown, path: string, circuit: Circuit): IGate {
+  const data = object(value, path);
+  const kind = string(data.kind, `${path}.kind`);
+  const qubits = array(data.qubits, `${path}.qubits`).map((qubit, i) =>
+    wire(qubit, circuit.numQubits, "qubit", `${path}.qubits[${i}]`)
+  );
+  if (qubits.some((qubit, i) => qubits.indexOf(qubit) !== i)) {
+    throw new CircuitJSONError("A gate's qubits must be distinct.", path);
+  }
+
+  const arity = (count: number) => {
+    if (qubits.length !== count) {
+      throw new CircuitJSONError(
+        `A '${kind}' gate acts on ${count} qubit(s), but ${qubits.length} are given.`,
+        `${path}.qubits`
+      );
+    }
+  };
+  const params = (count: number) => {
+    const values = array(data.params, `${path}.params`).map((param, i) =>
+      parameterFromJSON(param, `${path}.params[${i}]`)
+    );
+    if (values.length !== count) {
+      throw new CircuitJSONError(
+        `A '${kind}' gate takes ${count} parameter(s), but ${values.length} are given.`,
+        `${path}.params`
+      );
+    }
+    return values;
+  };
+  const dagger = () =>
+    data.dagger === undefined ? false : boolean(data.dagger, `${path}.dagger`);
+
+  let gate: IGate;
+  switch (kind) {
+    case "h":
+    case "x":
+    case "y":
+    case "z":
+    case "id":
+    case "reset": {
+      arity(1);
+      const create = {
+        h: (q: number) => new HadamardGate(q),
+        x: (q: number) => new PauliXGate(q),
+        y: (q: number) => new PauliYGate(q),
+        z: (q: number) => new PauliZGate(q),
+        id: (q: number) => new IdentityGate(q),
+        reset: (q: number) => new ResetGate(q),
+      }[kind];
+      gate = create(qubits[0]);
+      break;
+    }
+    case "s":
+      arity(1);
+      gate = new SGate(qubits[0], dagger());
+      break;
+    case "t":
+      arity(1);
+      gate = new TGate(qubits[0], dagger());
+      break;
+    case "sx":
+      arity(1);
+      gate = new SXGate(qubits[0], dagger());
+      break;
+    case "p":
+      arity(1);
+      gate = new PhaseGate(qubits[0], params(1)[0]);
+      break;
+    case "u": {
+      arity(1);
+      const [theta, phi, lambda] = params(3);
+      gate = new UGate(qubits[0], theta, phi, lambda);
+      break;
+    }
+    case "rotation": {
+      arity(1);
+      const axis = data.axis;
+      if (axis !== "X" && axis !== "Y" && axis !== "Z") {
+        throw new CircuitJSONError(
+          "Expected the axis 'X', 'Y' or 'Z'.",
+          `${path}.axis`
+        );
+      }
+      gate = new RotationGate(axis, qubits[0], params(1)[0]);
+      break;
+    }
+    case "cnot":
+      arity(2);
+      gate = attempt(() => new CNOTGate(qubits[0], qubits[1]), path);
+      break;
+    case "swap":
+      arity(2);
+      gate = new SwapGate(qubits[0], qubits[1]);
+      break;
+    case "iswap":
+      arity(2);
+      gate = new ISwapGate(qubits[0], qubits[1], dagger());
+      break;
+    case "block": {
+      const name = string(data.name, `${path}.name`);
+      const inputLabels =
+        data.inputLabels === undefined
+          ? undefined
+          : array(data.inputLabels, `${path}.inputLabels`).map((label, i) =>
+              string(label, `${path}.inputLabels[${i}]`)
+            );
+      gate = attempt(() => new MultiQubitGate(name, qubits, inputLabels), path);
+      break;
+    }
+    case "barrier": {
+      const title =
+        data.title === undefined ? "" : string(data.title, `${path}.title`);
+      gate = attempt(() => new BarrierGate(qubits, title), path);
+      break;
+    }
+    case "measure": {
+      arity(1);
+      const clbits = array(data.clbits, `${path}.clbits`).map((clbit, i) =>
+        wire(clbit, circuit.numClbits, "classical bit", `${path}.clbits[${i}]`)
+      );
+      if (clbits.length !== 1) {
+        throw new CircuitJSONError(
+          "A measurement writes exactly one classical bit.",
+          `${path}.clbits`
+        );
+      }
+      gate = new MeasureGate(qubits[0], clbits[0]);
+      break;
+    }
+    case "controlled": {
+      const base = gateFromJSON(data.base, `${path}.base`, circuit);
+      const numControls = qubits.length - base.qubits.length;
+      const targets = qubits.slice(numControls);
+      if (
+        numControls < 1 ||
+        targets.some((qubit, i) => qubit !== base.qubits[i])
+      ) {
+        throw new CircuitJSONError(
+          "A controlled gate's qubits must be its controls followed by the base gate's qubits.",
+          `${path}.qubits`
+        );
+      }
+      const openControls =
+        data.openControls === undefined
+          ? []
+          : array(data.openControls, `${path}.openControls`).map((qubit, i) =>
+              integer(qubit, `${path}.openControls[${i}]`)
+            );
+      gate = attempt(
+        () =>
+          new ControlledGate(base, qubits.slice(0, numControls), openControls),
+        path
+      );
+      break;
+    }
+    default:
+      throw new CircuitJSONError(
+        `Unknown gate kind '${kind}'.`,
+        `${path}.kind`
+      );
+  }
+
+  if (data.condition !== undefined) {
+    const conditionPath = `${path}.condition`;
+    const condition = object(data.condition, conditionPath);
+    const clbits = array(condition.clbits, `${conditionPath}.clbits`).map(
+      (clbit, i) =>
+        wire(
+          clbit,
+          circuit.numClbits,
+          "classical bit",
+          `${conditionPath}.clbits[${i}]`
+        )
+    );
+    const value = integer(condition.value, `${conditionPath}.value`);
+    gate = attempt(() => cIf(gate, clbits, value), conditionPath);
+  }
+  if (data.style !== undefined) {
+    gate.style = styleFromJSON(data.style, `${path}.style`);
+  }
+  return gate;
+}
+
+/**
+ * Loads and validates a set of styles, such as a style file: every style must exist and have a value of the
+ * default's type, the styles taking one of a few strings (`angleUnit`, `groupDisplay`, `qubitLabels`) one of those,
+ * and each entry of `gateStyles` must be a valid set of gate styles.
+ *
+ * @param value - The parsed styles.
+ * @param path - (Optional) The path of the styles in their document, prefixed to the paths of errors.
+ * @returns The styles.
+ *
+ * @throws {CircuitJSONError} Will throw an error, with the path of the offending value, if a style is unknown
+ * or has a value of the wrong type, or not one of its allowed values.
+ *
+ * @example
+ * ```typescript
+ * const styles = stylesFromJSON(JSON.parse(text));
+ * stylesFromJSON({ fontSize: "16" }); // throws "fontSize: Expected a number."
+ * stylesFromJSON({ angleUnit: "turns" }); // throws "angleUnit: Expected 'pi', 'degrees' or 'radians', not 'turns'."
+ * ```
+ */
+export function stylesFromJSON(
+  value: unknown,
+  path = ""
+): Partial<StyleConfig> {
+  return styleFromJSON(value, path, true);
+}
+
+/**
+ * Loads and validates styles: every style must exist and have a value of the default's type,
+ * and one of its values if it takes one of a few strings.
+ * The object-valued `gateStyles` is accepted only for whole sets of styles, not for the style overrides of a gate.
+ */
+function styleFromJSON(
+  value: unknown,
+  path: string,
+  allowGateStyles = false
+): Partial<StyleConfig> {
+  const data = object(value, path);
+  const style: { [name: string]: unknown } = {};
+  Object.keys(data).forEach((name) => {
+    const stylePath = path ? `${path}.${name}` : name;
+    if (!Object.prototype.hasOwnProperty.call(DefaultStyleConfig, name)) {
+      throw new CircuitJSONError(`Unknown style '${name}'.`, stylePath);
+    }
+    const key = name as keyof StyleConfig;
+    const type = typeof DefaultStyleConfig[key];
+    if (key === "gateStyles" && allowGateStyles) {
+      const gateStyles = object(data[name], stylePath);
+      const kinds: { [kind: string]: Partial<StyleConfig> } = {};
+      Object.keys(gateStyles).forEach((kind) => {
+        kinds[kind] = styleFromJSON(gateStyles[kind], `${stylePath}.${kind}`);
+      });
+      style[key] = kinds;
+      return;
+    }
+    if (type === "object") {
+      throw new CircuitJSONError(
+        `The style '${name}' cannot be set on a single gate.`,
+        stylePath
+      );
+    }
+    if (typeof data[name] !== type) {
+      throw new CircuitJSONError(`Expected a ${type}.`, stylePath);
+    }
+    const choices: unknown[] | undefined = STYLE_CHOICES[key];
+    if (choices && choices.indexOf(data[name]) === -1) {
+      const quoted = choices.map((choice) => `'${choice}'`);
+      throw new CircuitJSONError(
+        `Expected ${quoted.slice(0, -1).join(", ")} or ${
+          quoted[quoted.length - 1]
+        }, not '${data[name]}'.`,
+        stylePath
+      );
+    }
+    style[key] = data[name];
+  });
+  return style as Partial<StyleConfig>;
+}
+
+/**
+ * Serializes a gate parameter.
+ */
+function parameterToJSON(value: ParameterValue): ParameterJSON {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (value instanceof Parameter) {
+    return { name: value.name };
+  }
+  if (value instanceof ParameterOperation) {
+    return {
+      operator: value.operator,
+      operands: value.operands.map(parameterToJSON),
+    };
+  }
+  throw new Error(
+    "only named parameters and their operations can be serialized."
+  );
+}
+
+/**
+ * Loads a gate parameter: a finite number, a named parameter or an operation.
+ */
+function parameterFromJSON(value: unknown, path: string): ParameterValue {
+  if (typeof value === "number") {
+    return finite(value, path);
+  }
+  const data = object(value, path);
+  if (data.name !== undefined) {
+    const name = string(data.name, `${path}.name`);
+    return attempt(() => new Parameter(name), path);
+  }
+  const operator = data.operator;
+  if (
+    operator !== "+" &&
+    operator !== "-" &&
+    operator !== "*" &&
+    operator !== "/" &&
+    operator !== "neg"
+  ) {
+    throw new CircuitJSONError(
+      "Expected a number, a named parameter or an operation with the operator '+', '-', '*', '/' or 'neg'.",
+      path
+    );
+  }
+  const operands = array(data.operands, `${path}.operands`).map((operand, i) =>
+    parameterFromJSON(operand, `${path}.operands[${i}]`)
+  );
+  return attempt(() => new ParameterOperation(operator, operands), path);
+}
+
+/**
+ * Upgrades a document to the current version of the format.
+ */
+function migrate(data: { [key: string]: unknown }): {
+  [key: string]: unknown;
+} {
+  let version = integer(data.version, "version");
+  if (version > CIRCUIT_JSON_VERSION) {
+    throw new CircuitJSONError(
+      `Version ${version} is newer than the supported version ${CIRCUIT_JSON_VERSION}.`,
+      "version"
+    );
+  }
+  if (version < 1) {
+    throw new CircuitJSONError(`Unknown version ${version}.`, "version");
+  }
+  while (version < CIRCUIT_JSON_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  return data;
+}
+
+/**
+ * Runs a gate or register constructor, reporting its errors at a path.
+ */
+function attempt<T>(create: () => T, path: string): T {
+  try {
+    return create();
+  } catch (error) {
+    throw new CircuitJSONError((error as Error).message, path);
+  }
+}
+
+/**
+ * Validates a plain object.
+ */
+function object(value: unknown, path: string): { [key: string]: unknown } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new CircuitJSONError("Expected an object.", path);
+  }
+  return value as { [key: string]: unknown };
+}
+
+/**
+ * Validates an array.
+ */
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new CircuitJSONError("Expected an array.", path);
+  }
+  return value;
+}
+
+/**
+ * Validates a string.
+ */
+function string(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new CircuitJSONError("Expected a string.", path);
+  }
+  return value;
+}
+
+/**
+ * Validates a boolean.
+ */
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new CircuitJSONError("Expected a boolean.", path);
+  }
+  return value;
+}
+
+/**
+ * Validates a finite number.
+ */
+function finite(value: unknown, path: string): number {
+  if (typeof value !== "number" || !isFinite(value)) {
+    throw new CircuitJSONError("Expected a finite number.", path);
+  }
+  return value;
+}
+
+/**
+ * Validates a non-negative integer.
+ */
+function integer(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new CircuitJSONError("Expected a non-negative integer.", path);
+  }
+  return value;
+}
+
+/**
+ * Validates the index of a qubit or classical bit of the circuit.
+ */
+function wire(
+  value: unknown,
+  count: number,
+  unit: string,
+  path: string
+): number {
+  const index = integer(value, path);
+  if (index >= count) {
+    throw new CircuitJSONError(
+      `The ${unit} index ${index} is out of range; the circuit has ${count}.`,
+      path
+    );
+  }
+  return index;
+}
@@ -0,0 +1,56 @@
+/**
+ * @file packages.ts
+ * @description Loads the Node packages of the headless exporters, which are optional peer dependencies
+ * so that browser users of the library never install them.
+ */
+
+/**
+ * Loads an optional package, and reports a missing package with the command that installs it.
+ *
+ * @param name - The name of the package.
+ * @param load - Loads the package, e.g. `() => import("svgdom")`.
+ * @returns The loaded package.
+ *
+ * @throws {Error} Will throw an error if the package is not installed, or rethrow the error of a package that fails to load.
+ *
+ * @example
+ * ```typescript
+ * const { createSVGWindow } = await loadPackage("svgdom", () => import("svgdom"));
+ * ```
+ */
+export async function loadPackage<T>(
+  name: string,
+  load: () => Promise<T>
+): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    throw isMissing(error, name) ? missingPackageError(name) : error;
+  }
+}
+
+/**
+ * Returns the error reporting that an optional package is not installed.
+ *
+ * @param name - The name of the package.
+ * @returns The error, naming the command that installs the package.
+ */
+export function missingPackageError(name: string): Error {
+  return new Error(
+    `The package "${name}" is needed for this export but is not installed; install it with \`npm install ${name}\`.`
+  );
+}
+
+/**
+ * Returns whether an error reports that a package cannot be found, rather than a failure inside it.
+ */
+function isMissing(error: unknown, name: string): boolean {
+  const { code, message } = (error || {}) as {
+    code?: string;
+    message?: string;
+  };
+  return (
+    (code === "ERR_MODULE_NOT_FOUND" || code === "MODULE_NOT_FOUND") &&
+    String(message).indexOf(name) !== -1
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * @file pdf.ts
+ * @description Renders quantum circuits to single-page vector PDF documents without a browser, using PDFKit.
+ */
+
+import { Circuit } from "../Circuit";
+import { StyleConfig } from "../styles";
+import { renderToSVGString } from "./svg";
+import { FontFiles, resolveFonts, FALLBACK_FONT_FAMILY } from "./fonts";
+import { loadPackage } from "./packages";
+
+/**
+ * The options of PDF export.
+ */
+export interface PDFExportOptions {
+  /**
+   * Font files for the families of the `fontFamily` style. Families without a file are set in fonts shipped
+   * with the library, never in fonts installed on the machine. The fonts used are embedded in the document.
+   */
+  fonts?: FontFiles;
+
+  /**
+   * The title stored in the document's metadata.
+   */
+  title?: string;
+
+  /**
+   * The creation date stored in the document's metadata, from which its file identifier is also derived.
+   * Defaults to a fixed date rather than the current time, so the same circuit always gives the same bytes.
+   * @default 2000-01-01T00:00:00Z
+   */
+  creationDate?: Date;
+}
+
+/**
+ * The creation date of documents that do not set one. Fixed so that exports are reproducible.
+ */
+const DEFAULT_CREATION_DATE = new Date(Date.UTC(2000, 0, 1));
+
+/**
+ * Renders a circuit to a single-page PDF document, with the diagram as vector graphics and its text in embedded fonts.
+ * The page is the size of the diagram, taking a diagram pixel to be 1/96 inch as in CSS (0.75 pt).
+ * The output is reproducible: the same circuit, styles and options always give the same bytes.
+ *
+ * @param circuit - The circuit to render.
+ * @param styles - (Optional) Custom styles to override the default rendering styles.
+ * @param options - (Optional) The font files to use, and the title and creation date of the document.
+ * @returns A promise resolving to the PDF data.
+ *
+ * @example
+ * ```typescript
+ * const pdf = await renderToPDF(circuit, Themes.print, { title: 'Bell state' });
+ * ```
+ */
+export async function renderToPDF(
+  circuit: Circuit,
+  styles?: Partial<StyleConfig>,
+  options: PDFExportOptions = {}
+): Promise<Buffer> {
+  const { markup, files } = await resolveFonts(
+    await renderToSVGString(circuit, styles),
+    options.fonts
+  );
+  const size = /<svg[^>]*\swidth="([\d.]+)"[^>]*\sheight="([\d.]+)"/.exec(
+    markup
+  );
+  const width = size ? Number(size[1]) * 0.75 : 0;
+  const height = size ? Number(size[2]) * 0.75 : 0;
+
+  const { default: PDFDocument } = await loadPackage(
+    "pdfkit",
+    () => import("pdfkit")
+  );
+  const { default: SVGtoPDF } = await loadPackage(
+    "svg-to-pdfkit",
+    () => import("svg-to-pdfkit")
+  );
+  const doc = new PDFDocument({
+    size: [width, height],
+    margin: 0,
+    info: {
+      ...(options.title ? { Title: options.title } : {}),
+      CreationDate: options.creationDate || DEFAULT_CREATION_DATE,
+    },
+  });
+  Object.keys(files).forEach((family) =>
+    doc.registerFont(family, files[family])
+  );
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+  SVGtoPDF(doc, markup, 0, 0, {
+    width,
+    height,
+    fontCallback: (family) =>
+      Object.prototype.hasOwnProperty.call(files, family)
+        ? family
+        : FALLBACK_FONT_FAMILY,
+  });
+  doc.end();
+  return done;
+}
+
+/**
+ * Renders a circuit and writes the PDF document to a file.
+ *
+ * @param circuit - The circuit to render.
+ * @param path - The path of the file to write.
+ * @param styles - (Optional) Custom styles to override the default rendering styles.
+ * @param options - (Optional) The font files to use, and the title and creation date of the document.
+ *
+ * @example
+ * ```typescript
+ * await renderToPDFFile(circuit, 'paper/figures/bell.pdf', Themes.print);
+ * ```
+ */
+export async function renderToPDFFile(
+  circuit: Circuit,
+  path: string,
+  styles?: Partial<StyleConfig>,
+  options?: PDFExportOptions
+): Promise<void> {
+  const pdf = await renderToPDF(circuit, styles, options);
+  const { writeFile } = await import("fs/promises");
+  await writeFile(path, pdf);
+}
@@ -0,0 +1,781 @@
+/**
+ * @file qasm2.ts
+ * @description Parses OpenQASM 2.0 programs into Circuit objects.
+ */
+
+import { Circuit } from "../Circuit";
+import { IGate } from "../gates/IGate";
+import { cIf } from "../gates/ClassicalCondition";
+import { CNOTGate } from "../gates/CNOTGate";
+import { ControlledGate } from "../gates/ControlledGate";
+import { HadamardGate } from "../gates/HadamardGate";
+import { IdentityGate } from "../gates/IdentityGate";
+import { MeasureGate } from "../gates/MeasureGate";
+import { PauliXGate } from "../gates/PauliXGate";
+import { PauliYGate } from "../gates/PauliYGate";
+import { PauliZGate } from "../gates/PauliZGate";
+import { PhaseGate } from "../gates/PhaseGate";
+import { ResetGate } from "../gates/ResetGate";
+import { BarrierGate } from "../gates/BarrierGate";
+import { RotationGate } from "../gates/RotationGate";
+import { SGate } from "../gates/SGate";
+import { SwapGate } from "../gates/SwapGate";
+import { TGate } from "../gates/TGate";
+import { SXGate } from "../gates/SXGate";
+import { UGate } from "../gates/UGate";
+import { validateGate } from "../validation";
+
+/**
+ * Error thrown when an OpenQASM program is malformed or uses unsupported features.
+ * The message is prefixed with the line and column of the offending token.
+ */
+export class QASMParseError extends Error {
+  /**
+   * The 1-based line of the offending token.
+   */
+  line: number;
+
+  /**
+   * The 1-based column of the offending token.
+   */
+  column: number;
+
+  /**
+   * Creates an instance of the QASMParseError class.
+   *
+   * @param message - A description of the problem.
+   * @param line - The 1-based line of the offending token.
+   * @param column - The 1-based column of the offending token.
+   */
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = "QASMParseError";
+    this.line = line;
+    this.column = column;
+    Object.setPrototypeOf(this, QASMParseError.prototype);
+  }
+}
+
+/**
+ * A lexical token of an OpenQASM program.
+ */
+interface Token {
+  type: "id" | "number" | "string" | "symbol" | "eof";
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Describes how a `qelib1.inc` gate maps onto the library's gate classes.
+ */
+interface GateDefinition {
+  /**
+   * The number of classical parameters the gate takes.
+   */
+  params: number;
+
+  /**
+   * The number of qubit arguments the gate takes.
+   */
+  qubits: number;
+
+  /**
+   * Creates the gate for resolved parameter values and qubit indices.
+   */
+  create: (params: number[], qubits: number[]) => IGate;
+}
+
+/**
+ * The supported gates, keyed by their OpenQASM name.
+ */
+const GATES: { [name: string]: GateDefinition } = {
+  U: {
+    params: 3,
+    qubits: 1,
+    create: ([theta, phi, lambda], [q]) => new UGate(q, theta, phi, lambda),
+  },
+  CX: { params: 0, qubits: 2, create: (_, [c, t]) => new CNOTGate(c, t) },
+  u3: {
+    params: 3,
+    qubits: 1,
+    create: ([theta, phi, lambda], [q]) => new UGate(q, theta, phi, lambda),
+  },
+  u: {
+    params: 3,
+    qubits: 1,
+    create: ([theta, phi, lambda], [q]) => new UGate(q, theta, phi, lambda),
+  },
+  u2: {
+    params: 2,
+    qubits: 1,
+    create: ([phi, lambda], [q]) => new UGate(q, Math.PI / 2, phi, lambda),
+  },
+  u1: { params: 1, qubits: 1, create: ([l], [q]) => new PhaseGate(q, l) },
+  p: { params: 1, qubits: 1, create: ([l], [q]) => new PhaseGate(q, l) },
+  id: { params: 0, qubits: 1, create: (_, [q]) => new IdentityGate(q) },
+  x: { params: 0, qubits: 1, create: (_, [q]) => new PauliXGate(q) },
+  y: { params: 0, qubits: 1, create: (_, [q]) => new PauliYGate(q) },
+  z: { params: 0, qubits: 1, create: (_, [q]) => new PauliZGate(q) },
+  h: { params: 0, qubits: 1, create: (_, [q]) => new HadamardGate(q) },
+  s: { params: 0, qubits: 1, create: (_, [q]) => new SGate(q) },
+  sdg: { params: 0, qubits: 1, create: (_, [q]) => new SGate(q, true) },
+  t: { params: 0, qubits: 1, create: (_, [q]) => new TGate(q) },
+  tdg: { params: 0, qubits: 1, create: (_, [q]) => new TGate(q, true) },
+  sx: { params: 0, qubits: 1, create: (_, [q]) => new SXGate(q) },
+  sxdg: { params: 0, qubits: 1, create: (_, [q]) => new SXGate(q, true) },
+  rx: {
+    params: 1,
+    qubits: 1,
+    create: ([a], [q]) => new RotationGate("X", q, a),
+  },
+  ry: {
+    params: 1,
+    qubits: 1,
+    create: ([a], [q]) => new RotationGate("Y", q, a),
+  },
+  rz: {
+    params: 1,
+    qubits: 1,
+    create: ([a], [q]) => new RotationGate("Z", q, a),
+  },
+  cx: { params: 0, qubits: 2, create: (_, [c, t]) => new CNOTGate(c, t) },
+  cy: {
+    params: 0,
+    qubits: 2,
+    create: (_, [c, t]) => new ControlledGate(new PauliYGate(t), [c]),
+  },
+  cz: {
+    params: 0,
+    qubits: 2,
+    create: (_, [c, t]) => new ControlledGate(new PauliZGate(t), [c]),
+  },
+  ch: {
+    params: 0,
+    qubits: 2,
+    create: (_, [c, t]) => new ControlledGate(new HadamardGate(t), [c]),
+  },
+  ccx: {
+    params: 0,
+    qubits: 3,
+    create: (_, [c1, c2, t]) => new ControlledGate(new PauliXGate(t), [c1, c2]),
+  },
+  crx: {
+    params: 1,
+    qubits: 2,
+    create: ([a], [c, t]) =>
+      new ControlledGate(new RotationGate("X", t, a), [c]),
+  },
+  cry: {
+    params: 1,
+    qubits: 2,
+    create: ([a], [c, t]) =>
+      new ControlledGate(new RotationGate("Y", t, a), [c]),
+  },
+  crz: {
+    params: 1,
+    qubits: 2,
+    create: ([a], [c, t]) =>
+      new ControlledGate(new RotationGate("Z", t, a), [c]),
+  },
+  cu1: {
+    params: 1,
+    qubits: 2,
+    create: ([l], [c, t]) => new ControlledGate(new PhaseGate(t, l), [c]),
+  },
+  cp: {
+    params: 1,
+    qubits: 2,
+    create: ([l], [c, t]) => new ControlledGate(new PhaseGate(t, l), [c]),
+  },
+  swap: { params: 0, qubits: 2, create: (_, [a, b]) => new SwapGate(a, b) },
+  cswap: {
+    params: 0,
+    qubits: 3,
+    create: (_, [c, a, b]) => new ControlledGate(new SwapGate(a, b), [c]),
+  },
+  cu3: {
+    params: 3,
+    qubits: 2,
+    create: ([theta, phi, lambda], [c, t]) =>
+      new ControlledGate(new UGate(t, theta, phi, lambda), [c]),
+  },
+};
+
+/**
+ * The functions allowed in OpenQASM 2.0 parameter expressions.
+ */
+const FUNCTIONS: { [name: string]: (x: number) => number } = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  ln: Math.log,
+  sqrt: Math.sqrt,
+};
+
+/**
+ * Statements that are valid OpenQASM 2.0 but cannot be represented in a Circuit.
+ */
+const UNSUPPORTED_STATEMENTS: { [keyword: string]: string } = {
+  gate: "Custom gate definitions are not supported.",
+  opaque: "Opaque gate declarations are not supported.",
+};
+
+/**
+ * A register declared with `qreg` or `creg`.
+ */
+interface DeclaredRegister {
+  name: string;
+  size: number;
+  start: number;
+  classical: boolean;
+}
+
+/**
+ * The patterns of the tokens, and of the whitespace and comments between them. They are sticky,
+ * so each one is matched at the current position of the source without copying the rest of it.
+ * They are built with the RegExp constructor, as the `y` flag of regular expression literals needs an ES2015 target.
+ */
+const TOKEN_PATTERNS: { type: Token["type"] | "skip"; pattern: RegExp }[] = [
+  { type: "skip", pattern: new RegExp("\\s+|//[^\\n]*", "y") },
+  { type: "id", pattern: new RegExp("[A-Za-z_][A-Za-z0-9_]*", "y") },
+  {
+    type: "number",
+    pattern: new RegExp("(\\d+\\.?\\d*|\\.\\d+)([eE][-+]?\\d+)?", "y"),
+  },
+  { type: "string", pattern: new RegExp('"[^"\\n]*"', "y") },
+  {
+    type: "symbol",
+    pattern: new RegExp("->|==|[;,()[\\]{}+\\-*/^]", "y"),
+  },
+];
+
+/**
+ * Splits an OpenQASM program into tokens, skipping whitespace and `//` comments.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  while (i < source.length) {
+    let type: Token["type"] | "skip" | undefined;
+    let text = "";
+    for (let k = 0; k < TOKEN_PATTERNS.length && type === undefined; k++) {
+      const { pattern } = TOKEN_PATTERNS[k];
+      pattern.lastIndex = i;
+      const match = pattern.exec(source);
+      if (match) {
+        type = TOKEN_PATTERNS[k].type;
+        text = match[0];
+      }
+    }
+    if (type === undefined) {
+      throw new QASMParseError(
+        `Unexpected character '${source[i]}'.`,
+        line,
+        column
+      );
+    }
+    if (type !== "skip") {
+      tokens.push({
+        type,
+        text: type === "string" ? text.slice(1, -1) : text,
+        line,
+        column,
+      });
+    }
+    for (let k = 0; k < text.length; k++) {
+      if (text[k] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    i += text.length;
+  }
+
+  tokens.push({ type: "eof", text: "", line, column });
+  return tokens;
+}
+
+/**
+ * A recursive-descent parser for the subset of OpenQASM 2.0 that maps onto a Circuit.
+ */
+class QASM2Parser {
+  private tokens: Token[];
+  private position = 0;
+  private registers: DeclaredRegister[] = [];
+  private gates: IGate[] = [];
+
+  /**
+   * An empty circuit with the wires declared so far, which the gates of each statement are validated against.
+   */
+  private scratch = new Circuit(0, 0);
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  /**
+   * Parses the whole program and builds the circuit.
+   */
+  parse(): Circuit {
+    this.parseHeader();
+    while (this.peek().type !== "eof") {
+      this.parseStatement();
+    }
+
+    const circuit = new Circuit(this.wireCount(false), this.wireCount(true));
+    const quantum = this.registers.filter((r) => !r.classical);
+    const classical = this.registers.filter((r) => r.classical);
+    quantum.forEach((r) => circuit.addQuantumRegister(r.name, r.size));
+    classical.forEach((r) => circuit.addClassicalRegister(r.name, r.size));
+    this.gates.forEach((gate) => circuit.addGate(gate));
+    return circuit;
+  }
+
+  private parseHeader(): void {
+    const keyword = this.peek();
+    if (keyword.type !== "id" || keyword.text !== "OPENQASM") {
+      this.fail("Expected 'OPENQASM 2.0;' at the start of the program.");
+    }
+    this.next();
+    const version = this.expectType("number", "a version number");
+    if (version.text !== "2" && !/^2\.0*$/.test(version.text)) {
+      this.fail(
+        `Unsupported OpenQASM version '${version.text}'; only 2.0 is supported.`,
+        version
+      );
+    }
+    this.expectSymbol(";");
+  }
+
+  private parseStatement(): void {
+    const token = this.peek();
+    if (token.type !== "id") {
+      this.fail(`Unexpected '${token.text}'.`);
+    }
+    const start = this.gates.length;
+
+    if (token.text === "include") {
+      this.next();
+      const file = this.expectType("string", "a file name");
+      if (file.text !== "qelib1.inc") {
+        this.fail(
+          `Cannot include '${file.text}'; only "qelib1.inc" is supported.`,
+          file
+        );
+      }
+      this.expectSymbol(";");
+    } else if (token.text === "qreg" || token.text === "creg") {
+      this.parseRegisterDeclaration(token.text === "creg");
+    } else if (token.text === "if") {
+      this.parseConditional();
+    } else if (token.text === "barrier") {
+      this.parseBarrier();
+    } else if (UNSUPPORTED_STATEMENTS[token.text]) {
+      this.fail(UNSUPPORTED_STATEMENTS[token.text]);
+    } else {
+      this.gates.push(...this.parseQuantumOperation());
+    }
+    this.validateStatement(start, token);
+  }
+
+  /**
+   * Checks the gates added by the statement starting at `token`, so an invalid gate
+   * (e.g. `rx(pi/0) q[0];`) is reported at its own statement rather than when the circuit is built.
+   */
+  private validateStatement(start: number, token: Token): void {
+    const gates = this.gates.slice(start);
+    if (gates.length === 0) {
+      return;
+    }
+    gates.forEach((gate) => {
+      const issues = validateGate(this.scratch, gate);
+      if (issues.length > 0) {
+        this.fail(issues[0].message, token);
+      }
+    });
+  }
+
+  /**
+   * Returns the number of qubits (or classical bits) declared so far.
+   */
+  private wireCount(classical: boolean): number {
+    return this.registers
+      .filter((r) => r.classical === classical)
+      .reduce((total, r) => total + r.size, 0);
+  }
+
+  /**
+   * Parses `if (creg == value) <operation>;` and conditions the operation on the whole register.
+   */
+  private parseConditional(): void {
+    this.next();
+    this.expectSymbol("(");
+    const name = this.expectType("id", "a classical register");
+    const register = this.findRegister(name, true);
+    this.expectSymbol("==");
+    const valueToken = this.peek();
+    const value = this.parseInteger();
+    this.expectSymbol(")");
+
+    const clbits: number[] = [];
+    for (let i = 0; i < register.size; i++) {
+      clbits.push(register.start + i);
+    }
+    const operations = this.parseQuantumOperation();
+    try {
+      operations.forEach((gate) => this.gates.push(cIf(gate, clbits, value)));
+    } catch (error) {
+      this.fail((error as Error).message, valueToken);
+    }
+  }
+
+  /**
+   * Parses `barrier <arguments>;` into one barrier across every qubit of its arguments.
+   */
+  private parseBarrier(): void {
+    this.next();
+    const qubits = this.parseArgument(false);
+    while (this.isSymbol(",")) {
+      this.next();
+      qubits.push(...this.parseArgument(false));
+    }
+    this.expectSymbol(";");
+    this.gates.push(
+      new BarrierGate(qubits.filter((qubit, i) => qubits.indexOf(qubit) === i))
+    );
+  }
+
+  /**
+   * Parses a measurement, a reset or a gate application, which may broadcast over registers.
+   */
+  private parseQuantumOperation(): IGate[] {
+    const token = this.peek();
+    if (token.type !== "id" || UNSUPPORTED_STATEMENTS[token.text]) {
+      this.fail(`Expected a quantum operation but found '${token.text}'.`);
+    }
+    if (token.text === "measure") {
+      return this.parseMeasure();
+    }
+    if (token.text === "reset") {
+      this.next();
+      const qubits = this.parseArgument(false);
+      this.expectSymbol(";");
+      return qubits.map((qubit) => new ResetGate(qubit));
+    }
+    return this.parseGateApplication();
+  }
+
+  /**
+   * Parses `measure <qubits> -> <clbits>;`.
+   */
+  private parseMeasure(): IGate[] {
+    const keyword = this.next();
+    const qubits = this.parseArgument(false);
+    this.expectSymbol("->");
+    const clbits = this.parseArgument(true);
+    this.expectSymbol(";");
+    if (qubits.length !== clbits.length) {
+      this.fail(
+        "The qubit and classical arguments of 'measure' have different sizes.",
+        keyword
+      );
+    }
+    return qubits.map((qubit, i) => new MeasureGate(qubit, clbits[i]));
+  }
+
+  private parseRegisterDeclaration(classical: boolean): void {
+    this.next();
+    const name = this.expectType("id", "a register name");
+    if (this.registers.some((r) => r.name === name.text)) {
+      this.fail(`Register '${name.text}' is already declared.`, name);
+    }
+    this.expectSymbol("[");
+    const size = this.parseInteger();
+    if (size === 0) {
+      this.fail(`Register '${name.text}' must have at least one bit.`, name);
+    }
+    this.expectSymbol("]");
+    this.expectSymbol(";");
+
+    const start = this.wireCount(classical);
+    this.registers.push({ name: name.text, size, start, classical });
+    this.scratch.numQubits = this.wireCount(false);
+    this.scratch.numClbits = this.wireCount(true);
+  }
+
+  private parseGateApplication(): IGate[] {
+    const nameToken = this.next();
+    const definition = GATES[nameToken.text];
+    if (!definition) {
+      this.fail(`Unsupported gate '${nameToken.text}'.`, nameToken);
+    }
+
+    const params: number[] = [];
+    if (this.isSymbol("(")) {
+      this.next();
+      if (!this.isSymbol(")")) {
+        params.push(this.parseExpression());
+        while (this.isSymbol(",")) {
+          this.next();
+          params.push(this.parseExpression());
+        }
+      }
+      this.expectSymbol(")");
+    }
+    if (params.length !== definition.params) {
+      this.fail(
+        `Gate '${nameToken.text}' expects ${definition.params} parameter(s) but got ${params.length}.`,
+        nameToken
+      );
+    }
+
+    const args: number[][] = [this.parseArgument(false)];
+    while (this.isSymbol(",")) {
+      this.next();
+      args.push(this.parseArgument(false));
+    }
+    this.expectSymbol(";");
+    if (args.length !== definition.qubits) {
+      this.fail(
+        `Gate '${nameToken.text}' expects ${definition.qubits} qubit argument(s) but got ${args.length}.`,
+        nameToken
+      );
+    }
+
+    // Whole-register arguments broadcast the gate over every index of the register.
+    const sizes = args.map((a) => a.length).filter((n) => n > 1);
+    const repeat = sizes.length > 0 ? sizes[0] : 1;
+    if (sizes.some((n) => n !== repeat)) {
+      this.fail(
+        `Register arguments of gate '${nameToken.text}' have different sizes.`,
+        nameToken
+      );
+    }
+
+    const gates: IGate[] = [];
+    for (let i = 0; i < repeat; i++) {
+      const qubits = args.map((a) => (a.length === 1 ? a[0] : a[i]));
+      try {
+        gates.push(definition.create(params, qubits));
+      } catch (error) {
+        this.fail((error as Error).message, nameToken);
+      }
+    }
+    return gates;
+  }
+
+  /**
+   * Parses `name` or `name[index]` and returns the referenced qubit or classical bit indices.
+   */
+  private parseArgument(classical: boolean): number[] {
+    const name = this.expectType(
+      "id",
+      classical ? "a classical register" : "a qubit register"
+    );
+    const register = this.findRegister(name, classical);
+
+    if (!this.isSymbol("[")) {
+      const indices: number[] = [];
+      for (let i = 0; i < register.size; i++) {
+        indices.push(register.start + i);
+      }
+      return indices;
+    }
+
+    this.next();
+    const indexToken = this.peek();
+    const index = this.parseInteger();
+    if (index >= register.size) {
+      this.fail(
+        `Index ${index} is out of range for register '${name.text}' of size ${register.size}.`,
+        indexToken
+      );
+    }
+    this.expectSymbol("]");
+    return [register.start + index];
+  }
+
+  /**
+   * Looks up a declared register of the expected kind by its name token.
+   */
+  private findRegister(name: Token, classical: boolean): DeclaredRegister {
+    const register = this.registers.find((r) => r.name === name.text);
+    if (!register) {
+      this.fail(`Unknown register '${name.text}'.`, name);
+    }
+    if (register.classical !== classical) {
+      this.fail(
+        classical
+          ? `'${name.text}' is a quantum register but a classical register is expected.`
+          : `'${name.text}' is a classical register and cannot be used as a qubit.`,
+        name
+      );
+    }
+    return register;
+  }
+
+  private parseInteger(): number {
+    const token = this.expectType("number", "an integer");
+    if (!/^\d+$/.test(token.text)) {
+      this.fail(`Expected an integer but found '${token.text}'.`, token);
+    }
+    return parseInt(token.text, 10);
+  }
+
+  /**
+   * expression := term (('+' | '-') term)*
+   */
+  private parseExpression(): number {
+    let value = this.parseTerm();
+    while (this.isSymbol("+") || this.isSymbol("-")) {
+      const op = this.next().text;
+      const right = this.parseTerm();
+      value = op === "+" ? value + right : value - right;
+    }
+    return value;
+  }
+
+  /**
+   * term := unary (('*' | '/') unary)*
+   */
+  private parseTerm(): number {
+    let value = this.parseUnary();
+    while (this.isSymbol("*") || this.isSymbol("/")) {
+      const op = this.next().text;
+      const right = this.parseUnary();
+      value = op === "*" ? value * right : value / right;
+    }
+    return value;
+  }
+
+  /**
+   * unary := '-' unary | power
+   */
+  private parseUnary(): number {
+    if (this.isSymbol("-")) {
+      this.next();
+      return -this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  /**
+   * power := primary ('^' unary)?
+   */
+  private parsePower(): number {
+    const base = this.parsePrimary();
+    if (this.isSymbol("^")) {
+      this.next();
+      return Math.pow(base, this.parseUnary());
+    }
+    return base;
+  }
+
+  /**
+   * primary := number | 'pi' | function '(' expression ')' | '(' expression ')'
+   */
+  private parsePrimary(): number {
+    const token = this.next();
+    if (token.type === "number") {
+      return parseFloat(token.text);
+    }
+    if (token.type === "symbol" && token.text === "(") {
+      const value = this.parseExpression();
+      this.expectSymbol(")");
+      return value;
+    }
+    if (token.type === "id") {
+      if (token.text === "pi") {
+        return Math.PI;
+      }
+      const fn = FUNCTIONS[token.text];
+      if (fn) {
+        this.expectSymbol("(");
+        const value = this.parseExpression();
+        this.expectSymbol(")");
+        return fn(value);
+      }
+      this.fail(`Unknown identifier '${token.text}' in expression.`, token);
+    }
+    this.fail(`Expected an expression but found '${token.text}'.`, token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== "eof") {
+      this.position++;
+    }
+    return token;
+  }
+
+  private isSymbol(text: string): boolean {
+    const token = this.peek();
+    return token.type === "symbol" && token.text === text;
+  }
+
+  private expectSymbol(text: string): Token {
+    if (!this.isSymbol(text)) {
+      const found = this.peek();
+      this.fail(
+        `Expected '${text}' but found ${
+          found.type === "eof" ? "end of input" : `'${found.text}'`
+        }.`
+      );
+    }
+    return this.next();
+  }
+
+  private expectType(type: Token["type"], description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      this.fail(
+        `Expected ${description} but found ${
+          token.type === "eof" ? "end of input" : `'${token.text}'`
+        }.`
+      );
+    }
+    return this.next();
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new QASMParseError(message, token.line, token.column);
+  }
+}
+
+/**
+ * Parses an OpenQASM 2.0 program into a Circuit.
+ * Each `qreg` is mapped onto consecutive qubits in declaration order and recorded
+ * as a named register on the circuit, so qubit labels keep their register names.
+ *
+ * @param source - The OpenQASM 2.0 source code.
+ * @returns The parsed circuit.
+ *
+ * @throws {QASMParseError} Will throw an error, with the line and column of the offending token,
+ * if the program is malformed, uses unsupported statements or gates, or applies an invalid gate
+ * (e.g. an angle that is not a finite number).
+ *
+ * @example
+ * ```typescript
+ * const circuit = parseQASM2(`
+ *   OPENQASM 2.0;
+ *   include "qelib1.inc";
+ *   qreg q[2];
+ *   h q[0];
+ *   cx q[0], q[1];
+ * `);
+ * ```
+ */
+export function parseQASM2(source: string): Circuit {
+  return new QASM2Parser(source).parse();
+}
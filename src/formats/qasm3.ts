@@ -0,0 +1,154 @@
+/**
+ * @file qasm3.ts
+ * @description Serializes Circuit objects to OpenQASM 3 programs.
+ */
+
+import { Circuit, Register } from "../Circuit";
+import { ClassicalCondition } from "../gates/ClassicalCondition";
+import { BarrierGate } from "../gates/BarrierGate";
+
+/**
+ * Serializes a circuit to an OpenQASM 3 program.
+ * Every gate is emitted through its `toQASM()` method, so angles keep their exact radian values,
+ * and gates outside the standard library contribute their `toQASMDefinition()`.
+ * Quantum and classical registers of the circuit are declared as named `qubit` and `bit` arrays
+ * when they cover every wire; otherwise single `q` and `c` arrays are declared.
+ * Classically controlled gates are wrapped in `if` statements.
+ * Symbolic parameters are declared as `input angle` variables, so the program can be bound when it is run.
+ * Barrier titles and annotations are written as `//` comments before the statement they belong to.
+ *
+ * @param circuit - The circuit to serialize.
+ * @returns The OpenQASM 3 source code.
+ *
+ * @throws {Error} Will throw an error if a gate does not implement `toQASM()`.
+ *
+ * @example
+ * ```typescript
+ * const circuit = new Circuit(2);
+ * circuit.addGate(new HadamardGate(0));
+ * circuit.addGate(new CNOTGate(0, 1));
+ * toQASM3(circuit);
+ * // OPENQASM 3.0;
+ * // include "stdgates.inc";
+ * // qubit[2] q;
+ * // h q[0];
+ * // cx q[0], q[1];
+ * ```
+ */
+export function toQASM3(circuit: Circuit): string {
+  const lines = ["OPENQASM 3.0;", 'include "stdgates.inc";'];
+
+  // Emit the definitions of non-standard gates once, before they are used.
+  circuit.gates.forEach((gate) => {
+    const definition =
+      typeof gate.toQASMDefinition === "function"
+        ? gate.toQASMDefinition()
+        : "";
+    if (definition && lines.indexOf(definition) === -1) {
+      lines.push(definition);
+    }
+  });
+
+  circuit.parameters().forEach((name) => lines.push(`input angle ${name};`));
+
+  const qubit = declareWires(
+    lines,
+    "qubit",
+    circuit.quantumRegisters,
+    circuit.numQubits,
+    "q",
+    (index) => circuit.qubitLabel(index)
+  );
+  const clbit = declareWires(
+    lines,
+    "bit",
+    circuit.classicalRegisters,
+    circuit.numClbits,
+    "c",
+    (index) => circuit.clbitLabel(index)
+  );
+
+  circuit.gates.forEach((gate, index) => {
+    if (typeof gate.toQASM !== "function") {
+      throw new Error(
+        `Gate '${gate.name}' at index ${index} cannot be exported to OpenQASM because it does not implement toQASM().`
+      );
+    }
+    if (gate instanceof BarrierGate && gate.title) {
+      lines.push(`// ${gate.title}`);
+    }
+    circuit.annotations.forEach((annotation) => {
+      if (annotation.gate === index) {
+        lines.push(`// ${annotation.text}`);
+      }
+    });
+    const statement = gate.toQASM(
+      gate.qubits.map(qubit),
+      (gate.clbits || []).map(clbit)
+    );
+    lines.push(
+      gate.condition
+        ? `if (${formatCondition(
+            circuit,
+            gate.condition,
+            clbit
+          )}) ${statement};`
+        : `${statement};`
+    );
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Declares the wires of one kind (qubits or bits) and returns a function formatting their operands.
+ * Registers are declared by name when they cover every wire; otherwise a single array with the default name is used.
+ */
+function declareWires(
+  lines: string[],
+  type: string,
+  registers: Register[],
+  count: number,
+  defaultName: string,
+  label: (index: number) => string
+): (index: number) => string {
+  const covered = registers.reduce((total, r) => total + r.size, 0);
+  if (registers.length > 0 && covered === count) {
+    registers.forEach((r) => lines.push(`${type}[${r.size}] ${r.name};`));
+    return label;
+  }
+  if (count > 0) {
+    lines.push(`${type}[${count}] ${defaultName};`);
+  }
+  return (index) => `${defaultName}[${index}]`;
+}
+
+/**
+ * Formats a classical condition as an OpenQASM 3 boolean expression.
+ * A condition on a whole register, in bit order, compares the register to the value;
+ * any other set of bits compares each bit individually.
+ */
+function formatCondition(
+  circuit: Circuit,
+  condition: ClassicalCondition,
+  clbit: (index: number) => string
+): string {
+  const { clbits, value } = condition;
+  const register = circuit.classicalRegisters.find(
+    (r) =>
+      r.size === clbits.length &&
+      clbits.every((bit, i) => bit === r.start + i) &&
+      clbit(r.start) === `${r.name}[0]`
+  );
+  if (register) {
+    return `${register.name} == ${value}`;
+  }
+  if (clbits.length === 1) {
+    return `${clbit(clbits[0])} == ${value}`;
+  }
+  return clbits
+    .map(
+      (bit, i) => `${clbit(bit)} == ${Math.floor(value / Math.pow(2, i)) % 2}`
+    )
+    .join(" && ");
+}
@@ -0,0 +1,429 @@
+/**
+ * @file quantikz.ts
+ * @description Exports Circuit objects to LaTeX using the quantikz package.
+ */
+
+import { Circuit } from "../Circuit";
+import { Layout, GatePlacement } from "../Layout";
+import { IGate } from "../gates/IGate";
+import { ControlledGate } from "../gates/ControlledGate";
+import { RotationGate } from "../gates/RotationGate";
+import { PhaseGate } from "../gates/PhaseGate";
+import { UGate } from "../gates/UGate";
+import { SGate } from "../gates/SGate";
+import { TGate } from "../gates/TGate";
+import { SXGate } from "../gates/SXGate";
+import { IdentityGate } from "../gates/IdentityGate";
+import { PauliXGate } from "../gates/PauliXGate";
+import { PauliZGate } from "../gates/PauliZGate";
+import { SwapGate } from "../gates/SwapGate";
+import { ISwapGate } from "../gates/ISwapGate";
+import { MultiQubitGate } from "../gates/MultiQubitGate";
+import { MeasureGate } from "../gates/MeasureGate";
+import { ResetGate } from "../gates/ResetGate";
+import { BarrierGate } from "../gates/BarrierGate";
+import { ParameterValue } from "../Parameter";
+import { AngleUnit, AngleFormatOptions, formatAngle } from "../angles";
+
+/**
+ * The LaTeX command names of the Greek letters, keyed by letter.
+ */
+const GREEK_LETTERS: { [letter: string]: string } = {
+  α: "alpha",
+  β: "beta",
+  γ: "gamma",
+  δ: "delta",
+  ε: "epsilon",
+  ζ: "zeta",
+  η: "eta",
+  θ: "theta",
+  ι: "iota",
+  κ: "kappa",
+  λ: "lambda",
+  μ: "mu",
+  ν: "nu",
+  ξ: "xi",
+  π: "pi",
+  ρ: "rho",
+  σ: "sigma",
+  τ: "tau",
+  υ: "upsilon",
+  φ: "phi",
+  χ: "chi",
+  ψ: "psi",
+  ω: "omega",
+  Γ: "Gamma",
+  Δ: "Delta",
+  Θ: "Theta",
+  Λ: "Lambda",
+  Ξ: "Xi",
+  Π: "Pi",
+  Σ: "Sigma",
+  Φ: "Phi",
+  Ψ: "Psi",
+  Ω: "Omega",
+};
+
+/**
+ * The Unicode subscript digits, in order, allowed at the end of parameter names.
+ */
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+/**
+ * Options of the quantikz export.
+ */
+export interface QuantikzOptions {
+  /**
+   * The unit gate angles are written in: fractions of π ("pi"), "degrees" or "radians". Defaults to "pi".
+   */
+  angleUnit?: AngleUnit;
+
+  /**
+   * The largest number of decimals of gate angles that are not fractions of π, and of numeric factors. Defaults to 4.
+   */
+  anglePrecision?: number;
+}
+
+/**
+ * Exports a circuit to a quantikz `tikzcd` environment.
+ * Gates are placed in the same columns as in the SVG diagram. Controlled-NOT gates use `\ctrl{}` and `\targ{}`,
+ * SWAP gates `\swap{}` and `\targX{}`, measurements `\meter{}`, and other gates `\gate{}` with a math label;
+ * angles are written as multiples of π where possible, e.g. `R_x(\pi/2)`, or in the unit of the options,
+ * and symbolic parameters with Greek letters and subscripts, e.g. `R_y(2\theta_{1})`. Barriers and slice markers become `\slice{}` with their title,
+ * gate annotations are written in a row above the wires and column annotations in a row below them.
+ * Custom qubit names and initial states are written with `\lstick{}`, and output labels with `\rstick{}`.
+ * The output needs `\usepackage{quantikz}` in the document preamble.
+ *
+ * @param circuit - The circuit to export.
+ * @param options - (Optional) How angles are written.
+ * @returns The LaTeX source of the quantikz environment.
+ *
+ * @example
+ * ```typescript
+ * const circuit = new Circuit(2);
+ * circuit.addGate(new HadamardGate(0));
+ * circuit.addGate(new CNOTGate(0, 1));
+ * toQuantikz(circuit);
+ * // \begin{quantikz}
+ * // \lstick{$q_{0}$} & \gate{H} & \ctrl{1} & \qw \\
+ * // \lstick{$q_{1}$} & \qw & \targ{} & \qw
+ * // \end{quantikz}
+ *
+ * toQuantikz(circuit, { angleUnit: "degrees" }); // R_x(90^{\circ}) for a quarter turn
+ * ```
+ */
+export function toQuantikz(
+  circuit: Circuit,
+  options: QuantikzOptions = {}
+): string {
+  const layout = new Layout(circuit);
+  const angles: AngleFormatOptions = {
+    unit: options.angleUnit,
+    precision:
+      options.anglePrecision === undefined ? 4 : options.anglePrecision,
+  };
+  const { numQubits, numClbits } = circuit;
+
+  // One row per wire, with a cell per column plus a trailing wire segment.
+  const rows: string[][] = [];
+  for (let row = 0; row < numQubits + numClbits; row++) {
+    const wire = row < numQubits ? "\\qw" : "\\cw";
+    const cells: string[] = [];
+    for (let column = 0; column <= layout.numColumns; column++) {
+      cells.push(wire);
+    }
+    rows.push(cells);
+  }
+
+  const placements: GatePlacement[] = [];
+  for (let column = 0; column < layout.numColumns; column++) {
+    placements.push(...layout.drawnPlacements(column));
+  }
+  placements.forEach(({ gate, column }) => {
+    const set = (row: number, cell: string) => (rows[row][column] = cell);
+    placeGate(gate, gate.qubits, set, angles);
+
+    if (gate instanceof MeasureGate) {
+      const clbitRow = numQubits + gate.clbits[0];
+      set(gate.qubits[0], `\\meter{} \\vcw{${clbitRow - gate.qubits[0]}}`);
+    }
+    if (gate.condition) {
+      const { clbits, value } = gate.condition;
+      const bottom = Math.max(...gate.qubits);
+      const last = numQubits + Math.max(...clbits);
+      rows[bottom][column] += ` \\vcw{${last - bottom}}`;
+      clbits.forEach((bit, i) => {
+        const isSet = Math.floor(value / Math.pow(2, i)) % 2 === 1;
+        set(numQubits + bit, isSet ? "\\control{}" : "\\ocontrol{}");
+      });
+    }
+  });
+
+  const labels: string[] = [];
+  for (let i = 0; i < numQubits; i++) {
+    const name = wireLabel(
+      circuit.qubitNames[i] !== undefined
+        ? circuit.qubitNames[i]
+        : circuit.qubitLabel(i)
+    );
+    const state = circuit.initialStates[i];
+    labels.push(
+      state !== undefined ? `${name} $\\ket{${latexSymbol(state)}}$` : name
+    );
+  }
+
+  // Output labels get a cell of their own after the wires.
+  const outputs = Object.keys(circuit.outputLabels).length > 0;
+  if (outputs) {
+    rows.forEach((cells, row) => {
+      const label = row < numQubits ? circuit.outputLabels[row] : undefined;
+      cells.push(label !== undefined ? `\\rstick{${textMode(label)}}` : "");
+    });
+  }
+  for (let i = 0; i < numClbits; i++) {
+    labels.push(wireLabel(circuit.clbitLabel(i)));
+  }
+
+  // Annotations are written in rows of their own, without wires.
+  const notes = (target: "gate" | "column"): string[] => {
+    const texts: string[][] = [];
+    for (let column = 0; column <= layout.numColumns; column++) {
+      texts.push([]);
+    }
+    layout.annotations.forEach(({ annotation, column }) => {
+      if (annotation.target === target) {
+        texts[column].push(annotation.text);
+      }
+    });
+    return texts.some((column) => column.length > 0)
+      ? [
+          [""]
+            .concat(
+              texts.map((column) =>
+                column.length > 0 ? `\\mbox{${textMode(column.join(" "))}}` : ""
+              )
+            )
+            .join(" & "),
+        ]
+      : [];
+  };
+
+  const body = notes("gate")
+    .concat(
+      rows.map((cells, row) =>
+        [`\\lstick{${labels[row]}}`].concat(cells).join(" & ")
+      ),
+      notes("column")
+    )
+    .join(" \\\\\n");
+  return `\\begin{quantikz}\n${body}\n\\end{quantikz}\n`;
+}
+
+/**
+ * Writes the cells of a gate acting on the given qubit rows.
+ * Controlled gates place their base gate first, with Pauli-X targets as `\targ{}` and Pauli-Z targets as dots,
+ * then a control on each control row pointing to the nearest target.
+ */
+function placeGate(
+  gate: IGate,
+  qubits: number[],
+  set: (row: number, cell: string) => void,
+  angles: AngleFormatOptions,
+  controlled = false
+): void {
+  if (gate instanceof ControlledGate) {
+    const targets = qubits.slice(gate.controls.length);
+    placeGate(gate.base, targets, set, angles, true);
+    gate.controls.forEach((control) => {
+      const target = targets.reduce((nearest, row) =>
+        Math.abs(row - control) < Math.abs(nearest - control) ? row : nearest
+      );
+      const command = gate.isOpenControl(control) ? "\\octrl" : "\\ctrl";
+      set(control, `${command}{${target - control}}`);
+    });
+  } else if (controlled && gate instanceof PauliXGate) {
+    set(qubits[0], "\\targ{}");
+  } else if (controlled && gate instanceof PauliZGate) {
+    set(qubits[0], "\\control{}");
+  } else if (gate instanceof SwapGate) {
+    const [top, bottom] = qubits.slice().sort((a, b) => a - b);
+    set(top, `\\swap{${bottom - top}}`);
+    set(bottom, "\\targX{}");
+  } else if (gate instanceof BarrierGate) {
+    set(Math.min(...qubits), `\\qw \\slice{${textMode(gate.title)}}`);
+  } else if (gate instanceof MeasureGate) {
+    // The meter and its classical wire are written by the caller.
+  } else if (qubits.length > 1) {
+    placeBlock(gate, qubits, set, angles);
+  } else {
+    set(qubits[0], `\\gate{${gateLabel(gate, angles)}}`);
+  }
+}
+
+/**
+ * Writes a gate spanning several qubits as one `\gate[wires=n]` box from its top to its bottom qubit.
+ * Wires inside the span that the gate does not act on are listed in `nwires` so they are drawn through the box,
+ * and each input of a MultiQubitGate gets its label with `\gateinput`.
+ */
+function placeBlock(
+  gate: IGate,
+  qubits: number[],
+  set: (row: number, cell: string) => void,
+  angles: AngleFormatOptions
+): void {
+  const top = Math.min(...qubits);
+  const bottom = Math.max(...qubits);
+  const skipped: number[] = [];
+  for (let row = top; row <= bottom; row++) {
+    if (qubits.indexOf(row) === -1) {
+      skipped.push(row - top + 1);
+    }
+  }
+  const options = [`wires=${bottom - top + 1}`];
+  if (skipped.length > 0) {
+    options.push(`nwires={${skipped.join(",")}}`);
+  }
+
+  const inputs: { [row: number]: string } = {};
+  if (gate instanceof MultiQubitGate) {
+    qubits.forEach(
+      (row, i) =>
+        (inputs[row] = ` \\gateinput{$${latexText(gate.inputLabels[i])}$}`)
+    );
+  }
+  set(
+    top,
+    `\\gate[${options.join(", ")}]{${gateLabel(gate, angles)}}${
+      inputs[top] || ""
+    }`
+  );
+  qubits
+    .filter((row) => row !== top)
+    .forEach((row) => set(row, `\\qw${inputs[row] || ""}`));
+}
+
+/**
+ * Returns the math-mode label of a gate, using the gate's parameters rather than its display name.
+ */
+function gateLabel(gate: IGate, angles: AngleFormatOptions): string {
+  const parameter = (value: ParameterValue) => latexParameter(value, angles);
+  if (gate instanceof RotationGate) {
+    return `R_${gate.axis.toLowerCase()}(${parameter(gate.angle)})`;
+  }
+  if (gate instanceof PhaseGate) {
+    return `P(${parameter(gate.angle)})`;
+  }
+  if (gate instanceof UGate) {
+    const values = [gate.theta, gate.phi, gate.lambda].map(parameter);
+    return `U(${values.join(", ")})`;
+  }
+  if (gate instanceof SGate || gate instanceof TGate) {
+    return gate.dagger ? `${gate.name[0]}^\\dagger` : gate.name;
+  }
+  if (gate instanceof SXGate) {
+    return gate.dagger ? "\\sqrt{X}^\\dagger" : "\\sqrt{X}";
+  }
+  if (gate instanceof IdentityGate) {
+    return "I";
+  }
+  if (gate instanceof ResetGate) {
+    return "\\lvert 0 \\rangle";
+  }
+  if (gate instanceof ISwapGate) {
+    return gate.dagger ? "i\\mathrm{SWAP}^\\dagger" : "i\\mathrm{SWAP}";
+  }
+  return latexText(gate.name);
+}
+
+/**
+ * Formats a gate parameter for LaTeX: numbers with `latexAngle()`, and symbolic expressions with their
+ * parameter names as math symbols and numeric factors as plain numbers (e.g. "2\theta + \pi/2").
+ */
+function latexParameter(
+  value: ParameterValue,
+  angles: AngleFormatOptions
+): string {
+  if (typeof value === "number") {
+    return latexAngle(value, angles);
+  }
+  return value.format({
+    angle: (angle) => latexAngle(angle, angles),
+    number: (number) => String(Number(number.toFixed(angles.precision))),
+    parameter: latexSymbol,
+    times: " ",
+  });
+}
+
+/**
+ * Formats an angle in radians for LaTeX as `formatAngle()` does, with LaTeX symbols
+ * (e.g. "\pi/2", "-3\pi/4", "90^{\circ}").
+ */
+function latexAngle(angle: number, angles: AngleFormatOptions): string {
+  return formatAngle(angle, angles)
+    .replace("π", "\\pi")
+    .replace("°", "^{\\circ}");
+}
+
+/**
+ * Formats a parameter name as a math symbol. Greek letters, written as letters or spelled out, become commands,
+ * and a trailing index (digits, subscript digits or anything after an underscore) becomes a subscript,
+ * so "θ₁", "theta1" and "theta_1" are all "\\theta_{1}".
+ */
+function latexSymbol(name: string): string {
+  const plain = name.replace(/[₀-₉]/g, (digit) =>
+    String(SUBSCRIPT_DIGITS.indexOf(digit))
+  );
+  const match = plain.match(/^(.+?)_?(\d+)$/) || plain.match(/^(.+?)_(.+)$/);
+  const stem = match ? match[1] : plain;
+  const index = match ? match[2] : "";
+  const commands = Object.keys(GREEK_LETTERS).map(
+    (letter) => GREEK_LETTERS[letter]
+  );
+  const symbol = GREEK_LETTERS[stem]
+    ? `\\${GREEK_LETTERS[stem]}`
+    : commands.indexOf(stem) !== -1
+    ? `\\${stem}`
+    : latexText(stem);
+  return index ? `${symbol}_{${latexText(index)}}` : symbol;
+}
+
+/**
+ * Formats a wire label such as "q[0]" as a subscripted math label, e.g. "$q_{0}$".
+ */
+function wireLabel(label: string): string {
+  const match = label.match(/^(.*)\[(\d+)\]$/);
+  return match
+    ? `$${latexText(match[1])}_{${match[2]}}$`
+    : `$${latexText(label)}$`;
+}
+
+/**
+ * Formats a plain name for math mode: single letters are kept, longer names are set upright with
+ * LaTeX special characters escaped.
+ */
+function latexText(text: string): string {
+  if (/^[A-Za-z0-9]$/.test(text)) {
+    return text;
+  }
+  const escaped = text.replace(/[\\{}$&#%_^~]/g, (char) =>
+    char === "\\"
+      ? "\\backslash "
+      : char === "^" || char === "~"
+      ? `\\${char}{}`
+      : `\\${char}`
+  );
+  return `\\mathrm{${escaped}}`;
+}
+
+/**
+ * Escapes LaTeX special characters in text-mode content such as slice titles and annotations.
+ */
+function textMode(text: string): string {
+  return text.replace(/[\\{}$&#%_^~]/g, (char) =>
+    char === "\\"
+      ? "\\textbackslash{}"
+      : char === "^" || char === "~"
+      ? `\\${char}{}`
+      : `\\${char}`
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * @file svg.ts
+ * @description Renders quantum circuits to standalone SVG markup without a browser, using svgdom as the DOM implementation for svg.js.
+ */
+
+import { SVG, Svg, withWindow } from "@svgdotjs/svg.js";
+import { Circuit } from "../Circuit";
+import { Renderer } from "../Renderer";
+import { StyleConfig } from "../styles";
+import { loadPackage } from "./packages";
+
+/**
+ * Renders a circuit to an SVG document string.
+ * The circuit is drawn by the same `Renderer.draw()` routine used in the browser,
+ * on an in-memory DOM, so the markup matches the in-browser output.
+ *
+ * @param circuit - The circuit to render.
+ * @param styles - (Optional) Custom styles to override the default rendering styles.
+ * @returns A promise resolving to the SVG markup.
+ *
+ * @example
+ * ```typescript
+ * const svg = await renderToSVGString(circuit, { gateFill: '#e0f7fa' });
+ * ```
+ */
+export async function renderToSVGString(
+  circuit: Circuit,
+  styles?: Partial<StyleConfig>
+): Promise<string> {
+  const { createSVGWindow } = await loadPackage(
+    "svgdom",
+    () => import("svgdom")
+  );
+  const window = createSVGWindow();
+  let markup = "";
+
+  // Render against the in-memory window without replacing the global one svg.js may already use.
+  withWindow(window, () => {
+    const canvas = SVG(window.document.documentElement) as Svg;
+    const renderer = new Renderer(circuit, canvas, styles);
+    renderer.draw();
+    markup = canvas.svg();
+    // Stop following the circuit, which outlives this one-off drawing.
+    renderer.dispose();
+  });
+
+  return markup;
+}
+
+/**
+ * Renders a circuit and writes the SVG markup to a file.
+ *
+ * @param circuit - The circuit to render.
+ * @param path - The path of the file to write.
+ * @param styles - (Optional) Custom styles to override the default rendering styles.
+ *
+ * @example
+ * ```typescript
+ * await renderToSVGFile(circuit, 'docs/bell.svg');
+ * ```
+ */
+export async function renderToSVGFile(
+  circuit: Circuit,
+  path: string,
+  styles?: Partial<StyleConfig>
+): Promise<void> {
+  const markup = await renderToSVGString(circuit, styles);
+  const { writeFile } = await import("fs/promises");
+  await writeFile(path, markup, "utf8");
+}
@@ -0,0 +1,614 @@
+/**
+ * @file text.ts
+ * @description Renders Circuit objects as text diagrams for terminals and logs.
+ */
+
+import { Circuit } from "../Circuit";
+import { Layout, GatePlacement } from "../Layout";
+import { IGate } from "../gates/IGate";
+import { ControlledGate } from "../gates/ControlledGate";
+import { PauliXGate } from "../gates/PauliXGate";
+import { PauliZGate } from "../gates/PauliZGate";
+import { SwapGate } from "../gates/SwapGate";
+import { MultiQubitGate } from "../gates/MultiQubitGate";
+import { MeasureGate } from "../gates/MeasureGate";
+import { ResetGate } from "../gates/ResetGate";
+import { BarrierGate } from "../gates/BarrierGate";
+import { AngleFormatOptions, AngleUnit } from "../angles";
+
+/**
+ * The characters used to draw a text diagram.
+ */
+interface Charset {
+  wire: string;
+  clbitWire: string;
+  vertical: string;
+  doubleVertical: string;
+  dashedVertical: string;
+  /** A vertical line crossing a qubit wire. */
+  cross: string;
+  /** A vertical line crossing a classical wire. */
+  clbitCross: string;
+  /** A double vertical line crossing a qubit wire. */
+  doubleCross: string;
+  /** A double vertical line crossing a classical wire. */
+  clbitDoubleCross: string;
+  control: string;
+  openControl: string;
+  target: string;
+  swap: string;
+  /** A barrier crossing a qubit wire and the lines above and below it. */
+  barrier: string;
+  topLeft: string;
+  topRight: string;
+  bottomLeft: string;
+  bottomRight: string;
+  boxHorizontal: string;
+  boxVertical: string;
+  /** The left side of a box where a wire enters it. */
+  boxLeft: string;
+  /** The right side of a box where a wire leaves it. */
+  boxRight: string;
+  /** A single vertical line joining the top or bottom side of a box. */
+  joinTop: string;
+  joinBottom: string;
+  /** A double vertical line leaving the bottom side of a box. */
+  doubleJoinBottom: string;
+  /** The end of a measurement's double line on its classical wire. */
+  arrow: string;
+  /** The markers at the end and start of folded segments. */
+  foldEnd: string;
+  foldStart: string;
+}
+
+/**
+ * The box-drawing characters used by default.
+ */
+const UNICODE: Charset = {
+  wire: "─",
+  clbitWire: "═",
+  vertical: "│",
+  doubleVertical: "║",
+  dashedVertical: "┆",
+  cross: "┼",
+  clbitCross: "╪",
+  doubleCross: "╫",
+  clbitDoubleCross: "╬",
+  control: "●",
+  openControl: "○",
+  target: "⊕",
+  swap: "╳",
+  barrier: "░",
+  topLeft: "┌",
+  topRight: "┐",
+  bottomLeft: "└",
+  bottomRight: "┘",
+  boxHorizontal: "─",
+  boxVertical: "│",
+  boxLeft: "┤",
+  boxRight: "├",
+  joinTop: "┴",
+  joinBottom: "┬",
+  doubleJoinBottom: "╥",
+  arrow: "╩",
+  foldEnd: "»",
+  foldStart: "«",
+};
+
+/**
+ * Plain ASCII characters, for outputs that do not support Unicode.
+ */
+const ASCII: Charset = {
+  wire: "-",
+  clbitWire: "=",
+  vertical: "|",
+  doubleVertical: "|",
+  dashedVertical: ":",
+  cross: "+",
+  clbitCross: "+",
+  doubleCross: "+",
+  clbitDoubleCross: "+",
+  control: "*",
+  openControl: "o",
+  target: "X",
+  swap: "x",
+  barrier: ":",
+  topLeft: "+",
+  topRight: "+",
+  bottomLeft: "+",
+  bottomRight: "+",
+  boxHorizontal: "-",
+  boxVertical: "|",
+  boxLeft: "|",
+  boxRight: "|",
+  joinTop: "+",
+  joinBottom: "+",
+  doubleJoinBottom: "+",
+  arrow: "v",
+  foldEnd: ">",
+  foldStart: "<",
+};
+
+/**
+ * Options for rendering a circuit as text.
+ */
+export interface TextRenderOptions {
+  /**
+   * The maximum width of a line, in characters. Longer circuits are folded into segments stacked vertically.
+   * Defaults to 80; use `Infinity` to never fold.
+   */
+  maxWidth?: number;
+
+  /**
+   * The characters to draw with: "unicode" box-drawing characters, or plain "ascii". Defaults to "unicode".
+   * Gate labels are written as they are in either case.
+   */
+  charset?: "unicode" | "ascii";
+
+  /**
+   * The unit gate angles are written in: fractions of π ("pi"), "degrees" or "radians". Defaults to "pi".
+   */
+  angleUnit?: AngleUnit;
+
+  /**
+   * The largest number of decimals of gate angles that are not fractions of π. Defaults to 2.
+   */
+  anglePrecision?: number;
+}
+
+/**
+ * The three lines (above the wire, on the wire, below the wire) of every wire in one column, as arrays of characters.
+ */
+type ColumnCells = string[][][];
+
+/**
+ * Renders a circuit as a text diagram, e.g. to print it in a terminal or a test log.
+ * Gates are placed in the same columns as in the SVG diagram. Each wire takes three lines; gates are drawn
+ * as labelled boxes, controls as `●` (`○` when open) joined to their targets, and CNOT targets as `⊕`.
+ * Barriers are drawn as `░` across their qubits. Barrier titles and gate annotations are written on a line
+ * above the diagram, and column annotations on a line below it, centered on their columns.
+ * Circuits wider than `maxWidth` are folded into segments, marked with `»` and `«`.
+ *
+ * @param circuit - The circuit to render.
+ * @param options - (Optional) Rendering options.
+ * @returns The diagram, one line per line of text.
+ *
+ * @example
+ * ```typescript
+ * const circuit = new Circuit(2);
+ * circuit.addGate(new HadamardGate(0));
+ * circuit.addGate(new CNOTGate(0, 1));
+ * console.log(renderToText(circuit));
+ * //        ┌───┐
+ * // q[0]: ─┤ H ├──●──
+ * //        └───┘  │
+ * //               │
+ * // q[1]: ────────⊕──
+ * ```
+ */
+export function renderToText(
+  circuit: Circuit,
+  options: TextRenderOptions = {}
+): string {
+  const chars = options.charset === "ascii" ? ASCII : UNICODE;
+  const angles: AngleFormatOptions = {
+    unit: options.angleUnit,
+    precision: options.anglePrecision,
+  };
+  const maxWidth =
+    options.maxWidth === undefined ? 80 : Math.max(options.maxWidth, 1);
+  const layout = new Layout(circuit);
+  const { numQubits, numClbits } = circuit;
+  const numRows = numQubits + numClbits;
+
+  // Collect the titles and annotations written above and below every column.
+  const headers: string[][] = [];
+  const footers: string[][] = [];
+  for (let column = 0; column < layout.numColumns; column++) {
+    headers.push(
+      layout
+        .drawnPlacements(column)
+        .map(({ gate }) => (gate instanceof BarrierGate ? gate.title : ""))
+        .filter((title) => title !== "")
+    );
+    footers.push([]);
+  }
+  layout.annotations.forEach(({ annotation, column }) =>
+    (annotation.target === "gate" ? headers : footers)[column].push(
+      annotation.text
+    )
+  );
+  const hasHeader = headers.some((texts) => texts.length > 0);
+  const hasFooter = footers.some((texts) => texts.length > 0);
+
+  // Draw every column of gates.
+  const columns: ColumnCells[] = [];
+  for (let column = 0; column < layout.numColumns; column++) {
+    const placements = layout.drawnPlacements(column);
+    const width = placements.reduce(
+      (max, placement) => Math.max(max, gateWidth(placement.gate, angles)),
+      Math.max(
+        3,
+        headers[column].join(" ").length,
+        footers[column].join(" ").length
+      )
+    );
+    // Odd widths keep vertical lines centered under the gate labels.
+    const cells = emptyColumn(
+      numRows,
+      numQubits,
+      width + 1 - (width % 2),
+      chars
+    );
+    placements.forEach((placement) =>
+      drawPlacement(cells, placement, numQubits, chars, angles)
+    );
+    columns.push(cells);
+  }
+
+  // Prefix every wire with its label (custom names replace register labels) and its initial state, if set.
+  const labels: string[] = [];
+  for (let i = 0; i < numQubits; i++) {
+    const name =
+      circuit.qubitNames[i] !== undefined
+        ? circuit.qubitNames[i]
+        : circuit.qubitLabel(i);
+    const state = circuit.initialStates[i];
+    labels.push(state !== undefined ? `${name}: |${state}⟩ ` : `${name}: `);
+  }
+  for (let i = 0; i < numClbits; i++) {
+    labels.push(`${circuit.clbitLabel(i)}: `);
+  }
+  const labelWidth = labels.reduce(
+    (max, label) => Math.max(max, label.length),
+    0
+  );
+  const blank = repeat(" ", labelWidth);
+  const prefixes = labels.map(
+    (label) => repeat(" ", labelWidth - label.length) + label
+  );
+
+  // Split the columns into segments that fit in the maximum width.
+  const segments: ColumnCells[][] = [[]];
+  let used = labelWidth + 1;
+  columns.forEach((cells) => {
+    const width = cells[0][0].length + 1;
+    const segment = segments[segments.length - 1];
+    // Keep room for the fold marker at the end of the line.
+    if (segment.length > 0 && used + width + 1 > maxWidth) {
+      segments.push([cells]);
+      used = labelWidth + 2 + width;
+    } else {
+      segment.push(cells);
+      used += width;
+    }
+  });
+
+  let first = 0;
+  const blocks = segments.map((segment, s) => {
+    const start = first;
+    first += segment.length;
+    const lines: string[] = [];
+
+    // Writes the labels of the segment's columns, centered on them.
+    const labelLine = (texts: string[][]): string => {
+      let text = blank + (s > 0 ? "  " : " ");
+      segment.forEach((cells, i) => {
+        const width = cells[0][0].length;
+        const label = texts[start + i].join(" ");
+        const left = Math.floor((width - label.length) / 2);
+        text +=
+          repeat(" ", left) + label + repeat(" ", width - left - label.length);
+        text += " ";
+      });
+      return text.replace(/\s+$/, "");
+    };
+
+    if (hasHeader) {
+      lines.push(labelLine(headers));
+    }
+    for (let row = 0; row < numRows; row++) {
+      const wire = row < numQubits ? chars.wire : chars.clbitWire;
+      for (let line = 0; line < 3; line++) {
+        const onWire = line === 1;
+        let text = onWire ? prefixes[row] : blank;
+        if (s > 0) {
+          text += onWire ? chars.foldStart : " ";
+        }
+        text += onWire ? wire : " ";
+        segment.forEach((cells) => {
+          text += cells[row][line].join("") + (onWire ? wire : " ");
+        });
+        if (segment.length === 0) {
+          text += onWire ? repeat(wire, 2) : "  ";
+        }
+        if (s < segments.length - 1) {
+          text += onWire ? chars.foldEnd : " ";
+        }
+        lines.push(text.replace(/\s+$/, ""));
+      }
+    }
+    if (hasFooter) {
+      lines.push(labelLine(footers));
+    }
+    return lines.join("\n");
+  });
+
+  return blocks.join("\n\n") + "\n";
+}
+
+/**
+ * Returns the number of characters a gate needs in its column.
+ */
+function gateWidth(
+  gate: IGate,
+  angles: AngleFormatOptions,
+  controlled = false
+): number {
+  if (gate instanceof ControlledGate) {
+    return gateWidth(gate.base, angles, true);
+  }
+  if (
+    gate instanceof SwapGate ||
+    gate instanceof BarrierGate ||
+    (controlled && (gate instanceof PauliXGate || gate instanceof PauliZGate))
+  ) {
+    return 3;
+  }
+  return (
+    boxTexts(gate, angles).reduce(
+      (max, text) => Math.max(max, text.length),
+      0
+    ) + 4
+  );
+}
+
+/**
+ * Returns the text inside a gate's box on each of its qubits, in the order of `gate.qubits`.
+ */
+function boxTexts(gate: IGate, angles: AngleFormatOptions): string[] {
+  if (gate instanceof MeasureGate) {
+    return ["M"];
+  }
+  if (gate instanceof ResetGate) {
+    return ["|0⟩"];
+  }
+  if (gate instanceof MultiQubitGate && gate.qubits.length > 1) {
+    const inputWidth = gate.inputLabels.reduce(
+      (max, label) => Math.max(max, label.length),
+      0
+    );
+    return gate.inputLabels.map((label, i) => {
+      const input = label + repeat(" ", inputWidth - label.length);
+      return i === 0 ? `${input} ${gate.name}` : input;
+    });
+  }
+  const label =
+    typeof gate.label === "function" ? gate.label(angles) : gate.name;
+  return gate.qubits.map((_, i) => (i === 0 ? label : ""));
+}
+
+/**
+ * Creates the cells of an empty column: bare qubit and classical wires.
+ */
+function emptyColumn(
+  numRows: number,
+  numQubits: number,
+  width: number,
+  chars: Charset
+): ColumnCells {
+  const cells: ColumnCells = [];
+  for (let row = 0; row < numRows; row++) {
+    const wire = row < numQubits ? chars.wire : chars.clbitWire;
+    cells.push([
+      repeat(" ", width).split(""),
+      repeat(wire, width).split(""),
+      repeat(" ", width).split(""),
+    ]);
+  }
+  return cells;
+}
+
+/**
+ * Draws a gate, its measurement wire and its classical condition into the cells of its column.
+ */
+function drawPlacement(
+  cells: ColumnCells,
+  placement: GatePlacement,
+  numQubits: number,
+  chars: Charset,
+  angles: AngleFormatOptions
+): void {
+  const { gate } = placement;
+  const { condition } = gate;
+  drawGate(cells, gate, gate.qubits, chars, angles);
+
+  const bottom = Math.max(...gate.qubits);
+  if (gate instanceof MeasureGate) {
+    const clbitRow = numQubits + gate.clbits[0];
+    drawVertical(cells, bottom, clbitRow, chars, true);
+    cells[clbitRow][1][center(cells)] = chars.arrow;
+  }
+  if (condition) {
+    const { clbits, value } = condition;
+    drawVertical(cells, bottom, numQubits + Math.max(...clbits), chars, true);
+    clbits.forEach((bit, i) => {
+      const isSet = Math.floor(value / Math.pow(2, i)) % 2 === 1;
+      cells[numQubits + bit][1][center(cells)] = isSet
+        ? chars.control
+        : chars.openControl;
+    });
+  }
+}
+
+/**
+ * Draws a gate acting on the given qubit rows.
+ * Controlled gates draw their base gate, then their controls joined to the base by vertical lines.
+ */
+function drawGate(
+  cells: ColumnCells,
+  gate: IGate,
+  qubits: number[],
+  chars: Charset,
+  angles: AngleFormatOptions,
+  controlled = false
+): void {
+  const m = center(cells);
+
+  if (gate instanceof ControlledGate) {
+    const targets = qubits.slice(gate.controls.length);
+    drawGate(cells, gate.base, targets, chars, angles, true);
+    gate.controls.forEach((control) => {
+      cells[control][1][m] = gate.isOpenControl(control)
+        ? chars.openControl
+        : chars.control;
+    });
+    const top = Math.min(...targets);
+    const bottom = Math.max(...targets);
+    const above = gate.controls.filter((control) => control < top);
+    const below = gate.controls.filter((control) => control > bottom);
+    if (above.length > 0) {
+      drawVertical(cells, Math.min(...above), top, chars, false);
+    }
+    if (below.length > 0) {
+      drawVertical(cells, bottom, Math.max(...below), chars, false);
+    }
+  } else if (controlled && gate instanceof PauliXGate) {
+    cells[qubits[0]][1][m] = chars.target;
+  } else if (controlled && gate instanceof PauliZGate) {
+    cells[qubits[0]][1][m] = chars.control;
+  } else if (gate instanceof SwapGate) {
+    qubits.forEach((qubit) => (cells[qubit][1][m] = chars.swap));
+    drawVertical(cells, Math.min(...qubits), Math.max(...qubits), chars, false);
+  } else if (gate instanceof BarrierGate) {
+    qubits.forEach((qubit) =>
+      cells[qubit].forEach((line) => (line[m] = chars.barrier))
+    );
+  } else {
+    drawBoxes(cells, gate, qubits, chars, angles);
+  }
+}
+
+/**
+ * Draws a gate as boxes, one per contiguous run of its qubits, joined by dashed vertical lines.
+ */
+function drawBoxes(
+  cells: ColumnCells,
+  gate: IGate,
+  qubits: number[],
+  chars: Charset,
+  angles: AngleFormatOptions
+): void {
+  const texts = boxTexts(gate, angles);
+  const width = texts.reduce((max, text) => Math.max(max, text.length), 0) + 4;
+  const left = center(cells) - Math.floor((width - 1) / 2);
+  const textOf: { [row: number]: string } = {};
+  qubits.forEach((qubit, i) => (textOf[qubit] = texts[i]));
+  const sorted = qubits.slice().sort((a, b) => a - b);
+
+  const runs: { top: number; bottom: number }[] = [];
+  sorted.forEach((qubit, i) => {
+    const run = runs[runs.length - 1];
+    if (run && qubit === sorted[i - 1] + 1) {
+      run.bottom = qubit;
+    } else {
+      runs.push({ top: qubit, bottom: qubit });
+    }
+  });
+
+  runs.forEach((run, r) => {
+    for (let row = run.top; row <= run.bottom; row++) {
+      const [above, on, below] = cells[row];
+      const inner = width - 2;
+      const text = textOf[row];
+      const padded = ` ${text}${repeat(" ", inner - 1 - text.length)}`;
+      write(
+        above,
+        left,
+        row === run.top
+          ? chars.topLeft + repeat(chars.boxHorizontal, inner) + chars.topRight
+          : chars.boxVertical + repeat(" ", inner) + chars.boxVertical
+      );
+      write(on, left, chars.boxLeft + padded + chars.boxRight);
+      write(
+        below,
+        left,
+        row === run.bottom
+          ? chars.bottomLeft +
+              repeat(chars.boxHorizontal, inner) +
+              chars.bottomRight
+          : chars.boxVertical + repeat(" ", inner) + chars.boxVertical
+      );
+    }
+    if (r > 0) {
+      const m = center(cells);
+      const previous = runs[r - 1].bottom;
+      cells[previous][2][m] = chars.joinBottom;
+      for (let row = previous + 1; row < run.top; row++) {
+        cells[row][0][m] = chars.dashedVertical;
+        cells[row][1][m] = chars.cross;
+        cells[row][2][m] = chars.dashedVertical;
+      }
+      cells[run.top][0][m] = chars.joinTop;
+    }
+  });
+}
+
+/**
+ * Draws a vertical line between two rows of a column, joining the boxes or symbols at its ends
+ * and crossing the wires in between.
+ */
+function drawVertical(
+  cells: ColumnCells,
+  from: number,
+  to: number,
+  chars: Charset,
+  double: boolean
+): void {
+  const m = center(cells);
+  const vertical = double ? chars.doubleVertical : chars.vertical;
+
+  // Leave the top row downwards.
+  const start = cells[from][2];
+  if (start[m] === chars.boxHorizontal) {
+    start[m] = double ? chars.doubleJoinBottom : chars.joinBottom;
+  } else {
+    start[m] = vertical;
+  }
+
+  for (let row = from + 1; row < to; row++) {
+    const [above, on, below] = cells[row];
+    above[m] = vertical;
+    below[m] = vertical;
+    if (on[m] === chars.wire) {
+      on[m] = double ? chars.doubleCross : chars.cross;
+    } else if (on[m] === chars.clbitWire) {
+      on[m] = double ? chars.clbitDoubleCross : chars.clbitCross;
+    }
+  }
+
+  // Enter the bottom row from above.
+  const end = cells[to][0];
+  end[m] = end[m] === chars.boxHorizontal ? chars.joinTop : vertical;
+}
+
+/**
+ * Returns the index of the center character of a column.
+ */
+function center(cells: ColumnCells): number {
+  return (cells[0][0].length - 1) / 2;
+}
+
+/**
+ * Overwrites characters of a line, starting at an index.
+ */
+function write(line: string[], start: number, text: string): void {
+  text.split("").forEach((char, i) => (line[start + i] = char));
+}
+
+/**
+ * Repeats a string.
+ */
+function repeat(text: string, count: number): string {
+  return new Array(Math.max(count, 0) + 1).join(text);
+}
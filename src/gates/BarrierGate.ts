@@ -0,0 +1,94 @@
+/**
+ * @file BarrierGate.ts
+ * @description Defines the BarrierGate class, representing a barrier or a labelled slice marker across some qubits.
+ */
+
+import { IGate } from "./IGate";
+
+/**
+ * Represents a barrier: a directive that keeps gates from being moved across it, with no effect on the state.
+ * It is drawn as a dashed vertical line across its qubits, and no gate on those qubits shares its column,
+ * so it separates the stages of a circuit. A barrier with a title across every qubit marks a slice (time step)
+ * of the circuit, with the title written above the line.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Separate the preparation of qubits 0 and 1 from what follows
+ * circuit.addGate(new BarrierGate([0, 1]));
+ *
+ * // Mark the end of the first time step across a 3-qubit circuit
+ * circuit.addGate(new BarrierGate([0, 1, 2], "t = 1"));
+ * ```
+ */
+export class BarrierGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * @readonly
+   */
+  name = "Barrier";
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "barrier";
+
+  /**
+   * An array containing the indices of the qubits the barrier spans.
+   */
+  qubits: number[];
+
+  /**
+   * The title written above the barrier, e.g. the name of a slice; empty for a plain barrier.
+   */
+  title: string;
+
+  /**
+   * Creates an instance of the BarrierGate class.
+   *
+   * @param qubits - The indices of the qubits the barrier spans.
+   * @param title - (Optional) The title written above the barrier. Defaults to none.
+   *
+   * @throws {Error} Will throw an error if no qubits are given, or a qubit index is not a non-negative integer
+   * or is repeated.
+   *
+   * @example
+   * ```typescript
+   * const barrier = new BarrierGate([0, 2]); // A barrier across qubits 0 and 2
+   * ```
+   */
+  constructor(qubits: number[], title = "") {
+    if (qubits.length === 0) {
+      throw new Error("A barrier needs at least one qubit.");
+    }
+    if (qubits.some((qubit) => !Number.isInteger(qubit) || qubit < 0)) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    if (qubits.some((qubit, i) => qubits.indexOf(qubit) !== i)) {
+      throw new Error("Qubits of a barrier must be different.");
+    }
+    this.qubits = [...qubits];
+    this.title = title;
+  }
+
+  /**
+   * Serializes the barrier as an OpenQASM 3 statement. The title is not part of the statement.
+   *
+   * @param qubits - The OpenQASM operands of the qubits.
+   * @returns The statement, e.g. "barrier q[0], q[1]".
+   */
+  toQASM(qubits: string[]): string {
+    return `barrier ${qubits.join(", ")}`;
+  }
+
+  /**
+   * Returns the inverse of the barrier, which is a copy of it: a barrier has no effect on the state.
+   *
+   * @returns A new barrier across the same qubits, with the same title.
+   */
+  inverse(): BarrierGate {
+    return new BarrierGate(this.qubits, this.title);
+  }
+}
@@ -3,13 +3,15 @@
  * @description Defines the CNOTGate class, representing a Controlled-NOT (CNOT) gate in a quantum circuit.
  */
 
-import { IGate } from "./IGate";
+import { ControlledGate } from "./ControlledGate";
+import { PauliXGate } from "./PauliXGate";
 
 /**
  * Represents a Controlled-NOT (CNOT) gate in a quantum circuit.
  * The CNOT gate flips the target qubit if the control qubit is in the |1⟩ state.
+ * It is a ControlledGate with a single control and a Pauli-X base gate.
  *
- * @implements IGate
+ * @extends ControlledGate
  *
  * @example
  * ```typescript
@@ -18,19 +20,7 @@ import { IGate } from "./IGate";
  * circuit.addGate(cnotGate);
  * ```
  */
-export class CNOTGate implements IGate {
-  /**
-   * The name of the gate, used for display and identification.
-   * @readonly
-   */
-  name = "CNOT";
-
-  /**
-   * An array containing the indices of the control and target qubits.
-   * The first element is the control qubit, and the second is the target qubit.
-   */
-  qubits: number[];
-
+export class CNOTGate extends ControlledGate {
   /**
    * Creates an instance of the CNOTGate class.
    *
@@ -45,9 +35,17 @@ export class CNOTGate implements IGate {
    * ```
    */
   constructor(controlQubit: number, targetQubit: number) {
-    if (controlQubit === targetQubit) {
-      throw new Error("Control qubit and target qubit must be different.");
-    }
-    this.qubits = [controlQubit, targetQubit];
+    super(new PauliXGate(targetQubit), [controlQubit]);
+    this.name = "CNOT";
+    this.kind = "cnot";
+  }
+
+  /**
+   * Returns the inverse of the gate. The CNOT gate is its own inverse, so this is a copy of the gate.
+   *
+   * @returns A new CNOT gate on the same qubits.
+   */
+  inverse(): CNOTGate {
+    return new CNOTGate(this.qubits[0], this.qubits[1]);
   }
 }
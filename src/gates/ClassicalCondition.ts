@@ -0,0 +1,59 @@
+/**
+ * @file ClassicalCondition.ts
+ * @description Defines classical conditions, which make a gate apply only when classical bits hold a given value.
+ */
+
+import { IGate } from "./IGate";
+
+/**
+ * A condition on classical bits, equivalent to OpenQASM's `if (c == value)` or Qiskit's `c_if`.
+ * The gate is applied only if the bits, read as a little-endian integer, equal `value`.
+ */
+export interface ClassicalCondition {
+  /**
+   * The indices of the classical bits the condition reads, least significant bit first.
+   */
+  clbits: number[];
+
+  /**
+   * The value the classical bits must hold for the gate to be applied.
+   */
+  value: number;
+}
+
+/**
+ * Makes a gate classically controlled.
+ *
+ * @param gate - The gate to condition.
+ * @param clbits - The classical bits to compare, least significant bit first.
+ * @param value - The value the bits must hold for the gate to be applied.
+ * @returns The same gate, with its `condition` set.
+ *
+ * @throws {Error} Will throw an error if no classical bits are given or the value does not fit in them.
+ *
+ * @example
+ * ```typescript
+ * // Apply X to qubit 1 only if classical bit 0 reads 1
+ * circuit.addGate(cIf(new PauliXGate(1), [0], 1));
+ * ```
+ */
+export function cIf<T extends IGate>(
+  gate: T,
+  clbits: number[],
+  value: number
+): T {
+  if (clbits.length === 0) {
+    throw new Error("A classical condition needs at least one classical bit.");
+  }
+  if (
+    !Number.isInteger(value) ||
+    value < 0 ||
+    value >= Math.pow(2, clbits.length)
+  ) {
+    throw new Error(
+      `Condition value ${value} does not fit in ${clbits.length} classical bit(s).`
+    );
+  }
+  gate.condition = { clbits: [...clbits], value };
+  return gate;
+}
@@ -0,0 +1,278 @@
+/**
+ * @file ControlledGate.ts
+ * @description Defines the ControlledGate class, representing any gate applied conditionally on one or more control qubits.
+ */
+
+import { IGate } from "./IGate";
+import { identityMatrix, Matrix } from "../Complex";
+import { ParameterBindings } from "../Parameter";
+import { AngleFormatOptions } from "../angles";
+
+/**
+ * The OpenQASM 3 standard gates for common gates with a single closed control, keyed by the base gate's OpenQASM name.
+ */
+const SINGLE_CONTROL_QASM_NAMES: { [base: string]: string } = {
+  x: "cx",
+  y: "cy",
+  z: "cz",
+  h: "ch",
+  rx: "crx",
+  ry: "cry",
+  rz: "crz",
+  p: "cp",
+  swap: "cswap",
+};
+
+/**
+ * Represents a controlled gate in a quantum circuit.
+ * The base gate is applied to its target qubits only if every control qubit is in the |1⟩ state,
+ * or in the |0⟩ state for open (negated) controls.
+ * Toffoli, CZ, CRz and multi-controlled gates are all controlled gates.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Toffoli gate: X on qubit 2 controlled by qubits 0 and 1
+ * circuit.addGate(new ControlledGate(new PauliXGate(2), [0, 1]));
+ *
+ * // CRz(π/2) with qubit 2 as control and qubit 0 as target
+ * circuit.addGate(new ControlledGate(new RotationGate("Z", 0, Math.PI / 2), [2]));
+ *
+ * // Z on qubit 1 applied when qubit 0 is |0⟩ (open control)
+ * circuit.addGate(new ControlledGate(new PauliZGate(1), [0], [0]));
+ * ```
+ */
+export class ControlledGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * Formed by prefixing the base gate's name with one "C" per control (e.g. "CCX", "CRZ(π/2)").
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "controlled";
+
+  /**
+   * An array containing the indices of the control qubits followed by the base gate's qubits.
+   */
+  qubits: number[];
+
+  /**
+   * The gate applied to the target qubits when the controls are satisfied.
+   */
+  base: IGate;
+
+  /**
+   * The indices of the control qubits.
+   */
+  controls: number[];
+
+  /**
+   * The indices of the open control qubits, a subset of `controls`.
+   * Open controls are satisfied by |0⟩ instead of |1⟩ and are drawn as hollow circles.
+   */
+  openControls: number[];
+
+  /**
+   * Creates an instance of the ControlledGate class.
+   *
+   * @param base - The gate to apply to the target qubits.
+   * @param controls - The indices of the control qubits.
+   * @param openControls - (Optional) The control qubits that are satisfied by |0⟩. Defaults to none.
+   *
+   * @throws {Error} Will throw an error if there are no controls, if a control index is not a non-negative integer or is repeated,
+   * if a control is also a target, if an open control is not a control, or if the base gate is not a unitary gate.
+   *
+   * @example
+   * ```typescript
+   * const ccz = new ControlledGate(new PauliZGate(2), [0, 1]);
+   * ```
+   */
+  constructor(base: IGate, controls: number[], openControls: number[] = []) {
+    if (controls.length === 0) {
+      throw new Error("A controlled gate needs at least one control qubit.");
+    }
+    if (controls.some((qubit) => !Number.isInteger(qubit) || qubit < 0)) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    if (controls.some((qubit, i) => controls.indexOf(qubit) !== i)) {
+      throw new Error("Control qubits must be different.");
+    }
+    if (controls.some((qubit) => base.qubits.indexOf(qubit) !== -1)) {
+      throw new Error("Control qubit and target qubit must be different.");
+    }
+    if (openControls.some((qubit) => controls.indexOf(qubit) === -1)) {
+      throw new Error("Open controls must be among the control qubits.");
+    }
+    if (base.clbits || base.condition) {
+      throw new Error(
+        `Gate '${base.name}' cannot be controlled because it is not a unitary gate.`
+      );
+    }
+
+    this.name = `${controls.map(() => "C").join("")}${base.name}`;
+    this.qubits = controls.concat(base.qubits);
+    this.base = base;
+    this.controls = [...controls];
+    this.openControls = [...openControls];
+  }
+
+  /**
+   * Returns whether a control qubit is an open control.
+   *
+   * @param qubit - The index of the control qubit.
+   */
+  isOpenControl(qubit: number): boolean {
+    return this.openControls.indexOf(qubit) !== -1;
+  }
+
+  /**
+   * Returns the label of the gate with the base gate's angles written in the given format.
+   *
+   * @param options - The unit and precision of the angles.
+   * @returns The label, e.g. "CRZ(90°)" in degrees.
+   */
+  label(options: AngleFormatOptions): string {
+    const base =
+      typeof this.base.label === "function"
+        ? this.base.label(options)
+        : this.base.name;
+    return `${this.controls.map(() => "C").join("")}${base}`;
+  }
+
+  /**
+   * Returns the names of the symbolic parameters of the base gate.
+   */
+  parameters(): string[] {
+    return typeof this.base.parameters === "function"
+      ? this.base.parameters()
+      : [];
+  }
+
+  /**
+   * Returns a copy of the gate with values substituted for the parameters of the base gate.
+   * Gates whose base gate has no parameters are returned as they are.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   */
+  bind(bindings: ParameterBindings): ControlledGate {
+    if (typeof this.base.bind !== "function") {
+      return this;
+    }
+    return new ControlledGate(
+      this.base.bind(bindings),
+      this.controls,
+      this.openControls
+    );
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   * Common gates with one closed control use their standard names (e.g. "cx", "crz"), the Toffoli gate uses "ccx",
+   * and any other combination uses `ctrl @` / `negctrl @` modifiers on the base gate.
+   *
+   * @param qubits - The OpenQASM operands of the controls followed by the base gate's qubits.
+   * @param clbits - Unused; controlled gates do not write classical bits.
+   * @returns The statement, e.g. "ccx q[0], q[1], q[2]" or "negctrl @ z q[0], q[1]".
+   *
+   * @throws {Error} Will throw an error if the base gate cannot be exported to OpenQASM.
+   */
+  toQASM(qubits: string[], clbits: string[]): string {
+    if (typeof this.base.toQASM !== "function") {
+      throw new Error(
+        `Gate '${this.base.name}' cannot be exported to OpenQASM because it does not implement toQASM().`
+      );
+    }
+    const targets = qubits.slice(this.controls.length);
+    const operands = ` ${targets.join(", ")}`;
+    const statement = this.base.toQASM(targets, clbits);
+    if (statement.slice(-operands.length) !== operands) {
+      throw new Error(
+        `Gate '${this.base.name}' cannot be controlled in OpenQASM because its statement does not end with its operands.`
+      );
+    }
+    const call = statement.slice(0, -operands.length);
+    const allOperands = qubits.join(", ");
+
+    if (this.openControls.length === 0) {
+      const match = call.match(/^([a-z]+)(.*)$/);
+      const standard = match && SINGLE_CONTROL_QASM_NAMES[match[1]];
+      if (this.controls.length === 1 && match && standard) {
+        return `${standard}${match[2]} ${allOperands}`;
+      }
+      if (this.controls.length === 2 && call === "x") {
+        return `ccx ${allOperands}`;
+      }
+    }
+
+    const modifiers = this.controls
+      .map((qubit) => (this.isOpenControl(qubit) ? "negctrl @ " : "ctrl @ "))
+      .join("");
+    return `${modifiers}${call} ${allOperands}`;
+  }
+
+  /**
+   * Returns the OpenQASM 3 definition the base gate needs, if any.
+   *
+   * @returns The base gate's definition, or an empty string.
+   */
+  toQASMDefinition(): string {
+    return typeof this.base.toQASMDefinition === "function"
+      ? this.base.toQASMDefinition()
+      : "";
+  }
+
+  /**
+   * Returns the inverse of the gate: the inverse of the base gate, with the same controls.
+   *
+   * @returns A new controlled gate.
+   *
+   * @throws {Error} Will throw an error if the base gate does not implement `inverse()`.
+   */
+  inverse(): ControlledGate {
+    if (typeof this.base.inverse !== "function") {
+      throw new Error(
+        `Gate '${this.base.name}' cannot be inverted because it does not implement inverse().`
+      );
+    }
+    return new ControlledGate(
+      this.base.inverse(),
+      this.controls,
+      this.openControls
+    );
+  }
+
+  /**
+   * Returns the unitary matrix of the gate, built from the base gate's matrix.
+   * The controls, in order, correspond to the most significant bits of the row and column indices,
+   * followed by the base gate's qubits. The matrix is the identity except on the block where every
+   * control holds its required value, which is the base gate's matrix.
+   *
+   * @returns The matrix in the computational basis.
+   *
+   * @throws {Error} Will throw an error if the base gate does not implement `matrix()`.
+   */
+  matrix(): Matrix {
+    if (typeof this.base.matrix !== "function") {
+      throw new Error(
+        `Gate '${this.base.name}' has no matrix because it does not implement matrix().`
+      );
+    }
+    const base = this.base.matrix();
+    const matrix = identityMatrix(base.length << this.controls.length);
+    const offset =
+      this.controls.reduce(
+        (value, qubit) => value * 2 + (this.isOpenControl(qubit) ? 0 : 1),
+        0
+      ) * base.length;
+    base.forEach((row, i) =>
+      row.forEach((entry, j) => (matrix[offset + i][offset + j] = entry))
+    );
+    return matrix;
+  }
+}
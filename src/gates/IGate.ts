@@ -3,6 +3,12 @@
  * @description Defines the IGate interface, representing a generic quantum gate in a quantum circuit.
  */
 
+import { ClassicalCondition } from "./ClassicalCondition";
+import { Matrix } from "../Complex";
+import { ParameterBindings } from "../Parameter";
+import { AngleFormatOptions } from "../angles";
+import { StyleConfig } from "../styles";
+
 /**
  * Interface representing a generic quantum gate in a quantum circuit.
  * All quantum gate classes should implement this interface to ensure consistency.
@@ -18,10 +24,23 @@ export interface IGate {
    * @example
    * "H"          // Hadamard gate
    * "CNOT"       // Controlled-NOT gate
-   * "Rx(90°)"    // Rotation gate around the X-axis by 90 degrees
+   * "RX(π/2)"    // Rotation gate around the X-axis by π/2 radians
    */
   name: string;
 
+  /**
+   * An optional kind identifying how the gate is drawn.
+   * The renderer looks up the drawer registered for this kind in its gate registry;
+   * gates without a kind, or whose kind has no registered drawer, are drawn as labelled boxes.
+   *
+   * @type {string}
+   * @example
+   * "h"          // Hadamard gate
+   * "controlled" // Controlled gate
+   * "measure"    // Measurement
+   */
+  kind?: string;
+
   /**
    * An array of qubit indices that the gate acts upon.
    * The indices correspond to the positions of qubits in the circuit.
@@ -32,4 +51,91 @@ export interface IGate {
    * [0, 1]       // Two-qubit gate acting on qubits 0 and 1 (e.g., CNOT gate)
    */
   qubits: number[];
+
+  /**
+   * An optional array of classical bit indices the gate writes to (e.g. the result of a measurement).
+   *
+   * @type {number[]}
+   * @example
+   * [0]          // Measurement result stored in classical bit 0
+   */
+  clbits?: number[];
+
+  /**
+   * An optional classical condition; when set, the gate is applied only if the classical bits hold the given value.
+   */
+  condition?: ClassicalCondition;
+
+  /**
+   * Optional style overrides for this gate only, e.g. to highlight it. They apply on top of the diagram's styles
+   * and of the overrides for the gate's kind in `StyleConfig.gateStyles`.
+   *
+   * @example
+   * { gateFill: "#ffeb3b", gateStroke: "#f57f17" } // Highlight the gate in yellow
+   */
+  style?: Partial<StyleConfig>;
+
+  /**
+   * Returns the display label of the gate with its angles written in the given format.
+   * Gates without angles do not implement this method and are labelled with their `name`.
+   *
+   * @param options - The unit and precision of the angles.
+   * @returns The label, e.g. "RX(π/2)" or "RX(90°)".
+   */
+  label?(options: AngleFormatOptions): string;
+
+  /**
+   * Returns the names of the symbolic parameters the gate's angles depend on, in order of first appearance.
+   * Gates without angles do not implement this method.
+   *
+   * @returns The parameter names, e.g. ["θ"]; empty when every angle is a number.
+   */
+  parameters?(): string[];
+
+  /**
+   * Returns a copy of the gate with values substituted for its symbolic parameters.
+   * Parameters without a value stay symbolic. The classical `condition` is copied by the caller.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   * @returns The bound gate.
+   */
+  bind?(bindings: ParameterBindings): IGate;
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement, without the trailing semicolon.
+   * Gates that do not implement this method cannot be exported to OpenQASM.
+   *
+   * A classical `condition` is emitted by the exporter and must not be included here.
+   *
+   * @param qubits - The OpenQASM operand for each entry of `qubits`, in the same order (e.g. "q[0]").
+   * @param clbits - The OpenQASM operand for each entry of `clbits`, in the same order (e.g. "c[0]").
+   * @returns The OpenQASM statement, e.g. "h q[0]" or "rx(1.5707963267948966) q[1]".
+   */
+  toQASM?(qubits: string[], clbits: string[]): string;
+
+  /**
+   * Returns the OpenQASM 3 `gate` definition needed by `toQASM()` for gates outside the standard library.
+   * The exporter emits each distinct definition once, before the register declarations.
+   *
+   * @returns The gate definition, or an empty string if none is needed.
+   */
+  toQASMDefinition?(): string;
+
+  /**
+   * Returns the inverse (adjoint) of the gate, acting on the same qubits, used by `Circuit.inverse()`.
+   * Gates that do not implement this method, and non-unitary operations such as measurements, cannot be inverted.
+   *
+   * @returns A new gate undoing this one, e.g. S† for S or RX(-θ) for RX(θ).
+   */
+  inverse?(): IGate;
+
+  /**
+   * Returns the unitary matrix of the gate in the computational basis, shared by the simulator and other tooling.
+   * The first entry of `qubits` corresponds to the most significant bit of the row and column indices,
+   * so a CNOT on qubits [control, target] has the textbook matrix. Gates that do not implement this method,
+   * and non-unitary operations such as measurements, cannot be simulated as unitaries.
+   *
+   * @returns The 2^k × 2^k matrix, where k is the number of qubits of the gate.
+   */
+  matrix?(): Matrix;
 }
@@ -0,0 +1,126 @@
+/**
+ * @file ISwapGate.ts
+ * @description Defines the ISwapGate class, representing an iSWAP gate in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { complex, Matrix } from "../Complex";
+
+/**
+ * Represents an iSWAP gate in a quantum circuit.
+ * The iSWAP gate exchanges the states of two qubits and applies a phase of i to the |01⟩ and |10⟩ amplitudes.
+ * It is drawn like a SWAP gate, with an "i" next to the connecting line ("i†" for the adjoint iSWAP†).
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Apply iSWAP to qubits 0 and 1
+ * circuit.addGate(new ISwapGate(0, 1));
+ *
+ * // Undo it with iSWAP†
+ * circuit.addGate(new ISwapGate(0, 1, true));
+ * ```
+ */
+export class ISwapGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * "iSWAP" for the gate and "iSWAP†" for its adjoint.
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "iswap";
+
+  /**
+   * An array containing the indices of the two swapped qubits.
+   */
+  qubits: number[];
+
+  /**
+   * Whether the gate is the adjoint iSWAP† rather than iSWAP.
+   */
+  dagger: boolean;
+
+  /**
+   * Creates an instance of the ISwapGate class.
+   *
+   * @param qubit1 - The index of the first qubit.
+   * @param qubit2 - The index of the second qubit.
+   * @param dagger - (Optional) Whether to create the adjoint iSWAP† gate. Defaults to `false`.
+   *
+   * @throws {Error} Will throw an error if a qubit index is not a non-negative integer or the qubits are the same.
+   *
+   * @example
+   * ```typescript
+   * const iSwapGate = new ISwapGate(1, 2); // Applies iSWAP to qubits 1 and 2
+   * ```
+   */
+  constructor(qubit1: number, qubit2: number, dagger = false) {
+    if (
+      [qubit1, qubit2].some((qubit) => !Number.isInteger(qubit) || qubit < 0)
+    ) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    if (qubit1 === qubit2) {
+      throw new Error("Swapped qubits must be different.");
+    }
+    this.name = dagger ? "iSWAP†" : "iSWAP";
+    this.qubits = [qubit1, qubit2];
+    this.dagger = dagger;
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   * iSWAP is not a standard gate, so the program must also contain the definition from `toQASMDefinition()`.
+   *
+   * @param qubits - The OpenQASM operands of the two qubits.
+   * @returns The statement, e.g. "iswap q[0], q[1]", or "inv @ iswap q[0], q[1]" for iSWAP†.
+   */
+  toQASM(qubits: string[]): string {
+    return `${this.dagger ? "inv @ " : ""}iswap ${qubits[0]}, ${qubits[1]}`;
+  }
+
+  /**
+   * Returns the OpenQASM 3 definition of the `iswap` gate in terms of standard gates.
+   *
+   * @returns The gate definition.
+   */
+  toQASMDefinition(): string {
+    return "gate iswap a, b { s a; s b; h a; cx a, b; cx b, a; h b; }";
+  }
+
+  /**
+   * Returns the inverse of the gate: iSWAP† for iSWAP, and iSWAP for iSWAP†.
+   *
+   * @returns A new gate on the same qubits.
+   */
+  inverse(): ISwapGate {
+    return new ISwapGate(this.qubits[0], this.qubits[1], !this.dagger);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate.
+   * The first qubit corresponds to the most significant bit of the row and column indices.
+   * The phase of the swapped amplitudes is i for iSWAP and -i for iSWAP†.
+   *
+   * @returns The 4×4 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    const [o, l, i] = [
+      complex(0),
+      complex(1),
+      complex(0, this.dagger ? -1 : 1),
+    ];
+    return [
+      [l, o, o, o],
+      [o, o, i, o],
+      [o, i, o, o],
+      [o, o, o, l],
+    ];
+  }
+}
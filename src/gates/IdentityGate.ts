@@ -0,0 +1,86 @@
+/**
+ * @file IdentityGate.ts
+ * @description Defines the IdentityGate class, representing an identity gate in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { identityMatrix, Matrix } from "../Complex";
+
+/**
+ * Represents an identity gate in a quantum circuit.
+ * The identity gate leaves the qubit's state unchanged; it is drawn to mark an idle time step.
+ *
+ * @implements IGate
+ *
+ * @example
+ * ```typescript
+ * // Create an identity gate for qubit 0
+ * const identityGate = new IdentityGate(0);
+ * circuit.addGate(identityGate);
+ * ```
+ */
+export class IdentityGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * @readonly
+   */
+  name = "I";
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "id";
+
+  /**
+   * An array containing the index of the qubit the gate is applied to.
+   */
+  qubits: number[];
+
+  /**
+   * Creates an instance of the IdentityGate class.
+   *
+   * @param qubit - The index of the qubit the identity gate is applied to.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const identityGate = new IdentityGate(0); // Applies I gate to qubit 0
+   * ```
+   */
+  constructor(qubit: number) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    this.qubits = [qubit];
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "id q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `id ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate. The identity gate is its own inverse, so this is a copy of the gate.
+   *
+   * @returns A new gate on the same qubit.
+   */
+  inverse(): IdentityGate {
+    return new IdentityGate(this.qubits[0]);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate.
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    return identityMatrix(2);
+  }
+}
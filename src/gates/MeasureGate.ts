@@ -0,0 +1,79 @@
+/**
+ * @file MeasureGate.ts
+ * @description Defines the MeasureGate class, representing a measurement of a qubit into a classical bit.
+ */
+
+import { IGate } from "./IGate";
+
+/**
+ * Represents a measurement in the computational basis.
+ * The result of measuring the qubit is stored in a classical bit of the circuit.
+ * It is drawn as a meter symbol with a double line down to the classical wire.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Measure qubit 0 into classical bit 0
+ * const circuit = new Circuit(2, 2);
+ * circuit.addGate(new MeasureGate(0, 0));
+ * ```
+ */
+export class MeasureGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * @readonly
+   */
+  name = "Measure";
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "measure";
+
+  /**
+   * An array containing the index of the measured qubit.
+   */
+  qubits: number[];
+
+  /**
+   * An array containing the index of the classical bit the result is stored in.
+   */
+  clbits: number[];
+
+  /**
+   * Creates an instance of the MeasureGate class.
+   *
+   * @param qubit - The index of the qubit to measure.
+   * @param clbit - The index of the classical bit that receives the result.
+   *
+   * @throws {Error} Will throw an error if the qubit or classical bit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const measureGate = new MeasureGate(1, 0); // Measures qubit 1 into classical bit 0
+   * ```
+   */
+  constructor(qubit: number, clbit: number) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    if (!Number.isInteger(clbit) || clbit < 0) {
+      throw new Error("Classical bit index must be a non-negative integer.");
+    }
+    this.qubits = [qubit];
+    this.clbits = [clbit];
+  }
+
+  /**
+   * Serializes the measurement as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operand of the measured qubit.
+   * @param clbits - The OpenQASM operand of the classical bit.
+   * @returns The statement, e.g. "c[0] = measure q[0]".
+   */
+  toQASM(qubits: string[], clbits: string[]): string {
+    return `${clbits[0]} = measure ${qubits[0]}`;
+  }
+}
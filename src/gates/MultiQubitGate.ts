@@ -0,0 +1,96 @@
+/**
+ * @file MultiQubitGate.ts
+ * @description Defines the MultiQubitGate class, representing a labelled block acting on several qubits, such as "QFT" or "Oracle".
+ */
+
+import { IGate } from "./IGate";
+
+/**
+ * Represents a labelled block gate spanning several qubits, such as a QFT or an oracle.
+ * It is drawn as one tall rectangle over its qubits, with an input label on each wire.
+ * When the qubits are not contiguous, each contiguous run gets its own rectangle and the
+ * rectangles are joined by dashed connectors across the gaps.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // A QFT block on qubits 0 to 2
+ * circuit.addGate(new MultiQubitGate("QFT", [0, 1, 2]));
+ *
+ * // An oracle on qubits 0 and 3, with named inputs
+ * circuit.addGate(new MultiQubitGate("Oracle", [0, 3], ["x", "y"]));
+ * ```
+ */
+export class MultiQubitGate implements IGate {
+  /**
+   * The name of the gate, displayed as the label of the block.
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "block";
+
+  /**
+   * An array containing the indices of the qubits the block acts on, in input order.
+   */
+  qubits: number[];
+
+  /**
+   * The labels drawn on each input wire, in the same order as `qubits`.
+   */
+  inputLabels: string[];
+
+  /**
+   * Creates an instance of the MultiQubitGate class.
+   *
+   * @param name - The label of the block (e.g. "QFT").
+   * @param qubits - The indices of the qubits the block acts on, in input order.
+   * @param inputLabels - (Optional) The label of each input. Defaults to the input positions "0", "1", ...
+   *
+   * @throws {Error} Will throw an error if no qubits are given, a qubit index is not a non-negative integer or is repeated,
+   * or the number of input labels does not match the number of qubits.
+   *
+   * @example
+   * ```typescript
+   * const qft = new MultiQubitGate("QFT", [2, 3, 4]);
+   * ```
+   */
+  constructor(name: string, qubits: number[], inputLabels?: string[]) {
+    if (qubits.length === 0) {
+      throw new Error("A multi-qubit gate needs at least one qubit.");
+    }
+    if (qubits.some((qubit) => !Number.isInteger(qubit) || qubit < 0)) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    if (qubits.some((qubit, i) => qubits.indexOf(qubit) !== i)) {
+      throw new Error("Qubits of a multi-qubit gate must be different.");
+    }
+    if (inputLabels && inputLabels.length !== qubits.length) {
+      throw new Error(
+        `Expected ${qubits.length} input labels but got ${inputLabels.length}.`
+      );
+    }
+
+    this.name = name;
+    this.qubits = [...qubits];
+    this.inputLabels = inputLabels
+      ? [...inputLabels]
+      : qubits.map((_, i) => `${i}`);
+  }
+
+  /**
+   * Returns the inverse of the block, labelled with a dagger: "QFT†" for "QFT", and "QFT" for "QFT†".
+   *
+   * @returns A new block on the same qubits, with the same input labels.
+   */
+  inverse(): MultiQubitGate {
+    const name =
+      this.name.slice(-1) === "†" ? this.name.slice(0, -1) : `${this.name}†`;
+    return new MultiQubitGate(name, this.qubits, this.inputLabels);
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { IGate } from "./IGate";
+import { complex, Matrix } from "../Complex";
 
 /**
  * Represents a Pauli-Y gate in a quantum circuit.
@@ -25,6 +26,12 @@ export class PauliYGate implements IGate {
    */
   name = "Y";
 
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "y";
+
   /**
    * An array containing the index of the qubit the gate is applied to.
    */
@@ -35,7 +42,7 @@ export class PauliYGate implements IGate {
    *
    * @param qubit - The index of the qubit the Pauli-Y gate is applied to.
    *
-   * @throws {Error} Will throw an error if the qubit index is negative.
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
    *
    * @example
    * ```typescript
@@ -43,9 +50,40 @@ export class PauliYGate implements IGate {
    * ```
    */
   constructor(qubit: number) {
-    if (qubit < 0) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
       throw new Error("Qubit index must be a non-negative integer.");
     }
     this.qubits = [qubit];
   }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "y q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `y ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate. The Pauli-Y gate is its own inverse, so this is a copy of the gate.
+   *
+   * @returns A new gate on the same qubit.
+   */
+  inverse(): PauliYGate {
+    return new PauliYGate(this.qubits[0]);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate.
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    return [
+      [complex(0), complex(0, -1)],
+      [complex(0, 1), complex(0)],
+    ];
+  }
 }
@@ -0,0 +1,133 @@
+/**
+ * @file PhaseGate.ts
+ * @description Defines the PhaseGate class, representing a phase shift gate in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { complex, diagonalMatrix, expi, Matrix } from "../Complex";
+import {
+  bindValue,
+  negateValue,
+  numericValue,
+  ParameterBindings,
+  parametersOf,
+  ParameterValue,
+} from "../Parameter";
+import { AngleFormatOptions, formatParameter } from "../angles";
+
+/**
+ * Represents a phase shift gate P(λ) in a quantum circuit.
+ * The phase gate leaves |0⟩ unchanged and multiplies the |1⟩ state by e^(iλ).
+ * It is the `p` / `u1` gate of OpenQASM.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Apply a phase of π/4 to qubit 0
+ * circuit.addGate(new PhaseGate(0, Math.PI / 4));
+ * ```
+ */
+export class PhaseGate implements IGate {
+  /**
+   * The name of the gate, including the angle (as a fraction of π where possible).
+   * Formatted as "P(<angle>)", e.g. "P(π/4)".
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "p";
+
+  /**
+   * An array containing the index of the qubit the gate is applied to.
+   */
+  qubits: number[];
+
+  /**
+   * The phase angle in radians, or a symbolic expression.
+   */
+  angle: ParameterValue;
+
+  /**
+   * Creates an instance of the PhaseGate class.
+   *
+   * @param qubit - The index of the qubit the phase gate is applied to.
+   * @param angle - The phase angle in radians, or a symbolic expression.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const phaseGate = new PhaseGate(1, Math.PI / 2); // Applies P(π/2) to qubit 1
+   * ```
+   */
+  constructor(qubit: number, angle: ParameterValue) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+
+    this.name = `P(${formatParameter(angle)})`;
+    this.qubits = [qubit];
+    this.angle = angle;
+  }
+
+  /**
+   * Returns the label of the gate with its angle written in the given format.
+   *
+   * @param options - The unit and precision of the angle.
+   * @returns The label, e.g. "P(45°)" in degrees.
+   */
+  label(options: AngleFormatOptions): string {
+    return `P(${formatParameter(this.angle, options)})`;
+  }
+
+  /**
+   * Returns the names of the symbolic parameters of the angle.
+   */
+  parameters(): string[] {
+    return parametersOf(this.angle);
+  }
+
+  /**
+   * Returns a copy of the gate with values substituted for the parameters of its angle.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   */
+  bind(bindings: ParameterBindings): PhaseGate {
+    return new PhaseGate(this.qubits[0], bindValue(this.angle, bindings));
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement, keeping the exact angle in radians.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "p(0.7853981633974483) q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `p(${this.angle}) ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate, the phase gate with the opposite angle.
+   *
+   * @returns A new gate on the same qubit, e.g. P(-π/4) for P(π/4).
+   */
+  inverse(): PhaseGate {
+    return new PhaseGate(this.qubits[0], negateValue(this.angle));
+  }
+
+  /**
+   * Returns the unitary matrix of the gate, diag(1, e^(iθ)).
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   *
+   * @throws {Error} Will throw an error if the angle depends on unbound parameters.
+   */
+  matrix(): Matrix {
+    return diagonalMatrix([complex(1), expi(numericValue(this.angle))]);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file ResetGate.ts
+ * @description Defines the ResetGate class, representing a reset of a qubit to the |0⟩ state.
+ */
+
+import { IGate } from "./IGate";
+
+/**
+ * Represents a reset operation, which returns a qubit to the |0⟩ state regardless of its current state.
+ * It is drawn as a box labelled "|0⟩".
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Reset qubit 0 so it can be reused
+ * circuit.addGate(new ResetGate(0));
+ * ```
+ */
+export class ResetGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * @readonly
+   */
+  name = "Reset";
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "reset";
+
+  /**
+   * An array containing the index of the qubit that is reset.
+   */
+  qubits: number[];
+
+  /**
+   * Creates an instance of the ResetGate class.
+   *
+   * @param qubit - The index of the qubit to reset.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const resetGate = new ResetGate(2); // Resets qubit 2 to |0⟩
+   * ```
+   */
+  constructor(qubit: number) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    this.qubits = [qubit];
+  }
+
+  /**
+   * Serializes the reset as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operand of the qubit.
+   * @returns The statement, e.g. "reset q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `reset ${qubits[0]}`;
+  }
+}
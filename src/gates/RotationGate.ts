@@ -4,6 +4,16 @@
  */
 
 import { IGate } from "./IGate";
+import { complex, diagonalMatrix, expi, Matrix } from "../Complex";
+import {
+  bindValue,
+  negateValue,
+  numericValue,
+  ParameterBindings,
+  parametersOf,
+  ParameterValue,
+} from "../Parameter";
+import { AngleFormatOptions, formatParameter } from "../angles";
 
 /**
  * Represents a rotation gate (Rx, Ry, Rz) in a quantum circuit.
@@ -16,34 +26,48 @@ import { IGate } from "./IGate";
  * // Create a rotation gate around the X-axis for qubit 1 by π/2 radians
  * const rotationGate = new RotationGate('X', 1, Math.PI / 2);
  * circuit.addGate(rotationGate);
+ *
+ * // Rotate qubit 0 around the Y-axis by a symbolic angle θ, bound later with circuit.bind()
+ * circuit.addGate(new RotationGate('Y', 0, new Parameter('θ')));
  * ```
  */
 export class RotationGate implements IGate {
   /**
-   * The name of the gate, including the axis and angle (in degrees).
-   * Formatted as "R<axis>(<angle>°)".
+   * The name of the gate, including the axis and angle (as a fraction of π where possible).
+   * Formatted as "R<axis>(<angle>)", e.g. "RX(π/2)" or "RX(θ)".
    * @readonly
    */
   name: string;
 
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "rotation";
+
   /**
    * An array containing the index of the qubit the gate is applied to.
    */
   qubits: number[];
 
   /**
-   * The rotation angle in radians.
+   * The axis of rotation.
    */
-  angle: number;
+  axis: "X" | "Y" | "Z";
+
+  /**
+   * The rotation angle in radians, or a symbolic expression.
+   */
+  angle: ParameterValue;
 
   /**
    * Creates an instance of the RotationGate class.
    *
    * @param axis - The axis of rotation ('X', 'Y', or 'Z').
    * @param qubit - The index of the qubit the rotation gate is applied to.
-   * @param angle - The rotation angle in radians.
+   * @param angle - The rotation angle in radians, or a symbolic expression.
    *
-   * @throws {Error} Will throw an error if the qubit index is negative or if the axis is invalid.
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer or if the axis is invalid.
    *
    * @example
    * ```typescript
@@ -51,17 +75,95 @@ export class RotationGate implements IGate {
    * const rotationGate = new RotationGate('Z', 0, Math.PI);
    * ```
    */
-  constructor(axis: "X" | "Y" | "Z", qubit: number, angle: number) {
-    if (qubit < 0) {
+  constructor(axis: "X" | "Y" | "Z", qubit: number, angle: ParameterValue) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
       throw new Error("Qubit index must be a non-negative integer.");
     }
     if (!["X", "Y", "Z"].includes(axis)) {
       throw new Error("Axis must be 'X', 'Y', or 'Z'.");
     }
 
-    const angleDegrees = (angle * (180 / Math.PI)).toFixed(1);
-    this.name = `R${axis}(${angleDegrees}°)`;
+    this.name = `R${axis}(${formatParameter(angle)})`;
     this.qubits = [qubit];
+    this.axis = axis;
     this.angle = angle;
   }
+
+  /**
+   * Returns the label of the gate with its angle written in the given format.
+   *
+   * @param options - The unit and precision of the angle.
+   * @returns The label, e.g. "RX(90°)" in degrees.
+   */
+  label(options: AngleFormatOptions): string {
+    return `R${this.axis}(${formatParameter(this.angle, options)})`;
+  }
+
+  /**
+   * Returns the names of the symbolic parameters of the angle.
+   */
+  parameters(): string[] {
+    return parametersOf(this.angle);
+  }
+
+  /**
+   * Returns a copy of the gate with values substituted for the parameters of its angle.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   */
+  bind(bindings: ParameterBindings): RotationGate {
+    return new RotationGate(
+      this.axis,
+      this.qubits[0],
+      bindValue(this.angle, bindings)
+    );
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement, keeping the exact angle in radians.
+   * Symbolic angles are written as expressions of their parameters, e.g. "rx(2*θ) q[0]".
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "rx(1.5707963267948966) q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `r${this.axis.toLowerCase()}(${this.angle}) ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate, the rotation around the same axis by the opposite angle.
+   *
+   * @returns A new gate on the same qubit, e.g. RX(-π/2) for RX(π/2).
+   */
+  inverse(): RotationGate {
+    return new RotationGate(this.axis, this.qubits[0], negateValue(this.angle));
+  }
+
+  /**
+   * Returns the unitary matrix of the gate, computed from the stored axis and angle.
+   * The rotation by θ around the axis is exp(-iθ/2·σ), with σ the Pauli matrix of the axis.
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   *
+   * @throws {Error} Will throw an error if the angle depends on unbound parameters.
+   */
+  matrix(): Matrix {
+    const angle = numericValue(this.angle);
+    const cos = Math.cos(angle / 2);
+    const sin = Math.sin(angle / 2);
+    switch (this.axis) {
+      case "X":
+        return [
+          [complex(cos), complex(0, -sin)],
+          [complex(0, -sin), complex(cos)],
+        ];
+      case "Y":
+        return [
+          [complex(cos), complex(-sin)],
+          [complex(sin), complex(cos)],
+        ];
+      default:
+        return diagonalMatrix([expi(-angle / 2), expi(angle / 2)]);
+    }
+  }
 }
@@ -0,0 +1,96 @@
+/**
+ * @file SGate.ts
+ * @description Defines the SGate class, representing an S (phase) gate or its adjoint in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { complex, diagonalMatrix, Matrix } from "../Complex";
+
+/**
+ * Represents an S gate in a quantum circuit.
+ * The S gate applies a phase of i to the |1⟩ state (a quarter turn around the Z-axis).
+ * Its adjoint, S†, applies a phase of -i.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Create an S gate for qubit 0 and an S† gate for qubit 1
+ * circuit.addGate(new SGate(0));
+ * circuit.addGate(new SGate(1, true));
+ * ```
+ */
+export class SGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * "S" for the gate and "S†" for its adjoint.
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "s";
+
+  /**
+   * An array containing the index of the qubit the gate is applied to.
+   */
+  qubits: number[];
+
+  /**
+   * Whether the gate is the adjoint S† rather than S.
+   */
+  dagger: boolean;
+
+  /**
+   * Creates an instance of the SGate class.
+   *
+   * @param qubit - The index of the qubit the S gate is applied to.
+   * @param dagger - (Optional) Whether to create the adjoint S† gate. Defaults to `false`.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const sGate = new SGate(0); // Applies S gate to qubit 0
+   * ```
+   */
+  constructor(qubit: number, dagger = false) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    this.name = dagger ? "S†" : "S";
+    this.qubits = [qubit];
+    this.dagger = dagger;
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "s q[0]" or "sdg q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `${this.dagger ? "sdg" : "s"} ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate: S† for S, and S for S†.
+   *
+   * @returns A new gate on the same qubit.
+   */
+  inverse(): SGate {
+    return new SGate(this.qubits[0], !this.dagger);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate, diag(1, i) for S and diag(1, -i) for S†.
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    return diagonalMatrix([complex(1), complex(0, this.dagger ? -1 : 1)]);
+  }
+}
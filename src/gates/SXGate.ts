@@ -0,0 +1,103 @@
+/**
+ * @file SXGate.ts
+ * @description Defines the SXGate class, representing a √X gate or its adjoint in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { complex, Matrix } from "../Complex";
+
+/**
+ * Represents a √X gate in a quantum circuit.
+ * The √X gate is the square root of the Pauli-X gate: applying it twice flips the qubit.
+ * Its adjoint, √X†, is the other square root, and undoes √X.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Create a √X gate for qubit 0 and a √X† gate for qubit 1
+ * circuit.addGate(new SXGate(0));
+ * circuit.addGate(new SXGate(1, true));
+ * ```
+ */
+export class SXGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * "√X" for the gate and "√X†" for its adjoint.
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "sx";
+
+  /**
+   * An array containing the index of the qubit the gate is applied to.
+   */
+  qubits: number[];
+
+  /**
+   * Whether the gate is the adjoint √X† rather than √X.
+   */
+  dagger: boolean;
+
+  /**
+   * Creates an instance of the SXGate class.
+   *
+   * @param qubit - The index of the qubit the √X gate is applied to.
+   * @param dagger - (Optional) Whether to create the adjoint √X† gate. Defaults to `false`.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const sxGate = new SXGate(0); // Applies √X gate to qubit 0
+   * ```
+   */
+  constructor(qubit: number, dagger = false) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    this.name = dagger ? "√X†" : "√X";
+    this.qubits = [qubit];
+    this.dagger = dagger;
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   * The standard library has no `sxdg` gate, so the adjoint is written with the `inv` modifier.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "sx q[0]" or "inv @ sx q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `${this.dagger ? "inv @ sx" : "sx"} ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate: √X† for √X, and √X for √X†.
+   *
+   * @returns A new gate on the same qubit.
+   */
+  inverse(): SXGate {
+    return new SXGate(this.qubits[0], !this.dagger);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate, ½[[1+i, 1−i], [1−i, 1+i]] for √X and its conjugate for √X†.
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    const sign = this.dagger ? -1 : 1;
+    const diagonal = complex(0.5, 0.5 * sign);
+    const offDiagonal = complex(0.5, -0.5 * sign);
+    return [
+      [diagonal, offDiagonal],
+      [offDiagonal, diagonal],
+    ];
+  }
+}
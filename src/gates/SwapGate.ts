@@ -0,0 +1,100 @@
+/**
+ * @file SwapGate.ts
+ * @description Defines the SwapGate class, representing a SWAP gate in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { complex, Matrix } from "../Complex";
+
+/**
+ * Represents a SWAP gate in a quantum circuit.
+ * The SWAP gate exchanges the states of two qubits.
+ * It is drawn as two crosses joined by a vertical line.
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Swap the states of qubits 0 and 2
+ * const swapGate = new SwapGate(0, 2);
+ * circuit.addGate(swapGate);
+ * ```
+ */
+export class SwapGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * @readonly
+   */
+  name = "SWAP";
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "swap";
+
+  /**
+   * An array containing the indices of the two swapped qubits.
+   */
+  qubits: number[];
+
+  /**
+   * Creates an instance of the SwapGate class.
+   *
+   * @param qubit1 - The index of the first qubit.
+   * @param qubit2 - The index of the second qubit.
+   *
+   * @throws {Error} Will throw an error if a qubit index is not a non-negative integer or the qubits are the same.
+   *
+   * @example
+   * ```typescript
+   * const swapGate = new SwapGate(1, 2); // Swaps qubits 1 and 2
+   * ```
+   */
+  constructor(qubit1: number, qubit2: number) {
+    if (
+      [qubit1, qubit2].some((qubit) => !Number.isInteger(qubit) || qubit < 0)
+    ) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    if (qubit1 === qubit2) {
+      throw new Error("Swapped qubits must be different.");
+    }
+    this.qubits = [qubit1, qubit2];
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operands of the two qubits.
+   * @returns The statement, e.g. "swap q[0], q[1]".
+   */
+  toQASM(qubits: string[]): string {
+    return `swap ${qubits[0]}, ${qubits[1]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate. SWAP is its own inverse, so this is a copy of the gate.
+   *
+   * @returns A new gate on the same qubits.
+   */
+  inverse(): SwapGate {
+    return new SwapGate(this.qubits[0], this.qubits[1]);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate.
+   * The first qubit corresponds to the most significant bit of the row and column indices.
+   *
+   * @returns The 4×4 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    const [o, l] = [complex(0), complex(1)];
+    return [
+      [l, o, o, o],
+      [o, o, l, o],
+      [o, l, o, o],
+      [o, o, o, l],
+    ];
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @file TGate.ts
+ * @description Defines the TGate class, representing a T (π/8) gate or its adjoint in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { complex, diagonalMatrix, expi, Matrix } from "../Complex";
+
+/**
+ * Represents a T gate in a quantum circuit.
+ * The T gate applies a phase of e^(iπ/4) to the |1⟩ state (an eighth turn around the Z-axis).
+ * Its adjoint, T†, applies a phase of e^(-iπ/4).
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Create a T gate for qubit 0 and a T† gate for qubit 1
+ * circuit.addGate(new TGate(0));
+ * circuit.addGate(new TGate(1, true));
+ * ```
+ */
+export class TGate implements IGate {
+  /**
+   * The name of the gate, used for display and identification.
+   * "T" for the gate and "T†" for its adjoint.
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "t";
+
+  /**
+   * An array containing the index of the qubit the gate is applied to.
+   */
+  qubits: number[];
+
+  /**
+   * Whether the gate is the adjoint T† rather than T.
+   */
+  dagger: boolean;
+
+  /**
+   * Creates an instance of the TGate class.
+   *
+   * @param qubit - The index of the qubit the T gate is applied to.
+   * @param dagger - (Optional) Whether to create the adjoint T† gate. Defaults to `false`.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const tGate = new TGate(0); // Applies T gate to qubit 0
+   * ```
+   */
+  constructor(qubit: number, dagger = false) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+    this.name = dagger ? "T†" : "T";
+    this.qubits = [qubit];
+    this.dagger = dagger;
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "t q[0]" or "tdg q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `${this.dagger ? "tdg" : "t"} ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate: T† for T, and T for T†.
+   *
+   * @returns A new gate on the same qubit.
+   */
+  inverse(): TGate {
+    return new TGate(this.qubits[0], !this.dagger);
+  }
+
+  /**
+   * Returns the unitary matrix of the gate, diag(1, e^(iπ/4)) for T and diag(1, e^(-iπ/4)) for T†.
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   */
+  matrix(): Matrix {
+    const phase = this.dagger ? -Math.PI / 4 : Math.PI / 4;
+    return diagonalMatrix([complex(1), expi(phase)]);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @file UGate.ts
+ * @description Defines the UGate class, representing a general single-qubit rotation U(θ, φ, λ) in a quantum circuit.
+ */
+
+import { IGate } from "./IGate";
+import { Complex, complex, expi, Matrix } from "../Complex";
+import {
+  bindValue,
+  negateValue,
+  numericValue,
+  ParameterBindings,
+  parametersOf,
+  ParameterValue,
+} from "../Parameter";
+import { AngleFormatOptions, formatParameter } from "../angles";
+
+/**
+ * Represents the general single-qubit gate U(θ, φ, λ) in a quantum circuit.
+ * Every single-qubit unitary can be written as a U gate up to a global phase.
+ * It is the `U` / `u3` gate of OpenQASM; `u2(φ, λ)` is U(π/2, φ, λ).
+ *
+ * @implements {IGate}
+ *
+ * @example
+ * ```typescript
+ * // Apply U(π/2, 0, π), which equals a Hadamard gate, to qubit 0
+ * circuit.addGate(new UGate(0, Math.PI / 2, 0, Math.PI));
+ * ```
+ */
+export class UGate implements IGate {
+  /**
+   * The name of the gate, including the three angles (as fractions of π where possible).
+   * Formatted as "U(<theta>,<phi>,<lambda>)", e.g. "U(π/2,0,π)".
+   * @readonly
+   */
+  name: string;
+
+  /**
+   * The kind of the gate, used to look up its drawing routine.
+   * @readonly
+   */
+  kind = "u";
+
+  /**
+   * An array containing the index of the qubit the gate is applied to.
+   */
+  qubits: number[];
+
+  /**
+   * The polar rotation angle θ in radians, or a symbolic expression.
+   */
+  theta: ParameterValue;
+
+  /**
+   * The first phase angle φ in radians, or a symbolic expression.
+   */
+  phi: ParameterValue;
+
+  /**
+   * The second phase angle λ in radians, or a symbolic expression.
+   */
+  lambda: ParameterValue;
+
+  /**
+   * Creates an instance of the UGate class.
+   *
+   * @param qubit - The index of the qubit the gate is applied to.
+   * @param theta - The polar rotation angle θ in radians, or a symbolic expression.
+   * @param phi - The phase angle φ in radians, or a symbolic expression.
+   * @param lambda - The phase angle λ in radians, or a symbolic expression.
+   *
+   * @throws {Error} Will throw an error if the qubit index is not a non-negative integer.
+   *
+   * @example
+   * ```typescript
+   * const uGate = new UGate(0, Math.PI, 0, Math.PI); // Equivalent to X up to a global phase
+   * ```
+   */
+  constructor(
+    qubit: number,
+    theta: ParameterValue,
+    phi: ParameterValue,
+    lambda: ParameterValue
+  ) {
+    if (!Number.isInteger(qubit) || qubit < 0) {
+      throw new Error("Qubit index must be a non-negative integer.");
+    }
+
+    this.qubits = [qubit];
+    this.theta = theta;
+    this.phi = phi;
+    this.lambda = lambda;
+    this.name = this.label({});
+  }
+
+  /**
+   * Returns the label of the gate with its angles written in the given format.
+   *
+   * @param options - The unit and precision of the angles.
+   * @returns The label, e.g. "U(90°,0°,180°)" in degrees.
+   */
+  label(options: AngleFormatOptions): string {
+    const angles = [this.theta, this.phi, this.lambda].map((angle) =>
+      formatParameter(angle, options)
+    );
+    return `U(${angles.join(",")})`;
+  }
+
+  /**
+   * Returns the names of the symbolic parameters of the angles, in order of first appearance.
+   */
+  parameters(): string[] {
+    const names: string[] = [];
+    [this.theta, this.phi, this.lambda].forEach((angle) =>
+      parametersOf(angle).forEach((name) => {
+        if (names.indexOf(name) === -1) {
+          names.push(name);
+        }
+      })
+    );
+    return names;
+  }
+
+  /**
+   * Returns a copy of the gate with values substituted for the parameters of its angles.
+   *
+   * @param bindings - The values of the parameters, keyed by name.
+   */
+  bind(bindings: ParameterBindings): UGate {
+    return new UGate(
+      this.qubits[0],
+      bindValue(this.theta, bindings),
+      bindValue(this.phi, bindings),
+      bindValue(this.lambda, bindings)
+    );
+  }
+
+  /**
+   * Serializes the gate as an OpenQASM 3 statement, keeping the exact angles in radians.
+   *
+   * @param qubits - The OpenQASM operand of the target qubit.
+   * @returns The statement, e.g. "U(1.5707963267948966, 0, 3.141592653589793) q[0]".
+   */
+  toQASM(qubits: string[]): string {
+    return `U(${this.theta}, ${this.phi}, ${this.lambda}) ${qubits[0]}`;
+  }
+
+  /**
+   * Returns the inverse of the gate, U(-θ, -λ, -φ).
+   *
+   * @returns A new gate on the same qubit.
+   */
+  inverse(): UGate {
+    return new UGate(
+      this.qubits[0],
+      negateValue(this.theta),
+      negateValue(this.lambda),
+      negateValue(this.phi)
+    );
+  }
+
+  /**
+   * Returns the unitary matrix of the gate.
+   * This is the OpenQASM `U(θ, φ, λ)` gate, [[cos(θ/2), -e^(iλ)·sin(θ/2)], [e^(iφ)·sin(θ/2), e^(i(φ+λ))·cos(θ/2)]].
+   *
+   * @returns The 2×2 matrix in the computational basis.
+   *
+   * @throws {Error} Will throw an error if an angle depends on unbound parameters.
+   */
+  matrix(): Matrix {
+    const theta = numericValue(this.theta);
+    const phi = numericValue(this.phi);
+    const lambda = numericValue(this.lambda);
+    const cos = Math.cos(theta / 2);
+    const sin = Math.sin(theta / 2);
+    const scale = (c: Complex, factor: number) =>
+      complex(c.re * factor, c.im * factor);
+    return [
+      [complex(cos), scale(expi(lambda), -sin)],
+      [scale(expi(phi), sin), scale(expi(phi + lambda), cos)],
+    ];
+  }
+}
@@ -3,16 +3,134 @@
  * @description Entry point for the quantum-circuit-drawer package. This file re-exports all the primary classes and configurations, making them accessible when the package is imported.
  */
 
-import { Circuit } from "./Circuit";
+import {
+  Circuit,
+  Register,
+  GateGroup,
+  Annotation,
+  CircuitEventMap,
+  CircuitListener,
+  CircuitGateEvent,
+  CircuitMoveEvent,
+  CircuitChangeEvent,
+  CircuitChangeReason,
+} from "./Circuit";
 import { Renderer } from "./Renderer";
-import { DefaultStyleConfig } from "./styles";
+import {
+  CircuitEditor,
+  EditorEventMap,
+  EditorListener,
+  GateEvent,
+  GateMoveEvent,
+  GatePointerEvent,
+  GroupToggleEvent,
+  DiagramPosition,
+} from "./Editor";
+import {
+  CircuitPlayer,
+  PlayerOptions,
+  PlayerEasing,
+  PlayerEventMap,
+  PlayerListener,
+  PlayerStepEvent,
+  PlayerStateEvent,
+} from "./Player";
+import {
+  Layout,
+  GatePlacement,
+  GroupPlacement,
+  AnnotationPlacement,
+  WireLabelPlacement,
+  BracketPlacement,
+  SegmentPlacement,
+  GroupFrame,
+} from "./Layout";
+import {
+  GateRegistry,
+  GateDrawer,
+  DrawContext,
+  defaultGateRegistry,
+} from "./GateRegistry";
+import { drawBoxGate, drawLabelledBox, gateLabel } from "./drawers";
+import { renderToSVGString, renderToSVGFile } from "./formats/svg";
+import { renderToPNG, renderToPNGFile, PNGExportOptions } from "./formats/png";
+import { renderToPDF, renderToPDFFile, PDFExportOptions } from "./formats/pdf";
+import { FontFiles } from "./formats/fonts";
+import { parseQASM2, QASMParseError } from "./formats/qasm2";
+import { toQASM3 } from "./formats/qasm3";
+import { toQuantikz, QuantikzOptions } from "./formats/quantikz";
+import { renderToText, TextRenderOptions } from "./formats/text";
+import {
+  circuitToJSON,
+  circuitFromJSON,
+  CircuitJSON,
+  GateJSON,
+  RegisterJSON,
+  GroupJSON,
+  AnnotationJSON,
+  ParameterJSON,
+  CircuitJSONError,
+  CIRCUIT_JSON_VERSION,
+  stylesFromJSON,
+} from "./formats/json";
+import {
+  simulate,
+  StateVector,
+  SimulationOptions,
+  SimulationResult,
+} from "./Simulator";
+import { Complex, Matrix, complex } from "./Complex";
+import {
+  validateGate,
+  validateCircuit,
+  CircuitValidationError,
+  ValidationCode,
+  ValidationIssue,
+  ValidationReport,
+} from "./validation";
+import {
+  Parameter,
+  ParameterExpression,
+  ParameterOperation,
+  ParameterOperator,
+  ParameterValue,
+  ParameterBindings,
+  ExpressionFormatter,
+} from "./Parameter";
+import {
+  formatAngle,
+  formatParameter,
+  AngleUnit,
+  AngleFormatOptions,
+} from "./angles";
+import {
+  DefaultStyleConfig,
+  StyleConfig,
+  GateStyles,
+  gateStyleConfig,
+} from "./styles";
+import { Themes, ThemeName, themeStyles } from "./themes";
 
 import { HadamardGate } from "./gates/HadamardGate";
 import { CNOTGate } from "./gates/CNOTGate";
+import { ControlledGate } from "./gates/ControlledGate";
 import { PauliXGate } from "./gates/PauliXGate";
 import { PauliYGate } from "./gates/PauliYGate";
 import { PauliZGate } from "./gates/PauliZGate";
 import { RotationGate } from "./gates/RotationGate";
+import { SGate } from "./gates/SGate";
+import { TGate } from "./gates/TGate";
+import { SXGate } from "./gates/SXGate";
+import { PhaseGate } from "./gates/PhaseGate";
+import { UGate } from "./gates/UGate";
+import { IdentityGate } from "./gates/IdentityGate";
+import { SwapGate } from "./gates/SwapGate";
+import { ISwapGate } from "./gates/ISwapGate";
+import { MultiQubitGate } from "./gates/MultiQubitGate";
+import { MeasureGate } from "./gates/MeasureGate";
+import { ResetGate } from "./gates/ResetGate";
+import { BarrierGate } from "./gates/BarrierGate";
+import { cIf, ClassicalCondition } from "./gates/ClassicalCondition";
 
 /**
  * Represents a quantum circuit composed of qubits and quantum gates.
@@ -20,21 +138,328 @@ import { RotationGate } from "./gates/RotationGate";
  * @example
  * ```typescript
  * const circuit = new Circuit(3); // Creates a circuit with 3 qubits
+ * const measured = new Circuit(3, 3); // 3 qubits and 3 classical bits
  * ```
  */
 export { Circuit };
 
 /**
- * Responsible for rendering a quantum circuit onto an SVG canvas.
+ * A named group of consecutive qubits or classical bits in a circuit, such as an OpenQASM `qreg` or `creg`.
+ */
+export { Register };
+
+/**
+ * A named group of consecutive gates (a subcircuit), drawn with a dashed frame and a title, or collapsed into one box.
+ *
+ * @example
+ * ```typescript
+ * circuit.group("QFT", (c) => c.h(0).cp(0, 1, Math.PI / 2).h(1));
+ * ```
+ */
+export { GateGroup };
+
+/**
+ * A note attached to a gate, written above it, or to its column, written below the diagram.
+ *
+ * @example
+ * ```typescript
+ * circuit.h(0).annotate("prepare");
+ * circuit.annotateColumn("t = 1", 0);
+ * ```
+ */
+export { Annotation };
+
+/**
+ * The events a circuit emits when it changes through its methods, which keep drawn diagrams up to date.
+ *
+ * @example
+ * ```typescript
+ * circuit.on("add", ({ gate, index }) => console.log(`Added ${gate.name} at ${index}`));
+ * circuit.on("change", ({ reason }) => console.log(`Changed ${reason}`));
+ * ```
+ */
+export {
+  CircuitEventMap,
+  CircuitListener,
+  CircuitGateEvent,
+  CircuitMoveEvent,
+  CircuitChangeEvent,
+  CircuitChangeReason,
+};
+
+/**
+ * Responsible for rendering a quantum circuit onto an SVG canvas, and keeping the drawing up to date as it changes.
  *
  * @example
  * ```typescript
  * const renderer = new Renderer(circuit, 'container-id');
  * renderer.draw();
+ * circuit.cx(0, 1); // drawn incrementally
+ * renderer.dispose();
  * ```
  */
 export { Renderer };
 
+/**
+ * An opt-in interactive mode for a Renderer: gates can be added, dragged between columns and removed,
+ * with undo/redo, while `circuit.gates` stays in sync. Clicking a gate group collapses or expands it.
+ * Emits `add`, `move`, `remove`, `click`, `hover`, `leave` and `toggle` events.
+ *
+ * @example
+ * ```typescript
+ * const editor = new CircuitEditor(renderer);
+ * editor.on("click", ({ gate, index }) => console.log(`Clicked ${gate.name} at ${index}`));
+ * editor.addGate(new HadamardGate(0), 0);
+ * editor.undo();
+ * ```
+ */
+export {
+  CircuitEditor,
+  EditorEventMap,
+  EditorListener,
+  GateEvent,
+  GateMoveEvent,
+  GatePointerEvent,
+  GroupToggleEvent,
+  DiagramPosition,
+};
+
+/**
+ * Animates the execution of a drawn circuit: a playhead sweeps across the columns and highlights the one that has
+ * just run, with play, pause, step and seek controls. Emits `step`, `play`, `pause` and `end` events.
+ *
+ * @example
+ * ```typescript
+ * const player = new CircuitPlayer(renderer, { speed: 2 });
+ * player.on("step", ({ step, gates }) => updateBlochSphere(step, gates));
+ * player.play();
+ * ```
+ */
+export {
+  CircuitPlayer,
+  PlayerOptions,
+  PlayerEasing,
+  PlayerEventMap,
+  PlayerListener,
+  PlayerStepEvent,
+  PlayerStateEvent,
+};
+
+/**
+ * Renders a circuit to SVG markup (or an SVG file) without a browser.
+ * Works in Node.js, CI and static-site builds.
+ *
+ * @example
+ * ```typescript
+ * const markup = await renderToSVGString(circuit);
+ * await renderToSVGFile(circuit, 'circuit.svg');
+ * ```
+ */
+export { renderToSVGString, renderToSVGFile };
+
+/**
+ * Renders a circuit to a PNG image or a single-page vector PDF (or a file of either) without a browser.
+ * Text is set in the font files given for the `fontFamily` style, or in fonts shipped with the library,
+ * so the output does not depend on the fonts installed on the machine.
+ *
+ * @example
+ * ```typescript
+ * await renderToPNGFile(circuit, 'circuit.png', undefined, { dpi: 300 });
+ * await renderToPDFFile(circuit, 'circuit.pdf', Themes.print);
+ * ```
+ */
+export {
+  renderToPNG,
+  renderToPNGFile,
+  PNGExportOptions,
+  renderToPDF,
+  renderToPDFFile,
+  PDFExportOptions,
+  FontFiles,
+};
+
+/**
+ * Renders a circuit as a Unicode (or ASCII) text diagram for terminals and logs,
+ * using the same column layout as the SVG diagram. Wide circuits are folded at `maxWidth` characters.
+ *
+ * @example
+ * ```typescript
+ * console.log(renderToText(circuit, { maxWidth: 100 }));
+ * ```
+ */
+export { renderToText, TextRenderOptions };
+
+/**
+ * Parses an OpenQASM 2.0 program into a Circuit.
+ * Malformed or unsupported statements throw a QASMParseError carrying the line and column.
+ *
+ * @example
+ * ```typescript
+ * const circuit = parseQASM2('OPENQASM 2.0; include "qelib1.inc"; qreg q[2]; h q[0]; cx q[0], q[1];');
+ * ```
+ */
+export { parseQASM2, QASMParseError };
+
+/**
+ * Serializes a circuit to an OpenQASM 3 program, e.g. to run it on a simulator.
+ * Gates that do not implement `toQASM()` cause an error rather than being skipped.
+ *
+ * @example
+ * ```typescript
+ * const source = toQASM3(circuit);
+ * ```
+ */
+export { toQASM3 };
+
+/**
+ * Exports a circuit to LaTeX as a quantikz environment, using the same column layout as the SVG diagram.
+ *
+ * @example
+ * ```typescript
+ * const latex = toQuantikz(circuit); // \begin{quantikz} ... \end{quantikz}
+ * toQuantikz(circuit, { angleUnit: "degrees" });
+ * ```
+ */
+export { toQuantikz, QuantikzOptions };
+
+/**
+ * Saves and loads circuits in a versioned JSON format that round-trips every built-in gate exactly.
+ * Invalid documents throw a CircuitJSONError carrying the path of the offending value.
+ *
+ * @example
+ * ```typescript
+ * const text = JSON.stringify(circuitToJSON(circuit)); // or JSON.stringify(circuit)
+ * const copy = circuitFromJSON(text); // or Circuit.fromJSON(text)
+ * const styles = stylesFromJSON(JSON.parse(styleText)); // checks a style file the same way
+ * ```
+ */
+export {
+  circuitToJSON,
+  circuitFromJSON,
+  CircuitJSON,
+  GateJSON,
+  RegisterJSON,
+  GroupJSON,
+  AnnotationJSON,
+  ParameterJSON,
+  CircuitJSONError,
+  CIRCUIT_JSON_VERSION,
+  stylesFromJSON,
+};
+
+/**
+ * Runs a circuit on a statevector simulator and returns the final amplitudes, measurement probabilities
+ * and classical bits. Gates are applied through their `matrix()`.
+ *
+ * @example
+ * ```typescript
+ * const { state } = simulate(circuit); // or circuit.simulate()
+ * state.probabilities(); // [0.5, 0, 0, 0.5] for a Bell pair
+ * ```
+ */
+export { simulate, StateVector, SimulationOptions, SimulationResult };
+
+/**
+ * Checks gates against the wires of their circuit: qubit and classical bit indices must be integers within the circuit,
+ * a gate's qubits must be distinct, angles must be finite and conditions must fit their bits.
+ * `circuit.addGate()` throws a CircuitValidationError for invalid gates; `circuit.validate()` reports on a whole circuit.
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = circuit.validate();
+ * issues.forEach(({ index, code, message }) => console.warn(index, code, message));
+ * ```
+ */
+export {
+  validateGate,
+  validateCircuit,
+  CircuitValidationError,
+  ValidationCode,
+  ValidationIssue,
+  ValidationReport,
+};
+
+/**
+ * Symbolic gate parameters for variational circuits. Angles of rotation, phase and U gates may be numbers
+ * or expressions of named parameters, which are drawn by name and bound to values with `circuit.bind()`.
+ *
+ * @example
+ * ```typescript
+ * const theta = new Parameter("θ");
+ * circuit.addGate(new RotationGate("Y", 0, theta));
+ * circuit.addGate(new RotationGate("Z", 1, theta.times(2).plus(Math.PI / 2))); // RZ(2·θ + π/2)
+ * const bound = circuit.bind({ θ: 0.5 });
+ * ```
+ */
+export {
+  Parameter,
+  ParameterExpression,
+  ParameterOperation,
+  ParameterOperator,
+  ParameterValue,
+  ParameterBindings,
+  ExpressionFormatter,
+};
+
+/**
+ * Formats angles as fractions of π, degrees or radians, as used for gate labels.
+ *
+ * @example
+ * ```typescript
+ * formatAngle(Math.PI / 4); // "π/4"
+ * formatAngle(Math.PI / 4, { unit: "degrees" }); // "45°"
+ * ```
+ */
+export { formatAngle, formatParameter, AngleUnit, AngleFormatOptions };
+
+/**
+ * Complex numbers and matrices, as returned by the `matrix()` method of gates.
+ */
+export { Complex, Matrix, complex };
+
+/**
+ * Computes the column layout of a circuit, packing gates on disjoint qubits into shared columns.
+ * Used by the Renderer and available for custom tooling.
+ *
+ * @example
+ * ```typescript
+ * const layout = new Layout(circuit);
+ * layout.columnOf(0); // Column of the first gate
+ * ```
+ */
+export {
+  Layout,
+  GatePlacement,
+  GroupPlacement,
+  AnnotationPlacement,
+  WireLabelPlacement,
+  BracketPlacement,
+  SegmentPlacement,
+  GroupFrame,
+};
+
+/**
+ * Maps gate kinds to the routines that draw them. Register a drawer to render custom gate kinds,
+ * or to change how a built-in kind is drawn, without modifying the renderer.
+ *
+ * @example
+ * ```typescript
+ * const registry = defaultGateRegistry.clone();
+ * registry.register("oracle", (context, placement) => {
+ *   placement.ys.forEach((y) => drawLabelledBox(context, placement.x, y, "Oracle"));
+ * });
+ * renderer.registry = registry;
+ * ```
+ */
+export { GateRegistry, GateDrawer, DrawContext, defaultGateRegistry };
+
+/**
+ * Helpers for writing custom drawers: `drawBoxGate` draws a gate as a box labelled with its name on each of its qubits,
+ * `drawLabelledBox` draws one labelled box centered on a wire, and `gateLabel` returns a gate's label with its angles
+ * in the unit of the styles.
+ */
+export { drawBoxGate, drawLabelledBox, gateLabel };
+
 /**
  * Default styling configuration for the circuit diagrams.
  * Users can customize styles by providing their own configuration.
@@ -45,7 +470,21 @@ export { Renderer };
  * const renderer = new Renderer(circuit, 'container-id', customStyles);
  * ```
  */
-export { DefaultStyleConfig };
+export { DefaultStyleConfig, StyleConfig, GateStyles };
+
+/**
+ * Themes: the built-in sets of styles ("light", "dark", "high-contrast", "print" and "textbook"),
+ * and `themeStyles` to apply styles of one's own on top of a theme.
+ * `gateStyleConfig` returns the styles a gate is drawn with, after the overrides of its kind and of the gate itself.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new Renderer(circuit, 'container-id', themeStyles('dark', { fontSize: 16 }));
+ * circuit.gates[2].style = { gateFill: '#ffeb3b' }; // Highlight the third gate
+ * renderer.draw();
+ * ```
+ */
+export { Themes, ThemeName, themeStyles, gateStyleConfig };
 
 /**
  * Represents a Hadamard gate applied to a single qubit.
@@ -69,6 +508,17 @@ export { HadamardGate };
  */
 export { CNOTGate };
 
+/**
+ * Represents any gate controlled by one or more qubits, including open (negated) controls.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new ControlledGate(new PauliXGate(2), [0, 1])); // Toffoli
+ * circuit.addGate(new ControlledGate(new PauliZGate(1), [0], [0])); // CZ with an open control
+ * ```
+ */
+export { ControlledGate };
+
 /**
  * Represents a Pauli-X gate applied to a single qubit.
  * The Pauli-X gate acts as a quantum NOT gate, flipping the qubit's state.
@@ -112,3 +562,136 @@ export { PauliZGate };
  * ```
  */
 export { RotationGate };
+
+/**
+ * Represents an S gate (or its adjoint S†) applied to a single qubit.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new SGate(0)); // Applies S gate to qubit 0
+ * circuit.addGate(new SGate(1, true)); // Applies S† gate to qubit 1
+ * ```
+ */
+export { SGate };
+
+/**
+ * Represents a T gate (or its adjoint T†) applied to a single qubit.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new TGate(0)); // Applies T gate to qubit 0
+ * ```
+ */
+export { TGate };
+
+/**
+ * Represents a √X gate (or its adjoint √X†) applied to a single qubit.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new SXGate(0)); // Applies √X gate to qubit 0
+ * circuit.addGate(new SXGate(1, true)); // Applies √X† gate to qubit 1
+ * ```
+ */
+export { SXGate };
+
+/**
+ * Represents a phase shift gate P(λ) applied to a single qubit.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new PhaseGate(0, Math.PI / 4)); // Applies P(π/4) to qubit 0
+ * ```
+ */
+export { PhaseGate };
+
+/**
+ * Represents the general single-qubit gate U(θ, φ, λ).
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new UGate(0, Math.PI / 2, 0, Math.PI));
+ * ```
+ */
+export { UGate };
+
+/**
+ * Represents an identity gate applied to a single qubit.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new IdentityGate(2)); // Marks qubit 2 as idle
+ * ```
+ */
+export { IdentityGate };
+
+/**
+ * Represents a SWAP gate exchanging the states of two qubits.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new SwapGate(0, 2)); // Swaps qubits 0 and 2
+ * ```
+ */
+export { SwapGate };
+
+/**
+ * Represents an iSWAP gate on two qubits.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new ISwapGate(0, 1));
+ * ```
+ */
+export { ISwapGate };
+
+/**
+ * Represents a labelled block spanning several qubits, such as "QFT" or "Oracle".
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new MultiQubitGate("QFT", [0, 1, 2]));
+ * ```
+ */
+export { MultiQubitGate };
+
+/**
+ * Represents a measurement of a qubit into a classical bit.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new MeasureGate(0, 0)); // Measures qubit 0 into classical bit 0
+ * ```
+ */
+export { MeasureGate };
+
+/**
+ * Represents a reset of a qubit to the |0⟩ state.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new ResetGate(1)); // Resets qubit 1
+ * ```
+ */
+export { ResetGate };
+
+/**
+ * Represents a barrier, or a titled slice marker, across some qubits. It keeps gates on either side
+ * in separate columns and has no effect on the state.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(new BarrierGate([0, 1, 2], "t = 1")); // A slice marker across three qubits
+ * ```
+ */
+export { BarrierGate };
+
+/**
+ * Makes a gate classically controlled, so it only applies when classical bits hold a given value.
+ *
+ * @example
+ * ```typescript
+ * circuit.addGate(cIf(new PauliXGate(1), [0], 1)); // X on qubit 1 if classical bit 0 is 1
+ * ```
+ */
+export { cIf, ClassicalCondition };
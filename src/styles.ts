@@ -4,6 +4,9 @@
  * Provides an interface for custom styles and a default style configuration.
  */
 
+import { AngleUnit } from "./angles";
+import { IGate } from "./gates/IGate";
+
 /**
  * Interface representing the styling options for rendering quantum circuits.
  * Users can customize the appearance of the circuit diagram by providing an object adhering to this interface.
@@ -92,6 +95,182 @@ export interface StyleConfig {
    * @default "#000" (black)
    */
   fontColor: string;
+
+  /**
+   * The unit gate angles are written in: fractions of π ("pi"), "degrees" or "radians".
+   * Symbolic parameters are written by name in every unit.
+   * @default "pi"
+   */
+  angleUnit: AngleUnit;
+
+  /**
+   * The largest number of decimals of gate angles that are not fractions of π.
+   * @default 2
+   */
+  anglePrecision: number;
+
+  /**
+   * How gate groups are drawn unless a group sets `collapsed` itself:
+   * "expanded" frames the group's gates and writes its name above them,
+   * "collapsed" draws the group as a single box over its qubits.
+   * @default "expanded"
+   */
+  groupDisplay: "expanded" | "collapsed";
+
+  /**
+   * The color of the dashed frame and the title of expanded gate groups.
+   * @default "#555"
+   */
+  groupColor: string;
+
+  /**
+   * The font size of the titles of expanded gate groups in pixels.
+   * @default 11
+   */
+  groupFontSize: number;
+
+  /**
+   * The fill behind the titles of expanded gate groups, interrupting their dashed frame, when the diagram is
+   * transparent (`backgroundColor` is "none"); otherwise the titles sit on the diagram's background.
+   * Match it to the page the diagram is shown on.
+   * @default "#fff"
+   */
+  groupTitleBackground: string;
+
+  /**
+   * The font size of annotations and of the titles of barriers and slice markers in pixels.
+   * @default 11
+   */
+  annotationFontSize: number;
+
+  /**
+   * What is written in the left margin before each qubit wire:
+   * "name" writes the qubit's name (e.g. "q₀", or the name given with `Circuit.nameQubit()`),
+   * "state" its initial state (e.g. "|0⟩" or "|+⟩"), "both" the name followed by the state,
+   * and "none" leaves the margin out. Classical wires are labelled with their names unless "none".
+   * @default "name"
+   */
+  qubitLabels: "name" | "state" | "both" | "none";
+
+  /**
+   * The font size of wire labels, output labels and register names in pixels.
+   * @default 14
+   */
+  labelFontSize: number;
+
+  /**
+   * Whether registers are marked with a bracket and their name in the left margin.
+   * Brackets are only drawn when the wires of a kind are split into registers,
+   * i.e. not for a single register covering every qubit or every classical bit.
+   * @default true
+   */
+  registerBrackets: boolean;
+
+  /**
+   * The largest width of the diagram in pixels. Wider circuits are wrapped into segments stacked vertically,
+   * each repeating the wire labels, with continuation markers where the wires are cut.
+   * @default Infinity (never wrap)
+   */
+  wrapWidth: number;
+
+  /**
+   * The largest number of columns in a segment of the diagram. Longer circuits are wrapped as with `wrapWidth`.
+   * @default Infinity (never wrap)
+   */
+  wrapColumns: number;
+
+  /**
+   * The color filling the background of the diagram, or "none" for a transparent background.
+   * @default "none"
+   */
+  backgroundColor: string;
+
+  /**
+   * The color of control dots, of the dot standing for the target of a controlled-Z,
+   * and of the outline of open controls.
+   * @default "#000" (black)
+   */
+  controlColor: string;
+
+  /**
+   * The diameter of control dots in pixels.
+   * @default 8
+   */
+  controlDotSize: number;
+
+  /**
+   * The diameter of the circle of controlled-NOT targets in pixels.
+   * @default 20
+   */
+  targetSize: number;
+
+  /**
+   * The fill color of the circle of controlled-NOT targets.
+   * @default "#fff" (white)
+   */
+  targetFill: string;
+
+  /**
+   * The width and height of the crosses of SWAP gates in pixels.
+   * @default 16
+   */
+  swapSize: number;
+
+  /**
+   * The diameter of the dots marking the classical bits a conditioned gate reads, in pixels.
+   * @default 10
+   */
+  conditionDotSize: number;
+
+  /**
+   * The color of the playhead a CircuitPlayer draws after the columns that have run.
+   * @default "#e53935" (red)
+   */
+  playheadColor: string;
+
+  /**
+   * The width of the playhead in pixels.
+   * @default 2
+   */
+  playheadWidth: number;
+
+  /**
+   * The color of the band a CircuitPlayer lays over the current column.
+   * @default "#2196f3" (blue)
+   */
+  highlightColor: string;
+
+  /**
+   * The opacity of the band over the current column, from 0 to 1.
+   * @default 0.15
+   */
+  highlightOpacity: number;
+
+  /**
+   * Style overrides for the gates of a kind, keyed by `IGate.kind` (e.g. "x", "rotation", "cnot" or "measure").
+   * They apply on top of the other styles when the gate is drawn, and an individual gate's own `style` applies on top
+   * of them. The base gate of a controlled gate gets the overrides of the controlled gate followed by its own.
+   * Overrides change how gates are painted; the spacing of the layout always follows the diagram's styles.
+   * @default {}
+   *
+   * @example
+   * ```typescript
+   * const styles: Partial<StyleConfig> = {
+   *   gateStyles: {
+   *     x: { gateFill: "#fdd", gateStroke: "#c00" },
+   *     cnot: { controlColor: "#c00" },
+   *   },
+   * };
+   * ```
+   */
+  gateStyles: GateStyles;
+}
+
+/**
+ * Style overrides for the gates of each kind, keyed by `IGate.kind`.
+ */
+export interface GateStyles {
+  [kind: string]: Partial<StyleConfig>;
 }
 
 /**
@@ -123,4 +302,50 @@ export const DefaultStyleConfig: StyleConfig = {
   fontSize: 14,
   fontFamily: "Arial, sans-serif",
   fontColor: "#000",
+  angleUnit: "pi",
+  anglePrecision: 2,
+  groupDisplay: "expanded",
+  groupColor: "#555",
+  groupFontSize: 11,
+  groupTitleBackground: "#fff",
+  annotationFontSize: 11,
+  qubitLabels: "name",
+  labelFontSize: 14,
+  registerBrackets: true,
+  wrapWidth: Infinity,
+  wrapColumns: Infinity,
+  backgroundColor: "none",
+  controlColor: "#000",
+  controlDotSize: 8,
+  targetSize: 20,
+  targetFill: "#fff",
+  swapSize: 16,
+  conditionDotSize: 10,
+  playheadColor: "#e53935",
+  playheadWidth: 2,
+  highlightColor: "#2196f3",
+  highlightOpacity: 0.15,
+  gateStyles: {},
 };
+
+/**
+ * Returns the styles a gate is drawn with: the given styles, overridden by those of the gate's kind in `gateStyles`,
+ * then by the gate's own `style`.
+ *
+ * @param styles - The styles of the diagram, or those the enclosing gate is drawn with.
+ * @param gate - The gate being drawn.
+ * @returns The styles of the gate; `styles` itself if nothing overrides it.
+ *
+ * @example
+ * ```typescript
+ * const styles = { ...DefaultStyleConfig, gateStyles: { h: { gateFill: "#ddf" } } };
+ * gateStyleConfig(styles, new HadamardGate(0)).gateFill; // "#ddf"
+ * ```
+ */
+export function gateStyleConfig(styles: StyleConfig, gate: IGate): StyleConfig {
+  const kindStyles = gate.kind ? styles.gateStyles[gate.kind] : undefined;
+  if (!kindStyles && !gate.style) {
+    return styles;
+  }
+  return { ...styles, ...kindStyles, ...gate.style };
+}
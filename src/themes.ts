@@ -0,0 +1,168 @@
+/**
+ * @file themes.ts
+ * @description Defines the built-in themes: named sets of styles for common backgrounds and media.
+ */
+
+import { StyleConfig, GateStyles } from "./styles";
+
+/**
+ * The names of the built-in themes:
+ * - "light": black on a white background, as the default styles;
+ * - "dark": light lines and labels on a dark background;
+ * - "high-contrast": thick yellow and white strokes and larger symbols on black;
+ * - "print": monochrome, thin strokes and a serif font, for printed documents;
+ * - "textbook": a colorful palette telling gate families apart (Paulis red, Hadamards blue, rotations green, ...).
+ */
+export type ThemeName =
+  | "light"
+  | "dark"
+  | "high-contrast"
+  | "print"
+  | "textbook";
+
+/**
+ * The built-in themes, keyed by name. Each theme is a set of style overrides;
+ * pass it to a Renderer, or combine it with other styles through `themeStyles()`.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new Renderer(circuit, "circuit-container", Themes.dark);
+ * renderer.draw();
+ * ```
+ */
+export const Themes: { [name in ThemeName]: Partial<StyleConfig> } = {
+  light: {
+    backgroundColor: "#fff",
+    lineColor: "#000",
+    gateFill: "#fff",
+    gateStroke: "#000",
+    fontColor: "#000",
+    groupColor: "#555",
+    groupTitleBackground: "#fff",
+    controlColor: "#000",
+    targetFill: "#fff",
+  },
+  dark: {
+    backgroundColor: "#1e1e1e",
+    lineColor: "#d4d4d4",
+    gateFill: "#2d2d30",
+    gateStroke: "#d4d4d4",
+    fontColor: "#f0f0f0",
+    groupColor: "#a0a0a0",
+    groupTitleBackground: "#1e1e1e",
+    controlColor: "#d4d4d4",
+    targetFill: "#2d2d30",
+  },
+  "high-contrast": {
+    backgroundColor: "#000",
+    lineColor: "#fff",
+    lineWidth: 3,
+    gateFill: "#000",
+    gateStroke: "#ff0",
+    gateStrokeWidth: 3,
+    fontSize: 16,
+    fontColor: "#fff",
+    groupColor: "#0ff",
+    groupTitleBackground: "#000",
+    controlColor: "#ff0",
+    controlDotSize: 12,
+    targetSize: 26,
+    targetFill: "#000",
+    swapSize: 20,
+    conditionDotSize: 12,
+  },
+  print: {
+    backgroundColor: "#fff",
+    lineColor: "#000",
+    lineWidth: 1.5,
+    gateFill: "#fff",
+    gateStroke: "#000",
+    gateStrokeWidth: 1.5,
+    fontFamily: "'Times New Roman', Times, serif",
+    fontColor: "#000",
+    groupColor: "#000",
+    groupTitleBackground: "#fff",
+    controlColor: "#000",
+    targetFill: "#fff",
+  },
+  textbook: {
+    backgroundColor: "#fff",
+    lineColor: "#37474f",
+    gateFill: "#fff",
+    gateStroke: "#37474f",
+    fontColor: "#263238",
+    groupColor: "#607d8b",
+    groupTitleBackground: "#fff",
+    controlColor: "#1565c0",
+    targetFill: "#e3f2fd",
+    gateStyles: {
+      x: { gateFill: "#ffcdd2", gateStroke: "#c62828", fontColor: "#b71c1c" },
+      y: { gateFill: "#ffcdd2", gateStroke: "#c62828", fontColor: "#b71c1c" },
+      z: { gateFill: "#ffcdd2", gateStroke: "#c62828", fontColor: "#b71c1c" },
+      h: { gateFill: "#bbdefb", gateStroke: "#1565c0", fontColor: "#0d47a1" },
+      rotation: {
+        gateFill: "#c8e6c9",
+        gateStroke: "#2e7d32",
+        fontColor: "#1b5e20",
+      },
+      s: { gateFill: "#e1bee7", gateStroke: "#6a1b9a", fontColor: "#4a148c" },
+      t: { gateFill: "#e1bee7", gateStroke: "#6a1b9a", fontColor: "#4a148c" },
+      p: { gateFill: "#e1bee7", gateStroke: "#6a1b9a", fontColor: "#4a148c" },
+      u: { gateFill: "#fff9c4", gateStroke: "#f9a825", fontColor: "#f57f17" },
+      cnot: { gateStroke: "#1565c0" },
+      swap: { gateStroke: "#1565c0" },
+      iswap: { gateStroke: "#1565c0", fontColor: "#0d47a1" },
+      block: {
+        gateFill: "#ffe0b2",
+        gateStroke: "#ef6c00",
+        fontColor: "#e65100",
+      },
+      measure: { gateFill: "#eceff1", gateStroke: "#455a64" },
+      reset: { gateFill: "#eceff1", gateStroke: "#455a64" },
+    },
+  },
+};
+
+/**
+ * Returns the styles of a theme with other styles applied on top of it.
+ * The overrides for each gate kind in `gateStyles` are merged with those of the theme rather than replacing them.
+ *
+ * @param theme - The name of a built-in theme, or a theme of one's own.
+ * @param styles - (Optional) Styles overriding those of the theme.
+ * @returns The combined styles, to pass to a Renderer or to `renderToSVGString()`.
+ *
+ * @throws {Error} Will throw an error if the theme name is unknown.
+ *
+ * @example
+ * ```typescript
+ * // The dark theme, with rotations highlighted in green
+ * const styles = themeStyles("dark", {
+ *   gateStyles: { rotation: { gateStroke: "#4caf50" } },
+ * });
+ * const renderer = new Renderer(circuit, "circuit-container", styles);
+ * ```
+ */
+export function themeStyles(
+  theme: string | Partial<StyleConfig>,
+  styles: Partial<StyleConfig> = {}
+): Partial<StyleConfig> {
+  let base: Partial<StyleConfig>;
+  if (typeof theme === "string") {
+    if (!Object.prototype.hasOwnProperty.call(Themes, theme)) {
+      throw new Error(
+        `Unknown theme '${theme}'. The themes are: ${Object.keys(Themes).join(
+          ", "
+        )}.`
+      );
+    }
+    base = Themes[theme as ThemeName];
+  } else {
+    base = theme;
+  }
+
+  const gateStyles: GateStyles = { ...base.gateStyles };
+  Object.keys(styles.gateStyles || {}).forEach((kind) => {
+    gateStyles[kind] = { ...gateStyles[kind], ...styles.gateStyles![kind] };
+  });
+  return { ...base, ...styles, gateStyles };
+}
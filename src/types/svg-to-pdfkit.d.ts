@@ -0,0 +1,40 @@
+/**
+ * @file svg-to-pdfkit.d.ts
+ * @description Declares the part of svg-to-pdfkit the PDF export uses. The published typings expect the PDFKit class
+ * where the library takes a document, so they are not installed.
+ */
+
+declare module "svg-to-pdfkit" {
+  /**
+   * The options of `SVGtoPDF()`.
+   */
+  interface SVGtoPDFOptions {
+    /**
+     * The width of the viewport the SVG is drawn in, in points. Defaults to the page width.
+     */
+    width?: number;
+
+    /**
+     * The height of the viewport the SVG is drawn in, in points. Defaults to the page height.
+     */
+    height?: number;
+
+    /**
+     * Returns the name of the registered font to set a font family in.
+     */
+    fontCallback?: (family: string, bold: boolean, italic: boolean) => string;
+  }
+
+  /**
+   * Draws SVG markup into a PDFKit document at a position.
+   */
+  function SVGtoPDF(
+    doc: PDFKit.PDFDocument,
+    svg: string,
+    x?: number,
+    y?: number,
+    options?: SVGtoPDFOptions
+  ): void;
+
+  export = SVGtoPDF;
+}
@@ -0,0 +1,252 @@
+/**
+ * @file validation.ts
+ * @description Checks gates against the wires of their circuit and their own invariants, and reports the problems found.
+ */
+
+import { Circuit } from "./Circuit";
+import { IGate } from "./gates/IGate";
+import { ControlledGate } from "./gates/ControlledGate";
+import { RotationGate } from "./gates/RotationGate";
+import { PhaseGate } from "./gates/PhaseGate";
+import { UGate } from "./gates/UGate";
+import { ParameterValue } from "./Parameter";
+
+/**
+ * The kinds of problems validation reports:
+ * - "qubit": a qubit index is not an integer, is outside the circuit, or the gate has no qubits;
+ * - "duplicate-qubit": a qubit appears more than once in a gate;
+ * - "clbit": a classical bit index is not an integer or is outside the circuit;
+ * - "parameter": a numeric angle is not a finite number;
+ * - "condition": a classical condition reads invalid bits or expects a value that does not fit in them.
+ */
+export type ValidationCode =
+  | "qubit"
+  | "duplicate-qubit"
+  | "clbit"
+  | "parameter"
+  | "condition";
+
+/**
+ * A problem found in a gate of a circuit.
+ */
+export interface ValidationIssue {
+  /**
+   * The index of the offending gate in `circuit.gates` (or the index it would have when being added).
+   */
+  index: number;
+
+  /**
+   * The offending gate.
+   */
+  gate: IGate;
+
+  /**
+   * The kind of problem.
+   */
+  code: ValidationCode;
+
+  /**
+   * A description of the problem, e.g. "Qubit index 7 is out of range for 3 qubit(s)."
+   */
+  message: string;
+}
+
+/**
+ * The result of validating a circuit.
+ */
+export interface ValidationReport {
+  /**
+   * Whether no problems were found.
+   */
+  valid: boolean;
+
+  /**
+   * The problems found, in gate order.
+   */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Error thrown when a gate added to a circuit is invalid.
+ * Carries the problems found and the index of the gate.
+ */
+export class CircuitValidationError extends Error {
+  /**
+   * The index the gate would have had in `circuit.gates`.
+   */
+  index: number;
+
+  /**
+   * The problems found in the gate.
+   */
+  issues: ValidationIssue[];
+
+  /**
+   * Creates an instance of the CircuitValidationError class.
+   *
+   * @param issues - The problems found in the gate; at least one.
+   */
+  constructor(issues: ValidationIssue[]) {
+    const [{ gate, index }] = issues;
+    super(
+      `Gate '${gate.name}' at index ${index} is invalid: ${issues
+        .map((issue) => issue.message)
+        .join(" ")}`
+    );
+    this.name = "CircuitValidationError";
+    this.index = index;
+    this.issues = issues;
+    Object.setPrototypeOf(this, CircuitValidationError.prototype);
+  }
+}
+
+/**
+ * Checks a gate against the wires of a circuit: its qubits must be distinct integers within `numQubits`,
+ * its classical bits and condition must refer to classical bits of the circuit, and its numeric angles must be finite.
+ *
+ * @param circuit - The circuit the gate belongs to, or is being added to.
+ * @param gate - The gate to check.
+ * @param index - (Optional) The index of the gate in `circuit.gates`. Defaults to the index of a newly added gate.
+ * @returns The problems found; empty if the gate is valid.
+ *
+ * @example
+ * ```typescript
+ * const circuit = new Circuit(3);
+ * validateGate(circuit, new HadamardGate(7));
+ * // [{ index: 0, code: "qubit", message: "Qubit index 7 is out of range for 3 qubit(s).", ... }]
+ * ```
+ */
+export function validateGate(
+  circuit: Circuit,
+  gate: IGate,
+  index = circuit.gates.length
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (code: ValidationCode, message: string) =>
+    issues.push({ index, gate, code, message });
+
+  if (gate.qubits.length === 0) {
+    report("qubit", "The gate acts on no qubits.");
+  }
+  gate.qubits.forEach((qubit, i) => {
+    const problem = wireProblem(qubit, circuit.numQubits, "Qubit", "qubit(s)");
+    if (problem) {
+      report("qubit", problem);
+    } else if (gate.qubits.indexOf(qubit) !== i) {
+      report(
+        "duplicate-qubit",
+        `Qubit ${qubit} is used more than once; a gate's qubits must be distinct.`
+      );
+    }
+  });
+
+  (gate.clbits || []).forEach((clbit) => {
+    const problem = wireProblem(
+      clbit,
+      circuit.numClbits,
+      "Classical bit",
+      "classical bit(s)"
+    );
+    if (problem) {
+      report("clbit", problem);
+    }
+  });
+
+  angles(gate).forEach(({ name, value }) => {
+    if (typeof value === "number" && !isFinite(value)) {
+      report(
+        "parameter",
+        `The angle ${
+          name ? `${name} ` : ""
+        }must be a finite number, but is ${value}.`
+      );
+    }
+  });
+
+  if (gate.condition) {
+    const { clbits, value } = gate.condition;
+    clbits.forEach((clbit) => {
+      const problem = wireProblem(
+        clbit,
+        circuit.numClbits,
+        "Condition classical bit",
+        "classical bit(s)"
+      );
+      if (problem) {
+        report("condition", problem);
+      }
+    });
+    if (
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value >= Math.pow(2, clbits.length)
+    ) {
+      report(
+        "condition",
+        `Condition value ${value} does not fit in ${clbits.length} classical bit(s).`
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks every gate of a circuit, e.g. after editing `circuit.gates` directly or changing `numQubits`.
+ *
+ * @param circuit - The circuit to check.
+ * @returns The report, listing the problems of every gate in order.
+ *
+ * @example
+ * ```typescript
+ * const report = validateCircuit(circuit);
+ * if (!report.valid) {
+ *   report.issues.forEach(({ index, message }) => console.warn(`Gate ${index}: ${message}`));
+ * }
+ * ```
+ */
+export function validateCircuit(circuit: Circuit): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  circuit.gates.forEach((gate, index) =>
+    issues.push(...validateGate(circuit, gate, index))
+  );
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Describes what is wrong with a wire index, or returns an empty string if it is a valid wire.
+ */
+function wireProblem(
+  wire: number,
+  count: number,
+  noun: string,
+  unit: string
+): string {
+  if (!Number.isInteger(wire)) {
+    return `${noun} index ${wire} is not an integer.`;
+  }
+  if (wire < 0 || wire >= count) {
+    return `${noun} index ${wire} is out of range for ${count} ${unit}.`;
+  }
+  return "";
+}
+
+/**
+ * Returns the angles of a built-in gate, including those of a controlled gate's base gate.
+ * Angles are named only for gates that have several.
+ */
+function angles(gate: IGate): { name: string; value: ParameterValue }[] {
+  if (gate instanceof ControlledGate) {
+    return angles(gate.base);
+  }
+  if (gate instanceof RotationGate || gate instanceof PhaseGate) {
+    return [{ name: "", value: gate.angle }];
+  }
+  if (gate instanceof UGate) {
+    return [
+      { name: "θ", value: gate.theta },
+      { name: "φ", value: gate.phi },
+      { name: "λ", value: gate.lambda },
+    ];
+  }
+  return [];
+}
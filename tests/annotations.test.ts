@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { Layout } from "../src/Layout";
+import { Renderer } from "../src/Renderer";
+import { circuitFromJSON } from "../src/formats/json";
+import { toQASM3 } from "../src/formats/qasm3";
+import { toQuantikz } from "../src/formats/quantikz";
+import { renderToText } from "../src/formats/text";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+/**
+ * A circuit with a marker, a note on the X gate and a note under its column.
+ */
+function staged(): Circuit {
+  return new Circuit(2)
+    .h(0)
+    .marker("t = 1")
+    .x(1)
+    .annotate("flip")
+    .cx(0, 1)
+    .annotateColumn("entangle", 2);
+}
+
+describe("barriers", () => {
+  it("keep gates on either side in separate columns", () => {
+    expect(new Layout(new Circuit(2).h(0).h(1)).numColumns).toBe(1);
+    const layout = new Layout(new Circuit(2).h(0).barrier([0, 1]).h(1));
+    expect(layout.placements.map((placement) => placement.column)).toEqual([
+      0, 1, 2,
+    ]);
+  });
+
+  it("are drawn as a dashed line across their qubits, with the title of a marker", () => {
+    new Renderer(staged(), canvas).draw();
+    const [top, bottom] = canvas.find('line[stroke-dasharray="6,4"]');
+    expect(top.attr("x1")).toBe(bottom.attr("x1"));
+    expect(top.attr("y2")).toBe(bottom.attr("y1"));
+    expect(canvas.node.textContent).toContain("t = 1");
+  });
+});
+
+describe("annotations", () => {
+  it("are placed above their gate or below the diagram under its column", () => {
+    const layout = new Layout(staged());
+    const [gate, column] = layout.annotations;
+    const x = layout.placements[2];
+    expect(gate.column).toBe(x.column);
+    expect(gate.x).toBe(x.x);
+    expect(column.x).toBe(x.x);
+    expect(gate.y).toBeLessThan(column.y);
+  });
+
+  it("follow their gate when gates move and go away with it", () => {
+    const circuit = staged();
+    circuit.moveGate(2, 0);
+    expect(circuit.annotations.map((annotation) => annotation.gate)).toEqual([
+      0, 0,
+    ]);
+    circuit.removeGate(0);
+    expect(circuit.annotations).toEqual([]);
+  });
+
+  it("need an existing gate or a column with gates", () => {
+    expect(() => new Circuit(1).annotate("note")).toThrow(
+      "Cannot annotate gate -1: there is no such gate."
+    );
+    expect(() => new Circuit(1).h(0).annotateColumn("note", 3)).toThrow(
+      "Cannot annotate column 3: it has no gates."
+    );
+  });
+});
+
+describe("exports", () => {
+  it("write markers and annotations in every format", () => {
+    const circuit = staged();
+    const text = renderToText(circuit);
+    expect(text).toContain("t = 1");
+    expect(text).toContain("░");
+    expect(text).toContain("flip");
+    expect(text).toContain("entangle");
+
+    const latex = toQuantikz(circuit);
+    expect(latex).toContain("\\slice{t = 1}");
+    expect(latex).toContain("\\mbox{flip}");
+    expect(latex).toContain("\\mbox{entangle}");
+
+    expect(toQASM3(circuit)).toContain(
+      ["// t = 1", "barrier q[0], q[1];", "// flip", "// entangle"].join("\n")
+    );
+
+    const restored = circuitFromJSON(JSON.stringify(circuit.toJSON()));
+    expect(restored.annotations).toEqual(circuit.annotations);
+    expect(restored.gates[1]).toMatchObject({ title: "t = 1" });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+
+function gates(circuit: Circuit): string[] {
+  return circuit.gates.map((gate) => `${gate.name} ${gate.qubits.join(",")}`);
+}
+
+describe("Circuit builder", () => {
+  it("chains gate methods on the same circuit", () => {
+    const circuit = new Circuit(2);
+    expect(
+      circuit
+        .h(0)
+        .cx(0, 1)
+        .rx(1, Math.PI / 2)
+    ).toBe(circuit);
+    expect(gates(circuit)).toEqual(["H 0", "CNOT 0,1", "RX(π/2) 1"]);
+  });
+});
+
+describe("Circuit composition", () => {
+  const bell = () => new Circuit(2).h(0).cx(0, 1);
+
+  it("appends a circuit through a qubit mapping", () => {
+    const result = new Circuit(3).x(1).append(bell(), [2, 0]);
+    expect(gates(result)).toEqual(["X 1", "H 2", "CNOT 2,0"]);
+  });
+
+  it("rejects mappings of the wrong length or with repeated qubits", () => {
+    expect(() => new Circuit(3).append(bell(), [0])).toThrow(
+      "Expected a qubit for each of the 2 qubit(s) of the appended circuit, but got 1."
+    );
+    expect(() => new Circuit(3).append(bell(), [1, 1])).toThrow(
+      "Cannot map two qubits to qubit 1."
+    );
+  });
+
+  it("repeats a circuit", () => {
+    expect(gates(bell().repeat(2))).toEqual([
+      "H 0",
+      "CNOT 0,1",
+      "H 0",
+      "CNOT 0,1",
+    ]);
+    expect(() => bell().repeat(-1)).toThrow(
+      "The number of repetitions must be a non-negative integer."
+    );
+  });
+
+  it("inverts a circuit in reverse order, with inverted groups", () => {
+    const circuit = new Circuit(2).group("A", (c) => c.s(0).t(1)).rx(0, 0.5);
+    const inverse = circuit.inverse();
+    expect(gates(inverse)).toEqual(["RX(-0.5) 0", "T† 1", "S† 0"]);
+    expect(inverse.groups).toEqual([
+      expect.objectContaining({ name: "A†", start: 1, end: 3 }),
+    ]);
+    expect(inverse.inverse().groups[0].name).toBe("A");
+  });
+
+  it("puts two circuits side by side", () => {
+    const result = bell().tensor(new Circuit(1, 1).x(0).measure(0, 0));
+    expect(result.numQubits).toBe(3);
+    expect(result.numClbits).toBe(1);
+    expect(gates(result)).toEqual(["H 0", "CNOT 0,1", "X 2", "Measure 2"]);
+    expect(result.gates[3].clbits).toEqual([0]);
+  });
+
+  it("slices a range of columns", () => {
+    const circuit = new Circuit(2).h(0).h(1).cx(0, 1).x(1);
+    expect(gates(circuit.slice(1, 2))).toEqual(["CNOT 0,1"]);
+    expect(gates(circuit.slice(2))).toEqual(["X 1"]);
+    expect(() => circuit.slice(2, 1)).toThrow(
+      "A column range must be a pair of integers with 0 ≤ start ≤ end."
+    );
+  });
+
+  it("returns new circuits and leaves the original unchanged", () => {
+    const original = bell();
+    const results = [
+      original.append(bell()),
+      original.repeat(1),
+      original.inverse(),
+      original.tensor(bell()),
+      original.slice(0),
+      original.copy(),
+    ];
+    results.forEach((result) => {
+      expect(result).not.toBe(original);
+      result.x(0);
+    });
+    expect(gates(original)).toEqual(["H 0", "CNOT 0,1"]);
+    expect(original.copy().gates[0]).not.toBe(original.gates[0]);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { main } from "../src/cli";
+
+let directory: string;
+let output: string;
+let errors: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "quantum-circuit-drawer-"));
+  writeFileSync(
+    join(directory, "circuit.qasm"),
+    'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[1];\nrx(pi/2) q[0];\n'
+  );
+  output = "";
+  errors = "";
+  vi.spyOn(process.stdout, "write").mockImplementation((chunk) => {
+    output += String(chunk);
+    return true;
+  });
+  vi.spyOn(process.stderr, "write").mockImplementation((chunk) => {
+    errors += String(chunk);
+    return true;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("main", () => {
+  it("writes LaTeX angles with the angle styles", async () => {
+    const style = join(directory, "style.json");
+    writeFileSync(style, JSON.stringify({ angleUnit: "degrees" }));
+    const code = await main([
+      join(directory, "circuit.qasm"),
+      "-f",
+      "latex",
+      "-s",
+      style,
+    ]);
+    expect(code).toBe(0);
+    expect(output).toContain("\\gate{R_x(90^{\\circ})}");
+  });
+
+  it("rejects an unknown theme as a usage error", async () => {
+    const code = await main([join(directory, "circuit.qasm"), "-t", "neon"]);
+    expect(code).toBe(2);
+    expect(errors).toContain(
+      "The option -t must be one of light, dark, high-contrast, print, textbook, but is 'neon'."
+    );
+  });
+
+  it("reports the style and value that are not among its choices", async () => {
+    const style = join(directory, "style.json");
+    writeFileSync(style, JSON.stringify({ qubitLabels: "index" }));
+    const code = await main([join(directory, "circuit.qasm"), "-s", style]);
+    expect(code).toBe(1);
+    expect(errors).toContain(
+      "qubitLabels: Expected 'name', 'state', 'both' or 'none', not 'index'."
+    );
+  });
+});
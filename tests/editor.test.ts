@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { CircuitEditor } from "../src/Editor";
+import { HadamardGate } from "../src/gates/HadamardGate";
+import { Renderer } from "../src/Renderer";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+/**
+ * Creates an editor for a circuit.
+ */
+function edit(circuit: Circuit): CircuitEditor {
+  return new CircuitEditor(new Renderer(circuit, canvas));
+}
+
+/**
+ * Returns the names of the gates of a circuit.
+ */
+function names(circuit: Circuit): string[] {
+  return circuit.gates.map((gate) => gate.name);
+}
+
+describe("CircuitEditor", () => {
+  it("moves a gate to a later column", () => {
+    const circuit = new Circuit(1).h(0).x(0).z(0);
+    const editor = edit(circuit);
+    const moves: number[][] = [];
+    editor.on("move", ({ index, from }) => moves.push([from, index]));
+
+    expect(editor.moveGate(0, 2)).toBe(2);
+    expect(names(circuit)).toEqual(["X", "Z", "H"]);
+    expect(moves).toEqual([[0, 2]]);
+  });
+
+  it("leaves the circuit alone when a gate stays in its column", () => {
+    const circuit = new Circuit(1).h(0).x(0).z(0);
+    const editor = edit(circuit);
+    const gates = circuit.gates.slice();
+
+    expect(editor.moveGate(1, 1)).toBe(1);
+    expect(circuit.gates).toEqual(gates);
+    expect(editor.canUndo()).toBe(false);
+  });
+
+  it("undoes and redoes edits in order", () => {
+    const circuit = new Circuit(2).x(0);
+    const editor = edit(circuit);
+    editor.addGate(new HadamardGate(1), 0);
+    editor.removeGate(1);
+    expect(names(circuit)).toEqual(["H"]);
+
+    expect(editor.undo()).toBe(true);
+    expect(names(circuit)).toEqual(["H", "X"]);
+    expect(editor.undo()).toBe(true);
+    expect(names(circuit)).toEqual(["X"]);
+    expect(editor.undo()).toBe(false);
+
+    expect(editor.redo()).toBe(true);
+    expect(names(circuit)).toEqual(["H", "X"]);
+    expect(editor.redo()).toBe(true);
+    expect(names(circuit)).toEqual(["H"]);
+    expect(editor.canRedo()).toBe(false);
+  });
+
+  it("forgets undone edits after a new edit", () => {
+    const circuit = new Circuit(1);
+    const editor = edit(circuit);
+    editor.addGate(new HadamardGate(0));
+    editor.undo();
+    editor.addGate(new HadamardGate(0));
+    expect(editor.canRedo()).toBe(false);
+  });
+
+  it("toggles the group of a clicked element, and ignores elements of removed groups", () => {
+    const circuit = new Circuit(2).h(0).group("Bell", (c) => c.h(0).cx(0, 1));
+    const editor = edit(circuit);
+    const toggles: number[] = [];
+    editor.on("toggle", ({ index }) => toggles.push(index));
+
+    editor.renderer.groupElements[0].fire("click");
+    expect(circuit.groups[0].collapsed).toBe(true);
+    const stale = editor.renderer.groupElements[0];
+    circuit.groups = [];
+    circuit.notifyChange("groups");
+    expect(() => stale.fire("click")).not.toThrow();
+    expect(toggles).toEqual([0]);
+  });
+});
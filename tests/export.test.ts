@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import { renderToPDF } from "../src/formats/pdf";
+import { renderToPNG } from "../src/formats/png";
+import { loadPackage } from "../src/formats/packages";
+
+/**
+ * A small circuit with text in gates, labels and a measurement.
+ */
+function bell(): Circuit {
+  return new Circuit(2, 2)
+    .h(0)
+    .cx(0, 1)
+    .rz(1, Math.PI / 4)
+    .measure(0, 0);
+}
+
+describe("renderToPDF", () => {
+  it("gives the same bytes for the same circuit", async () => {
+    const first = await renderToPDF(bell(), undefined, { title: "Bell" });
+    const second = await renderToPDF(bell(), undefined, { title: "Bell" });
+    expect(first.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(Buffer.compare(first, second)).toBe(0);
+  });
+
+  it("stores the creation date it is given", async () => {
+    const pdf = await renderToPDF(bell(), undefined, {
+      creationDate: new Date(Date.UTC(2024, 5, 1)),
+    });
+    expect(pdf.toString("latin1")).toContain("(D:20240601000000Z)");
+  });
+});
+
+describe("renderToPNG", () => {
+  it("gives the same bytes for the same circuit", async () => {
+    const first = await renderToPNG(bell(), undefined, { scale: 2 });
+    const second = await renderToPNG(bell(), undefined, { scale: 2 });
+    expect(first.subarray(1, 4).toString()).toBe("PNG");
+    expect(Buffer.compare(first, second)).toBe(0);
+  });
+
+  it("rejects a scale that is not positive", async () => {
+    await expect(renderToPNG(bell(), undefined, { scale: 0 })).rejects.toThrow(
+      "The scale must be a positive number, but is 0."
+    );
+  });
+});
+
+describe("loadPackage", () => {
+  it("names the install command of a missing package", async () => {
+    const missing = Object.assign(new Error("Cannot find package 'svgdom'"), {
+      code: "ERR_MODULE_NOT_FOUND",
+    });
+    await expect(
+      loadPackage("svgdom", () => Promise.reject(missing))
+    ).rejects.toThrow("install it with `npm install svgdom`");
+  });
+
+  it("rethrows other errors", async () => {
+    const failure = new Error("broken");
+    await expect(
+      loadPackage("svgdom", () => Promise.reject(failure))
+    ).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { Layout } from "../src/Layout";
+import { Renderer } from "../src/Renderer";
+import { ControlledGate } from "../src/gates/ControlledGate";
+import { MultiQubitGate } from "../src/gates/MultiQubitGate";
+import { PauliXGate } from "../src/gates/PauliXGate";
+import { PauliZGate } from "../src/gates/PauliZGate";
+import { RotationGate } from "../src/gates/RotationGate";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+describe("ControlledGate", () => {
+  it("puts its controls before the qubits of its base gate", () => {
+    const toffoli = new ControlledGate(new PauliXGate(2), [0, 1]);
+    expect(toffoli.name).toBe("CCX");
+    expect(toffoli.qubits).toEqual([0, 1, 2]);
+
+    const crz = new ControlledGate(new RotationGate("Z", 0, Math.PI / 2), [2]);
+    expect(crz.qubits).toEqual([2, 0]);
+    expect(crz.label({ unit: "degrees" })).toBe("CRZ(90°)");
+  });
+
+  it("rejects missing, repeated and misplaced controls", () => {
+    expect(() => new ControlledGate(new PauliXGate(1), [])).toThrow(
+      "at least one control"
+    );
+    expect(() => new ControlledGate(new PauliXGate(1), [1])).toThrow(
+      "Control qubit and target qubit must be different."
+    );
+    expect(() => new ControlledGate(new PauliXGate(2), [0, 0])).toThrow(
+      "Control qubits must be different."
+    );
+    expect(() => new ControlledGate(new PauliXGate(2), [0], [1])).toThrow(
+      "Open controls must be among the control qubits."
+    );
+  });
+
+  it("applies its base gate when closed controls are |1⟩ and open controls |0⟩", () => {
+    const gate = new ControlledGate(new PauliXGate(2), [0, 1], [1]);
+    const flipped = new Circuit(3).x(0).addGate(gate).simulate();
+    expect(flipped.state.probabilities([2])[1]).toBeCloseTo(1);
+    const kept = new Circuit(3).x(0).x(1).addGate(gate).simulate();
+    expect(kept.state.probabilities([2])[1]).toBeCloseTo(0);
+  });
+
+  it("keeps other gates off the wires it crosses", () => {
+    const circuit = new Circuit(3)
+      .addGate(new ControlledGate(new PauliZGate(0), [2]))
+      .x(1);
+    expect(new Layout(circuit).columnOf(1)).toBe(1);
+  });
+
+  it("draws closed controls as dots and open controls as hollow circles", () => {
+    const circuit = new Circuit(3).addGate(
+      new ControlledGate(new PauliXGate(1), [0, 2], [2])
+    );
+    const renderer = new Renderer(circuit, canvas, {
+      controlColor: "#123456",
+      gateFill: "#abcdef",
+    });
+    renderer.draw();
+    const element = renderer.elements[0];
+    const fills = element.find("circle").map((circle) => circle.attr("fill"));
+    expect(fills.filter((fill) => fill === "#123456")).toHaveLength(1);
+    expect(fills.filter((fill) => fill === "#abcdef")).toHaveLength(1);
+
+    // The connector runs from the top control to the bottom one, across the target.
+    const layout = new Layout(circuit);
+    const [connector] = element.find("line");
+    expect(connector.attr("y1")).toBe(layout.qubitY(0));
+    expect(connector.attr("y2")).toBe(layout.qubitY(2));
+  });
+});
+
+describe("SwapGate and ISwapGate", () => {
+  it("exchange the states of their qubits", () => {
+    const { state } = new Circuit(2).x(0).swap(0, 1).simulate();
+    expect(state.probabilities([0, 1])[2]).toBeCloseTo(1);
+    expect(() => new Circuit(2).swap(1, 1)).toThrow(
+      "Swapped qubits must be different."
+    );
+  });
+
+  it("are drawn as two crosses joined by a line, with an i for iSWAP", () => {
+    const circuit = new Circuit(3).swap(0, 2).iswap(2, 0);
+    const renderer = new Renderer(circuit, canvas);
+    renderer.draw();
+    const [swap, iswap] = renderer.elements;
+    expect(swap.find("line")).toHaveLength(5);
+    expect(swap.find("text")).toHaveLength(0);
+    expect(iswap.find("text").map((text) => text.node.textContent)).toEqual([
+      "i",
+    ]);
+  });
+});
+
+describe("MultiQubitGate", () => {
+  it("labels its inputs by position unless given labels", () => {
+    expect(new MultiQubitGate("QFT", [2, 3, 4]).inputLabels).toEqual([
+      "0",
+      "1",
+      "2",
+    ]);
+    expect(() => new MultiQubitGate("Oracle", [0, 1], ["x"])).toThrow(
+      "Expected 2 input labels but got 1."
+    );
+  });
+
+  it("draws a box per contiguous run of qubits, joined across the gaps", () => {
+    const circuit = new Circuit(4).block("Oracle", [0, 1, 3], ["x", "y", "z"]);
+    const renderer = new Renderer(circuit, canvas);
+    renderer.draw();
+    const [element] = renderer.elements;
+    expect(element.find("rect")).toHaveLength(2);
+    expect(element.find("line")).toHaveLength(1);
+    expect(element.find("text").map((text) => text.node.textContent)).toEqual([
+      "Oracle",
+      "x",
+      "y",
+      "z",
+    ]);
+  });
+
+  it("keeps other gates out of its span, including the wires in its gaps", () => {
+    const circuit = new Circuit(3).block("U", [0, 2]).h(1);
+    expect(new Layout(circuit).columnOf(1)).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import {
+  CIRCUIT_JSON_VERSION,
+  circuitFromJSON,
+  circuitToJSON,
+  CircuitJSONError,
+  stylesFromJSON,
+} from "../src/formats/json";
+import { Parameter } from "../src/Parameter";
+
+/**
+ * Loads a document and returns the error it throws.
+ */
+function loadError(json: object): CircuitJSONError {
+  try {
+    circuitFromJSON(json);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CircuitJSONError);
+    return error as CircuitJSONError;
+  }
+  throw new Error("Expected the document to be rejected.");
+}
+
+describe("circuitFromJSON", () => {
+  it("loads documents written by hand", () => {
+    const circuit = circuitFromJSON({
+      version: 1,
+      numQubits: 2,
+      numClbits: 1,
+      quantumRegisters: [],
+      classicalRegisters: [],
+      gates: [
+        { kind: "h", qubits: [0] },
+        { kind: "cnot", qubits: [0, 1] },
+        { kind: "rotation", axis: "Z", qubits: [1], params: [0.5] },
+        { kind: "measure", qubits: [1], clbits: [0] },
+      ],
+      groups: [],
+      annotations: [],
+      qubitNames: { "1": "anc" },
+      initialStates: {},
+      outputLabels: {},
+      metadata: { author: "test" },
+    });
+    expect(circuit.gates.map((gate) => gate.name)).toEqual([
+      "H",
+      "CNOT",
+      "RZ(0.5)",
+      "Measure",
+    ]);
+    expect(circuit.qubitNames[1]).toBe("anc");
+    expect(circuitToJSON(circuit).metadata).toEqual({ author: "test" });
+  });
+
+  it("writes the current version", () => {
+    expect(CIRCUIT_JSON_VERSION).toBe(1);
+    expect(circuitToJSON(new Circuit(1)).version).toBe(1);
+  });
+
+  it("round-trips every kind of gate exactly", () => {
+    const theta = new Parameter("theta");
+    const circuit = new Circuit(3, 2)
+      .h(0)
+      .sdg(1)
+      .tdg(2)
+      .sx(0)
+      .sxdg(1)
+      .rx(0, Math.PI / 3)
+      .rz(1, theta)
+      .u(2, 0.1, 0.2, 0.3)
+      .cp(0, 1, Math.PI / 7)
+      .ccx(0, 1, 2)
+      .iswap(0, 2)
+      .measure(0, 0)
+      .reset(1)
+      .group("Tail", 10, 13);
+    circuit.qubitNames[0] = "anc";
+    circuit.gates[0].style = { gateFill: "#fdd" };
+
+    const json = JSON.parse(JSON.stringify(circuitToJSON(circuit)));
+    const loaded = circuitFromJSON(json);
+    expect(circuitToJSON(loaded)).toEqual(json);
+    expect(loaded.gates.map((gate) => gate.name)).toEqual(
+      circuit.gates.map((gate) => gate.name)
+    );
+  });
+
+  it("rejects documents from newer and unknown versions", () => {
+    const error = loadError({ version: CIRCUIT_JSON_VERSION + 1 });
+    expect(error.message).toContain("newer than the supported version");
+    expect(loadError({ version: 0 }).path).toBe("version");
+  });
+
+  it("points at invalid gate styles", () => {
+    const document = circuitToJSON(new Circuit(1).h(0));
+    document.gates[0].style = { gateFil: "#fdd" };
+    expect(loadError(document).path).toBe("gates[0].style.gateFil");
+
+    document.gates[0].style = { fontSize: "12" };
+    expect(loadError(document).message).toBe(
+      "gates[0].style.fontSize: Expected a number."
+    );
+  });
+});
+
+describe("stylesFromJSON", () => {
+  it("accepts styles and the styles of gate kinds", () => {
+    const styles = { fontSize: 16, gateStyles: { h: { gateFill: "#fdd" } } };
+    expect(stylesFromJSON(styles)).toEqual(styles);
+  });
+
+  it("rejects unknown styles and values of the wrong type", () => {
+    expect(() => stylesFromJSON({ fontSize: "16" })).toThrow(
+      "fontSize: Expected a number."
+    );
+    expect(() =>
+      stylesFromJSON({ gateStyles: { h: { gateFil: "#fdd" } } })
+    ).toThrow("gateStyles.h.gateFil: Unknown style 'gateFil'.");
+    expect(() => stylesFromJSON([])).toThrow(CircuitJSONError);
+  });
+
+  it("rejects values outside the choices of a style", () => {
+    expect(() => stylesFromJSON({ angleUnit: "turns" })).toThrow(
+      "angleUnit: Expected 'pi', 'degrees' or 'radians', not 'turns'."
+    );
+    expect(() =>
+      stylesFromJSON({ gateStyles: { h: { qubitLabels: "index" } } })
+    ).toThrow(
+      "gateStyles.h.qubitLabels: Expected 'name', 'state', 'both' or 'none', not 'index'."
+    );
+    expect(stylesFromJSON({ groupDisplay: "collapsed" })).toEqual({
+      groupDisplay: "collapsed",
+    });
+  });
+});
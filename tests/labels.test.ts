@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { Layout } from "../src/Layout";
+import { Renderer } from "../src/Renderer";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+/**
+ * A circuit with a "data" register of one qubit, an "ancilla" register of two and a classical bit,
+ * with a custom name, an initial state and an output label.
+ */
+function labelled(): Circuit {
+  const circuit = new Circuit(3, 1);
+  circuit.addQuantumRegister("data", 1);
+  circuit.addQuantumRegister("ancilla", 2);
+  return circuit
+    .nameQubit(0, "in")
+    .setInitialState(1, "+")
+    .setOutputLabel(2, "out")
+    .h(0)
+    .measure(1, 0);
+}
+
+describe("wire labels", () => {
+  it("show names, initial states or both", () => {
+    const texts = (qubitLabels: "name" | "state" | "both" | "none") =>
+      new Layout(labelled(), { qubitLabels }).labels.map((label) => label.text);
+    expect(texts("name")).toEqual(["in", "ancilla₀", "ancilla₁", "c₀"]);
+    expect(texts("state")).toEqual(["|0⟩", "|+⟩", "|0⟩", "c₀"]);
+    expect(texts("both")).toEqual([
+      "in |0⟩",
+      "ancilla₀ |+⟩",
+      "ancilla₁ |0⟩",
+      "c₀",
+    ]);
+    expect(texts("none")).toEqual([]);
+  });
+
+  it("start the wires after the widest label", () => {
+    const short = new Layout(labelled(), { qubitLabels: "state" });
+    const long = new Layout(labelled(), { qubitLabels: "both" });
+    expect(long.wireStart).toBeGreaterThan(short.wireStart);
+    long.labels.forEach((label) =>
+      expect(label.x).toBeLessThan(long.wireStart)
+    );
+    expect(long.placements[0].x).toBeGreaterThan(long.wireStart);
+  });
+
+  it("put output labels after the qubit wires", () => {
+    const layout = new Layout(labelled());
+    expect(layout.outputLabels).toEqual([
+      expect.objectContaining({ row: 2, text: "out", y: layout.qubitY(2) }),
+    ]);
+    expect(layout.outputLabels[0].x).toBeGreaterThan(layout.wireEnd);
+    expect(layout.width).toBeGreaterThan(layout.outputLabels[0].x);
+  });
+
+  it("reject qubits outside the circuit", () => {
+    expect(() => new Circuit(3).nameQubit(5, "x")).toThrow(
+      "Qubit index 5 is out of range for 3 qubit(s)."
+    );
+  });
+});
+
+describe("registers", () => {
+  it("are marked by brackets spanning their qubits", () => {
+    const layout = new Layout(labelled());
+    const [data, ancilla] = layout.brackets;
+    expect(data.register.name).toBe("data");
+    expect(ancilla.register.name).toBe("ancilla");
+    expect(data.top).toBeLessThan(layout.qubitY(0));
+    expect(data.bottom).toBeGreaterThan(layout.qubitY(0));
+    expect(ancilla.top).toBeLessThan(layout.qubitY(1));
+    expect(ancilla.bottom).toBeGreaterThan(layout.qubitY(2));
+    expect(data.bottom).toBeLessThan(ancilla.top);
+    expect(
+      new Layout(labelled(), { registerBrackets: false }).brackets
+    ).toEqual([]);
+  });
+
+  it("must have unique names and fit in the circuit", () => {
+    const circuit = labelled();
+    expect(() => circuit.addQuantumRegister("data", 1)).toThrow(
+      "Register 'data' is already declared."
+    );
+    expect(() => circuit.addQuantumRegister("z", 1)).toThrow(
+      "Register 'z' needs 1 qubits but only 0 are unassigned."
+    );
+  });
+
+  it("are drawn with the wire and output labels", () => {
+    new Renderer(labelled(), canvas).draw();
+    const text = canvas.node.textContent;
+    ["data", "ancilla", "in", "ancilla₁", "c₀", "out"].forEach((label) =>
+      expect(text).toContain(label)
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import { Parameter } from "../src/Parameter";
+import { formatAngle, formatParameter } from "../src/angles";
+
+describe("Parameter", () => {
+  it("rejects names that are not identifiers", () => {
+    expect(() => new Parameter("1a")).toThrow("Invalid parameter name '1a'.");
+    expect(new Parameter("θ₁").name).toBe("θ₁");
+  });
+
+  it("builds expressions that format with multiples of π", () => {
+    const theta = new Parameter("θ");
+    const phi = new Parameter("φ");
+    expect(formatParameter(theta.times(2).plus(Math.PI / 2))).toBe("2·θ + π/2");
+    expect(formatParameter(theta.minus(phi).dividedBy(2))).toBe("(θ - φ)/2");
+    expect(formatParameter(theta.negate())).toBe("-θ");
+  });
+
+  it("evaluates expressions once every parameter has a value", () => {
+    const expression = new Parameter("θ").times(2).plus(Math.PI / 2);
+    expect(expression.evaluate({ θ: 1 })).toBeCloseTo(2 + Math.PI / 2);
+    expect(() => expression.evaluate()).toThrow(
+      "Parameter(s) θ have no value."
+    );
+  });
+});
+
+describe("formatAngle", () => {
+  it("shows angles as multiples of π, in degrees or in radians", () => {
+    expect(formatAngle(Math.PI / 4)).toBe("π/4");
+    expect(formatAngle((-3 * Math.PI) / 2)).toBe("-3π/2");
+    expect(formatAngle(Math.PI / 4, { unit: "degrees" })).toBe("45°");
+    expect(formatAngle(Math.PI / 4, { unit: "radians", precision: 3 })).toBe(
+      "0.785"
+    );
+    expect(formatAngle(0.3)).toBe("0.3");
+  });
+});
+
+describe("Circuit parameters", () => {
+  const theta = new Parameter("θ");
+  const circuit = () =>
+    new Circuit(2).ry(0, theta).rz(1, theta.times(2).plus(Math.PI / 2));
+
+  it("lists the parameters and shows them in gate labels", () => {
+    expect(circuit().parameters()).toEqual(["θ"]);
+    expect(circuit().gates.map((gate) => gate.name)).toEqual([
+      "RY(θ)",
+      "RZ(2·θ + π/2)",
+    ]);
+  });
+
+  it("binds values into a new circuit", () => {
+    const original = circuit();
+    const bound = original.bind({ θ: Math.PI / 4 });
+    expect(bound.gates.map((gate) => gate.name)).toEqual(["RY(π/4)", "RZ(π)"]);
+    expect(bound.parameters()).toEqual([]);
+    expect(original.parameters()).toEqual(["θ"]);
+  });
+
+  it("rejects unknown names and values that are not finite", () => {
+    expect(() => circuit().bind({ x: 1 })).toThrow(
+      "The circuit has no parameter named 'x'."
+    );
+    expect(() => circuit().bind({ θ: NaN })).toThrow(
+      "The value of parameter 'θ' must be a finite number."
+    );
+  });
+
+  it("refuses to simulate a circuit with unbound parameters", () => {
+    expect(() => circuit().simulate()).toThrow("unbound parameter(s) θ");
+  });
+});
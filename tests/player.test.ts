@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { CircuitPlayer, PlayerEventMap } from "../src/Player";
+import { Renderer } from "../src/Renderer";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  // svgdom has no animation frames; svg.js animations run on timers instead.
+  Object.assign(window, {
+    requestAnimationFrame: (callback: (time: number) => void) =>
+      setTimeout(() => callback(Date.now()), 1),
+    cancelAnimationFrame: (handle: number) => clearTimeout(handle),
+    performance: { now: () => Date.now() },
+  });
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+/**
+ * Creates a player for a circuit of three columns, with instant steps.
+ */
+function player(): CircuitPlayer {
+  const circuit = new Circuit(2, 1).h(0).cx(0, 1).measure(1, 0);
+  const renderer = new Renderer(circuit, canvas);
+  renderer.draw();
+  return new CircuitPlayer(renderer, { stepDuration: 0 });
+}
+
+/**
+ * Resolves with the payload of the next event of a type.
+ */
+function next<K extends keyof PlayerEventMap>(
+  target: CircuitPlayer,
+  type: K
+): Promise<PlayerEventMap[K]> {
+  return new Promise((resolve) => {
+    const listener = (payload: PlayerEventMap[K]) => {
+      target.off(type, listener);
+      resolve(payload);
+    };
+    target.on(type, listener);
+  });
+}
+
+describe("CircuitPlayer", () => {
+  it("has a step per column and starts before the first one", () => {
+    const p = player();
+    expect(p.stepCount()).toBe(3);
+    expect(p.currentStep()).toBe(-1);
+  });
+
+  it("seeks to a step and reports the gates of its column", () => {
+    const p = player();
+    const steps: PlayerEventMap["step"][] = [];
+    p.on("step", (event) => steps.push(event));
+    p.seek(1);
+    expect(p.currentStep()).toBe(1);
+    expect(steps.map(({ step, gates }) => [step, gates])).toEqual([[1, [1]]]);
+    expect(() => p.seek(3)).toThrow(
+      "Cannot seek to step 3: the steps go from -1 to 2."
+    );
+  });
+
+  it("steps forward and back one column at a time", async () => {
+    const p = player();
+    const forward = next(p, "step");
+    expect(p.stepForward()).toBe(true);
+    expect((await forward).step).toBe(0);
+
+    const back = next(p, "step");
+    expect(p.stepBack()).toBe(true);
+    expect((await back).step).toBe(-1);
+    expect(p.stepBack()).toBe(false);
+  });
+
+  it("plays every column, then ends", async () => {
+    const p = player();
+    const steps: number[] = [];
+    p.on("step", ({ step }) => steps.push(step));
+    const end = next(p, "end");
+    p.play();
+    expect(p.isPlaying()).toBe(true);
+    expect((await end).step).toBe(2);
+    expect(steps).toEqual([0, 1, 2]);
+    expect(p.isPlaying()).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { parseQASM2, QASMParseError } from "../src/formats/qasm2";
+import { SXGate } from "../src/gates/SXGate";
+import { simulate } from "../src/Simulator";
+
+/**
+ * Wraps statements in the header and a two-qubit register.
+ */
+function program(...statements: string[]): string {
+  return [
+    "OPENQASM 2.0;",
+    'include "qelib1.inc";',
+    "qreg q[2];",
+    "creg c[2];",
+    ...statements,
+  ].join("\n");
+}
+
+/**
+ * Parses a program and returns the parse error it throws.
+ */
+function parseError(source: string): QASMParseError {
+  try {
+    parseQASM2(source);
+  } catch (error) {
+    expect(error).toBeInstanceOf(QASMParseError);
+    return error as QASMParseError;
+  }
+  throw new Error("Expected the program to be rejected.");
+}
+
+describe("parseQASM2", () => {
+  it("maps registers onto wires and parses gates", () => {
+    const circuit = parseQASM2(
+      program("h q[0];", "cx q[0], q[1];", "measure q -> c;")
+    );
+    expect(circuit.numQubits).toBe(2);
+    expect(circuit.numClbits).toBe(2);
+    expect(circuit.gates.map((gate) => gate.name)).toEqual([
+      "H",
+      "CNOT",
+      "Measure",
+      "Measure",
+    ]);
+  });
+
+  it("reports an invalid gate at its own statement", () => {
+    const error = parseError(program("h q[0];", "rx(pi/0) q[0];"));
+    expect(error.line).toBe(6);
+    expect(error.column).toBe(1);
+    expect(error.message).toContain("must be a finite number");
+  });
+
+  it("reports an invalid conditional gate at its if statement", () => {
+    const error = parseError(program("  if (c == 1) rz(1/0) q[1];"));
+    expect(error.line).toBe(5);
+    expect(error.column).toBe(3);
+  });
+
+  it("reports unknown gates with their position", () => {
+    const error = parseError(program("foo q[0];"));
+    expect(error.line).toBe(5);
+    expect(error.column).toBe(1);
+    expect(error.message).toMatch(/^Line 5, column 1: /);
+  });
+
+  it("reports out-of-range register indices", () => {
+    const error = parseError(program("x q[2];"));
+    expect(error.line).toBe(5);
+  });
+
+  it("parses sx and sxdg", () => {
+    const circuit = parseQASM2(program("sx q[0];", "sxdg q[1];"));
+    expect(circuit.gates[0]).toBeInstanceOf(SXGate);
+    expect(circuit.gates.map((gate) => gate.name)).toEqual(["√X", "√X†"]);
+  });
+
+  it("applies √X as a square root of X", () => {
+    const circuit = parseQASM2(
+      program("sx q[0];", "sx q[0];", "sx q[1];", "sxdg q[1];")
+    );
+    const probabilities = simulate(circuit).state.probabilities();
+    expect(probabilities[1]).toBeCloseTo(1);
+  });
+
+  it("skips comments and reports unexpected characters at their position", () => {
+    const circuit = parseQASM2(program("// a comment", "h q[0]; // another"));
+    expect(circuit.gates).toHaveLength(1);
+
+    const error = parseError(program("h q[0];", "  x q[1] $;"));
+    expect([error.line, error.column]).toEqual([6, 10]);
+    expect(error.message).toContain("Unexpected character '$'.");
+  });
+
+  it("validates gates against the registers declared so far", () => {
+    const source = [
+      "OPENQASM 2.0;",
+      "qreg a[1];",
+      "qreg b[2];",
+      "cx a[0], b[1];",
+    ].join("\n");
+    expect(parseQASM2(source).numQubits).toBe(3);
+  });
+
+  it("parses long programs in linear time", () => {
+    const statements: string[] = [];
+    for (let i = 0; i < 20000; i++) {
+      statements.push(`rz(${i} * pi / 1000) q[${i % 2}];`);
+    }
+    const start = Date.now();
+    const circuit = parseQASM2(program(...statements));
+    expect(circuit.gates).toHaveLength(20000);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
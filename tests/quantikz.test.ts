@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import { Parameter } from "../src/Parameter";
+import { ControlledGate } from "../src/gates/ControlledGate";
+import { PauliXGate } from "../src/gates/PauliXGate";
+import { toQuantikz } from "../src/formats/quantikz";
+
+describe("toQuantikz", () => {
+  it("writes one row per wire and one cell per column", () => {
+    expect(toQuantikz(new Circuit(2).h(0).cx(0, 1))).toBe(
+      [
+        "\\begin{quantikz}",
+        "\\lstick{$q_{0}$} & \\gate{H} & \\ctrl{1} & \\qw \\\\",
+        "\\lstick{$q_{1}$} & \\qw & \\targ{} & \\qw",
+        "\\end{quantikz}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("shares columns as the diagram does and joins measurements to their classical wire", () => {
+    const latex = toQuantikz(new Circuit(2, 1).h(0).x(1).measure(0, 0));
+    expect(latex).toContain(
+      "\\lstick{$q_{0}$} & \\gate{H} & \\meter{} \\vcw{2} & \\qw \\\\"
+    );
+    expect(latex).toContain("\\lstick{$q_{1}$} & \\gate{X} & \\qw & \\qw \\\\");
+    expect(latex).toContain("\\lstick{$c_{0}$} & \\cw & \\cw & \\cw");
+  });
+
+  it("writes angles and parameters as math, open controls and swaps with their commands", () => {
+    const circuit = new Circuit(3)
+      .rx(1, Math.PI / 2)
+      .ry(0, new Parameter("θ₁"))
+      .addGate(new ControlledGate(new PauliXGate(2), [0], [0]))
+      .swap(0, 1);
+    const latex = toQuantikz(circuit);
+    expect(latex).toContain("\\gate{R_x(\\pi/2)}");
+    expect(latex).toContain("\\gate{R_y(\\theta_{1})}");
+    expect(latex).toContain("\\octrl{2}");
+    expect(latex).toContain("\\swap{1}");
+    expect(latex).toContain("\\targX{}");
+    expect(toQuantikz(circuit, { angleUnit: "degrees" })).toContain(
+      "\\gate{R_x(90^{\\circ})}"
+    );
+  });
+
+  it("writes qubit names, initial states and output labels at the ends of the wires", () => {
+    const circuit = new Circuit(2).h(0);
+    circuit.nameQubit(0, "a");
+    circuit.setInitialState(1, "+");
+    circuit.setOutputLabel(0, "out");
+    const latex = toQuantikz(circuit);
+    expect(latex).toContain("\\lstick{$a$} & \\gate{H} & \\qw & \\rstick{out}");
+    expect(latex).toContain("\\lstick{$q_{1}$ $\\ket{\\mathrm{+}}$}");
+  });
+});
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { PauliXGate } from "../src/gates/PauliXGate";
+import { Renderer } from "../src/Renderer";
+import { Themes } from "../src/themes";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+describe("Renderer", () => {
+  it("draws gates as they are added", () => {
+    const circuit = new Circuit(2).h(0);
+    const renderer = new Renderer(circuit, canvas);
+    renderer.draw();
+    circuit.cx(0, 1);
+    expect(renderer.elements).toHaveLength(2);
+  });
+
+  it("keeps the elements of gates that did not move", () => {
+    const circuit = new Circuit(2).h(0).x(1);
+    const renderer = new Renderer(circuit, canvas);
+    renderer.draw();
+    const [first, second] = renderer.elements;
+    circuit.z(1);
+    expect(renderer.elements[0]).toBe(first);
+    expect(renderer.elements[1]).toBe(second);
+    expect(renderer.elements).toHaveLength(3);
+  });
+
+  it("redraws gates shifted by an insertion", () => {
+    const circuit = new Circuit(1).h(0);
+    const renderer = new Renderer(circuit, canvas);
+    renderer.draw();
+    const moved = renderer.elements[0];
+    circuit.insertGate(0, new PauliXGate(0));
+    expect(renderer.elements).toHaveLength(2);
+    expect(renderer.elements[1]).not.toBe(moved);
+  });
+
+  it("lays out and compares only the gates from the changed one on", () => {
+    const circuit = new Circuit(2).h(0).x(1).cx(0, 1).h(1);
+    const renderer = new Renderer(circuit, canvas, { wrapColumns: 2 });
+    renderer.draw();
+    const layout = vi.spyOn(renderer, "layout");
+    const [first, second] = renderer.elements;
+    circuit.insertGate(2, new PauliXGate(0));
+    circuit.removeGate(3);
+    circuit.moveGate(3, 2);
+    expect(layout).not.toHaveBeenCalled();
+    expect(renderer.elements[0]).toBe(first);
+    expect(renderer.elements[1]).toBe(second);
+    expect(
+      renderer.elements.map((group) => group.attr("data-gate-index"))
+    ).toEqual([0, 1, 2, 3]);
+    expect(renderer.columnElements(1)).toHaveLength(2);
+  });
+
+  it("draws the same diagram after changes as from scratch", () => {
+    const circuit = new Circuit(3, 1).h(0).cx(0, 1).measure(1, 0).x(2);
+    circuit.group("Bell", 0, 2);
+    const styles = { wrapColumns: 2, backgroundColor: "#fff" };
+    const renderer = new Renderer(circuit, canvas, styles);
+    renderer.draw();
+    circuit.insertGate(1, new PauliXGate(2));
+    circuit.h(2).h(2).h(2);
+    circuit.removeGate(0);
+    circuit.moveGate(5, 1);
+
+    const window = createSVGWindow();
+    registerWindow(window, window.document);
+    const fresh = new Renderer(
+      circuit,
+      SVG(window.document.documentElement) as Svg,
+      styles
+    );
+    fresh.draw();
+    const markup = (svg: Svg) =>
+      svg
+        .find("line, path, rect, text")
+        .map((element) => element.svg().replace(/ id="[^"]*"/g, ""))
+        .sort();
+    expect(markup(renderer.svg)).toEqual(markup(fresh.svg));
+  });
+
+  it("no longer follows the circuit once disposed, even after draw()", () => {
+    const circuit = new Circuit(2).h(0);
+    const renderer = new Renderer(circuit, canvas);
+    renderer.draw();
+    renderer.dispose();
+    renderer.draw();
+    circuit.x(1);
+    expect(renderer.elements).toHaveLength(1);
+  });
+
+  it("puts group titles on the diagram's background", () => {
+    const circuit = new Circuit(1).group("Prep", (c) => c.h(0));
+    const renderer = new Renderer(circuit, canvas, {
+      backgroundColor: "#123456",
+      gateFill: "#abcdef",
+    });
+    renderer.draw();
+    const fills = renderer.groupElements[0]
+      .find("rect")
+      .map((rect) => rect.attr("fill"));
+    expect(fills).toContain("#123456");
+    expect(fills).not.toContain("#abcdef");
+  });
+
+  it("puts the group titles of transparent diagrams on the theme's title background", () => {
+    const circuit = new Circuit(1).group("Prep", (c) => c.h(0));
+    const renderer = new Renderer(circuit, canvas, {
+      ...Themes.dark,
+      backgroundColor: "none",
+    });
+    renderer.draw();
+    const fills = renderer.groupElements[0]
+      .find("rect")
+      .map((rect) => rect.attr("fill"));
+    expect(fills).toContain(Themes.dark.groupTitleBackground);
+    expect(fills).not.toContain("#fff");
+  });
+});
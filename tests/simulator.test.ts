@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import { cIf } from "../src/gates/ClassicalCondition";
+import { PauliXGate } from "../src/gates/PauliXGate";
+import { Parameter } from "../src/Parameter";
+import { simulate } from "../src/Simulator";
+
+/**
+ * Returns a source of random numbers that always gives the same value.
+ */
+function constant(value: number): () => number {
+  return () => value;
+}
+
+/**
+ * Checks probabilities against the expected ones.
+ */
+function expectProbabilities(actual: number[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((p, i) => expect(actual[i]).toBeCloseTo(p));
+}
+
+describe("simulate", () => {
+  it("prepares a Bell pair", () => {
+    const { state } = simulate(new Circuit(2).h(0).cx(0, 1));
+    expectProbabilities(state.probabilities(), [0.5, 0, 0, 0.5]);
+    expectProbabilities(state.probabilities([1]), [0.5, 0.5]);
+  });
+
+  it("indexes outcomes little endian", () => {
+    const { state } = simulate(new Circuit(3).x(0).x(2));
+    expectProbabilities(state.probabilities(), [0, 0, 0, 0, 0, 1, 0, 0]);
+    expectProbabilities(state.probabilities([2, 1]), [0, 1, 0, 0]);
+  });
+
+  it("collapses the state on measurement and records the outcome", () => {
+    const circuit = new Circuit(2, 2).h(0).cx(0, 1).measure(0, 0).measure(1, 1);
+    const one = simulate(circuit, { random: constant(0) });
+    expect(one.clbits).toEqual([1, 1]);
+    expectProbabilities(one.state.probabilities(), [0, 0, 0, 1]);
+
+    const zero = simulate(circuit, { random: constant(0.99) });
+    expect(zero.clbits).toEqual([0, 0]);
+  });
+
+  it("applies classically controlled gates only when their condition holds", () => {
+    const circuit = new Circuit(2, 1).x(0).measure(0, 0);
+    circuit.addGate(cIf(new PauliXGate(1), [0], 1));
+    expectProbabilities(simulate(circuit).state.probabilities([1]), [0, 1]);
+
+    const skipped = new Circuit(2, 1).measure(0, 0);
+    skipped.addGate(cIf(new PauliXGate(1), [0], 1));
+    expectProbabilities(simulate(skipped).state.probabilities([1]), [1, 0]);
+  });
+
+  it("resets qubits to |0⟩", () => {
+    const { state } = simulate(new Circuit(1).x(0).reset(0));
+    expectProbabilities(state.probabilities(), [1, 0]);
+  });
+
+  it("rejects unbound symbolic parameters", () => {
+    const circuit = new Circuit(1).rx(0, new Parameter("theta"));
+    expect(() => simulate(circuit)).toThrow();
+  });
+});
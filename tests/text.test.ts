@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import { renderToText } from "../src/formats/text";
+
+describe("renderToText", () => {
+  it("draws gates as boxes and CNOT gates with a control and a target", () => {
+    expect(renderToText(new Circuit(2).h(0).cx(0, 1))).toBe(
+      [
+        "       ┌───┐",
+        "q[0]: ─┤ H ├──●──",
+        "       └───┘  │",
+        "              │",
+        "q[1]: ────────⊕──",
+        "",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("puts gates in the columns of the diagram", () => {
+    const lines = renderToText(new Circuit(2).h(0).x(1)).split("\n");
+    expect(lines[1].indexOf("H")).toBe(lines[4].indexOf("X"));
+  });
+
+  it("draws with plain ASCII characters on request", () => {
+    const text = renderToText(new Circuit(2, 1).h(0).measure(0, 0), {
+      charset: "ascii",
+    });
+    expect(text).toMatch(/^[\x20-\x7e\n]*$/);
+    expect(text).toContain("| M |");
+    expect(text).toContain("c[0]: =========v===");
+  });
+
+  it("folds long circuits into segments no wider than the maximum width", () => {
+    const circuit = new Circuit(1);
+    for (let i = 0; i < 12; i++) {
+      circuit.h(0);
+    }
+    const text = renderToText(circuit, { maxWidth: 30 });
+    const lines = text.split("\n");
+    lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(30));
+    expect(lines.filter((line) => line.indexOf("q[0]:") === 0)).toHaveLength(4);
+    expect(text.match(/H/g)).toHaveLength(12);
+    expect(text.match(/«/g)).toHaveLength(3);
+  });
+
+  it("writes angles in the unit asked for", () => {
+    const circuit = new Circuit(1).rx(0, Math.PI / 2);
+    expect(renderToText(circuit)).toContain("RX(π/2)");
+    expect(renderToText(circuit, { angleUnit: "degrees" })).toContain(
+      "RX(90°)"
+    );
+  });
+});
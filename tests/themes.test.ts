@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { Renderer } from "../src/Renderer";
+import { Themes, themeStyles } from "../src/themes";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+describe("themeStyles", () => {
+  it("offers the built-in themes by name", () => {
+    expect(Object.keys(Themes)).toEqual([
+      "light",
+      "dark",
+      "high-contrast",
+      "print",
+      "textbook",
+    ]);
+    expect(themeStyles("dark").backgroundColor).toBe("#1e1e1e");
+  });
+
+  it("applies styles over the theme and merges the overrides of each gate kind", () => {
+    const styles = themeStyles("textbook", {
+      lineColor: "#123456",
+      gateStyles: {
+        x: { gateFill: "#abcdef" },
+        cnot: { controlColor: "#f00" },
+      },
+    });
+    expect(styles.lineColor).toBe("#123456");
+    expect(styles.gateStyles!.x).toEqual({
+      gateFill: "#abcdef",
+      gateStroke: "#c62828",
+      fontColor: "#b71c1c",
+    });
+    expect(styles.gateStyles!.cnot).toEqual({
+      gateStroke: "#1565c0",
+      controlColor: "#f00",
+    });
+    expect(styles.gateStyles!.h).toEqual(Themes.textbook.gateStyles!.h);
+    expect(Themes.textbook.gateStyles!.x.gateFill).toBe("#ffcdd2");
+  });
+
+  it("rejects unknown theme names", () => {
+    expect(() => themeStyles("neon")).toThrow(
+      "Unknown theme 'neon'. The themes are: light, dark, high-contrast, print, textbook."
+    );
+  });
+});
+
+describe("themed rendering", () => {
+  /**
+   * Draws an X and an H gate, the H gate with its own fill, and a CNOT gate with the high-contrast theme.
+   */
+  function draw(): void {
+    const circuit = new Circuit(2).x(0).h(1).cx(0, 1);
+    circuit.gates[1].style = { gateFill: "#abcdef" };
+    new Renderer(
+      circuit,
+      canvas,
+      themeStyles("high-contrast", {
+        gateStyles: { x: { gateFill: "#123456" } },
+      })
+    ).draw();
+  }
+
+  it("draws the background and wires in the theme's colors", () => {
+    draw();
+    expect(canvas.findOne("rect")!.attr("fill")).toBe("#000000");
+    expect(canvas.findOne("line")!.attr("stroke")).toBe("#ffffff");
+    expect(canvas.findOne("line")!.attr("stroke-width")).toBe(3);
+  });
+
+  it("styles gates by kind, and single gates by their own styles", () => {
+    draw();
+    const box = (index: number) =>
+      canvas.findOne(`[data-gate-index="${index}"] rect`)!;
+    expect(box(0).attr("fill")).toBe("#123456");
+    expect(box(0).attr("stroke")).toBe("#ffff00");
+    expect(box(1).attr("fill")).toBe("#abcdef");
+  });
+
+  it("sizes control dots and targets from the theme", () => {
+    draw();
+    const [dot, target] = canvas.find('[data-gate-index="2"] circle');
+    expect(dot.attr("r")).toBe(6);
+    expect(target.attr("r")).toBe(13);
+    expect(target.attr("fill")).toBe("#000000");
+  });
+});
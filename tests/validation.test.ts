@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { Circuit } from "../src/Circuit";
+import { HadamardGate } from "../src/gates/HadamardGate";
+import { RotationGate } from "../src/gates/RotationGate";
+import { IGate } from "../src/gates/IGate";
+import { CircuitValidationError, validateGate } from "../src/validation";
+
+function addError(circuit: Circuit, gate: IGate): CircuitValidationError {
+  try {
+    circuit.addGate(gate);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CircuitValidationError);
+    return error as CircuitValidationError;
+  }
+  throw new Error("Expected the gate to be rejected.");
+}
+
+describe("addGate validation", () => {
+  it("rejects qubits outside the circuit and leaves the circuit unchanged", () => {
+    const circuit = new Circuit(3).h(0);
+    const error = addError(circuit, new HadamardGate(7));
+    expect(error.message).toBe(
+      "Gate 'H' at index 1 is invalid: Qubit index 7 is out of range for 3 qubit(s)."
+    );
+    expect(error.index).toBe(1);
+    expect(error.issues.map((issue) => issue.code)).toEqual(["qubit"]);
+    expect(circuit.gates).toHaveLength(1);
+  });
+
+  it("rejects qubit indices that are not integers", () => {
+    const error = addError(new Circuit(2), { name: "U", qubits: [0.5] });
+    expect(error.issues[0].message).toBe("Qubit index 0.5 is not an integer.");
+  });
+
+  it("rejects gates that use a qubit twice", () => {
+    const error = addError(new Circuit(2), { name: "U", qubits: [1, 1] });
+    expect(error.issues.map((issue) => issue.code)).toEqual([
+      "duplicate-qubit",
+    ]);
+  });
+
+  it("rejects angles that are not finite", () => {
+    const error = addError(new Circuit(1), new RotationGate("X", 0, Infinity));
+    expect(error.issues[0]).toMatchObject({
+      index: 0,
+      code: "parameter",
+      message: "The angle must be a finite number, but is Infinity.",
+    });
+  });
+});
+
+describe("validate", () => {
+  it("reports a valid circuit", () => {
+    expect(new Circuit(2).h(0).cx(0, 1).validate()).toEqual({
+      valid: true,
+      issues: [],
+    });
+  });
+
+  it("reports the gates that no longer fit the circuit, with their index", () => {
+    const circuit = new Circuit(3).h(0).cx(1, 2);
+    circuit.numQubits = 2;
+    const report = circuit.validate();
+    expect(report.valid).toBe(false);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({
+      index: 1,
+      gate: circuit.gates[1],
+      code: "qubit",
+      message: "Qubit index 2 is out of range for 2 qubit(s).",
+    });
+  });
+
+  it("checks a gate against a circuit without adding it", () => {
+    const circuit = new Circuit(1);
+    expect(validateGate(circuit, new HadamardGate(0))).toEqual([]);
+    expect(validateGate(circuit, new HadamardGate(1), 4)[0].index).toBe(4);
+    expect(circuit.gates).toHaveLength(0);
+  });
+});
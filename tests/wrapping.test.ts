@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createSVGWindow } from "svgdom";
+import { registerWindow, SVG, Svg } from "@svgdotjs/svg.js";
+import { Circuit } from "../src/Circuit";
+import { Layout } from "../src/Layout";
+import { Renderer } from "../src/Renderer";
+
+let canvas: Svg;
+
+beforeEach(() => {
+  const window = createSVGWindow();
+  registerWindow(window, window.document);
+  canvas = SVG(window.document.documentElement) as Svg;
+});
+
+/**
+ * A two-qubit circuit of eight columns of H and X gates.
+ */
+function long(): Circuit {
+  const circuit = new Circuit(2);
+  for (let i = 0; i < 7; i++) {
+    circuit.h(i % 2).x(i % 2);
+  }
+  return circuit;
+}
+
+describe("wrapping", () => {
+  it("keeps a single segment by default", () => {
+    const layout = new Layout(long());
+    expect(layout.segments).toHaveLength(1);
+    expect(layout.columnsPerSegment).toBe(Infinity);
+  });
+
+  it("folds the columns into segments stacked vertically", () => {
+    const layout = new Layout(long(), { wrapColumns: 3 });
+    expect(layout.numColumns).toBe(8);
+    expect(
+      layout.segments.map(({ startColumn, endColumn, top, bottom }) => [
+        startColumn,
+        endColumn,
+        top,
+        bottom,
+      ])
+    ).toEqual([
+      [0, 3, 0, 150],
+      [3, 6, 150, 300],
+      [6, 8, 300, 450],
+    ]);
+    expect(layout.height).toBe(450);
+  });
+
+  it("starts every segment at the left margin", () => {
+    const layout = new Layout(long(), { wrapColumns: 3 });
+    const first = layout.placements.filter(({ column }) => column === 0);
+    const fourth = layout.placements.filter(({ column }) => column === 3);
+    expect(fourth[0].x).toBe(first[0].x);
+    expect(fourth[0].ys[0]).toBe(layout.qubitY(fourth[0].gate.qubits[0], 1));
+  });
+
+  it("repeats the wire labels in every segment", () => {
+    const layout = new Layout(long(), { wrapColumns: 3 });
+    expect(
+      layout.labels.map(({ segment, text, y }) => [segment, text, y])
+    ).toEqual([
+      [0, "q₀", 50],
+      [0, "q₁", 100],
+      [1, "q₀", 200],
+      [1, "q₁", 250],
+      [2, "q₀", 350],
+      [2, "q₁", 400],
+    ]);
+  });
+
+  it("fits as many columns as the maximum width allows", () => {
+    const layout = new Layout(long(), { wrapWidth: 400 });
+    expect(layout.columnsPerSegment).toBe(3);
+    expect(layout.segments).toHaveLength(3);
+    expect(layout.width).toBeLessThanOrEqual(400);
+  });
+
+  it("draws continuation markers where the wires are cut", () => {
+    new Renderer(long(), canvas, { wrapColumns: 3 }).draw();
+    // The end of the first segment, both ends of the second and the start of the last, on two wires each.
+    expect(canvas.find("polyline")).toHaveLength(8);
+  });
+});
@@ -1,14 +1,15 @@
 const path = require("path");
+const { BannerPlugin } = require("webpack");
 
-module.exports = {
-  entry: "./src/index.ts",
-  output: {
-    filename: "quantum-circuit-drawer.js",
-    path: path.resolve(__dirname, "dist"),
-    library: "QuantumCircuitDrawer",
-    libraryTarget: "umd",
-    globalObject: "this",
-  },
+// Node-only packages used by the headless exporters; loaded on demand.
+const nodeExternals = {
+  svgdom: "import svgdom",
+  "@resvg/resvg-js": "import @resvg/resvg-js",
+  pdfkit: "import pdfkit",
+  "svg-to-pdfkit": "import svg-to-pdfkit",
+};
+
+const common = {
   resolve: {
     extensions: [".ts", ".js"],
   },
@@ -16,7 +17,55 @@ module.exports = {
     rules: [{ test: /\.ts$/, use: "ts-loader", exclude: /node_modules/ }],
   },
   mode: "production",
-  externals: {
-    "@svgdotjs/svg.js": "SVG",
+  // The font resolution of the exporters looks up the bundled fonts relative to the library's own file.
+  node: {
+    __filename: false,
   },
 };
+
+module.exports = [
+  {
+    ...common,
+    entry: "./src/index.ts",
+    output: {
+      filename: "quantum-circuit-drawer.js",
+      path: path.resolve(__dirname, "dist"),
+      library: "QuantumCircuitDrawer",
+      libraryTarget: "umd",
+      globalObject: "this",
+      environment: {
+        dynamicImport: true,
+      },
+    },
+    externals: {
+      "@svgdotjs/svg.js": {
+        commonjs: "@svgdotjs/svg.js",
+        commonjs2: "@svgdotjs/svg.js",
+        amd: "@svgdotjs/svg.js",
+        root: "SVG",
+      },
+      ...nodeExternals,
+      "fs/promises": "import fs/promises",
+      module: "import module",
+      path: "import path",
+    },
+  },
+  {
+    ...common,
+    // The command-line tool, run by Node.js.
+    entry: "./src/bin.ts",
+    target: "node",
+    output: {
+      filename: "cli.js",
+      path: path.resolve(__dirname, "dist"),
+      environment: {
+        dynamicImport: true,
+      },
+    },
+    externals: {
+      "@svgdotjs/svg.js": "commonjs @svgdotjs/svg.js",
+      ...nodeExternals,
+    },
+    plugins: [new BannerPlugin({ banner: "#!/usr/bin/env node", raw: true })],
+  },
+];